@@ -2,6 +2,9 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { AccessCode, AccessCodeCreateInput } from "@/lib/access-control";
+import type { AdminSession } from "@/lib/admin-auth";
+
+type AdminSessionListItem = AdminSession & { current: boolean };
 
 export default function AdminPage() {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
@@ -24,6 +27,10 @@ export default function AdminPage() {
   });
   const [isCreating, setIsCreating] = useState(false);
 
+  // Active admin sessions
+  const [sessions, setSessions] = useState<AdminSessionListItem[]>([]);
+  const [sessionError, setSessionError] = useState("");
+
   // Check auth status on mount
   useEffect(() => {
     checkAuth();
@@ -54,6 +61,8 @@ export default function AdminPage() {
       if (res.ok) {
         setIsAuthenticated(true);
         setPassword("");
+      } else if (res.status === 429) {
+        setLoginError("Too many attempts, try again later");
       } else {
         setLoginError("Invalid password");
       }
@@ -69,6 +78,7 @@ export default function AdminPage() {
       await fetch("/api/admin/login", { method: "DELETE" });
       setIsAuthenticated(false);
       setCodes([]);
+      setSessions([]);
     } catch {
       console.error("Logout failed");
     }
@@ -102,12 +112,53 @@ export default function AdminPage() {
     }
   }, []);
 
-  // Load codes when authenticated
+  const loadSessions = useCallback(async () => {
+    setSessionError("");
+
+    try {
+      const res = await fetch("/api/admin/sessions");
+      if (!res.ok) throw new Error("Failed to load sessions");
+      const data = await res.json();
+      setSessions(data.sessions || []);
+    } catch (err) {
+      setSessionError("Failed to load sessions");
+      console.error(err);
+    }
+  }, []);
+
+  // Load codes and sessions when authenticated
   useEffect(() => {
     if (isAuthenticated) {
       loadCodes();
+      loadSessions();
     }
-  }, [isAuthenticated, loadCodes]);
+  }, [isAuthenticated, loadCodes, loadSessions]);
+
+  const handleRevokeSession = async (session: AdminSessionListItem) => {
+    const message = session.current
+      ? "Revoke your current session? You will be logged out."
+      : "Revoke this session?";
+    if (!confirm(message)) return;
+
+    try {
+      const res = await fetch(
+        `/api/admin/sessions/${encodeURIComponent(session.id)}`,
+        { method: "DELETE" }
+      );
+      if (!res.ok) throw new Error("Failed to revoke session");
+
+      if (session.current) {
+        setIsAuthenticated(false);
+        setCodes([]);
+        setSessions([]);
+        return;
+      }
+      await loadSessions();
+    } catch (err) {
+      setSessionError("Failed to revoke session");
+      console.error(err);
+    }
+  };
 
   const handleCreateCode = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -414,8 +465,59 @@ export default function AdminPage() {
             )}
           </div>
         </div>
+
+        {/* Admin Sessions */}
+        <div className="pixel-frame p-6 mt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="pixel-heading">🔑 ADMIN SESSIONS</h2>
+            <button onClick={loadSessions} className="pixel-btn text-xs">
+              🔄 REFRESH
+            </button>
+          </div>
+
+          {sessionError && (
+            <p className="pixel-text-sm text-[var(--pixel-red)] mb-4">{sessionError}</p>
+          )}
+
+          {sessions.length === 0 ? (
+            <p className="pixel-text text-center py-4 text-[var(--pixel-text-dim)]">
+              No active sessions.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="pixel-frame p-3 flex items-center justify-between gap-4"
+                >
+                  <div className="pixel-text-sm text-xs space-y-1">
+                    <div>
+                      <code className="text-[var(--pixel-gold)]">{session.id.slice(0, 12)}</code>
+                      {session.current && (
+                        <span className="ml-2 text-[var(--pixel-green-bright)]">(this session)</span>
+                      )}
+                    </div>
+                    <div className="text-[var(--pixel-text-dim)]">
+                      {session.ip ?? "unknown IP"} · {session.userAgent ?? "unknown agent"}
+                    </div>
+                    <div className="text-[var(--pixel-text-dim)]">
+                      Created {new Date(session.createdAt).toLocaleString()} · Expires{" "}
+                      {new Date(session.expiresAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeSession(session)}
+                    className="pixel-btn text-xs px-2 py-1 text-[var(--pixel-red)]"
+                    title="Revoke session"
+                  >
+                    🚫
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
 }
-
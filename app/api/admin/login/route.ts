@@ -1,21 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateAdminPassword, setAdminSession, clearAdminSession, isAdminAuthenticated } from '@/lib/admin-auth';
+import {
+  validateAdminPassword,
+  setAdminSession,
+  clearAdminSession,
+  isAdminAuthenticated,
+  getClientIp,
+  registerLoginAttempt,
+  resetLoginAttempts,
+} from '@/lib/admin-auth';
 
 export async function POST(request: NextRequest) {
   try {
     const { password } = await request.json();
-    
+
     if (!password) {
       return NextResponse.json({ error: 'Password required' }, { status: 400 });
     }
-    
+
+    const ip = getClientIp(request);
+    const attempt = await registerLoginAttempt(ip);
+    if (!attempt.allowed) {
+      return NextResponse.json(
+        { error: 'Too many login attempts, try again later' },
+        { status: 429, headers: { 'Retry-After': String(attempt.retryAfterSeconds) } }
+      );
+    }
+
     const result = await validateAdminPassword(password);
-    
+
     if (result.success && result.token) {
-      await setAdminSession(result.token);
+      await setAdminSession(result.token, request);
+      await resetLoginAttempts(ip);
       return NextResponse.json({ success: true });
     }
-    
+
     return NextResponse.json({ error: 'Invalid password' }, { status: 401 });
   } catch (error) {
     console.error('Login error:', error);
@@ -23,9 +41,9 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
-    await clearAdminSession();
+    await clearAdminSession(request);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Logout error:', error);
@@ -42,4 +60,3 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ authenticated: false });
   }
 }
-
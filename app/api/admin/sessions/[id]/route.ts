@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, revokeAdminSession } from '@/lib/admin-auth';
+
+// DELETE - Revoke an admin session
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdmin(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    if (!(await revokeAdminSession(id))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return NextResponse.json({ error: 'Failed to revoke session' }, { status: 500 });
+  }
+}
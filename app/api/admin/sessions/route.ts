@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentAdminSessionId, listAdminSessions, requireAdmin } from '@/lib/admin-auth';
+
+// GET - List active admin sessions
+export async function GET(request: NextRequest) {
+  const authError = await requireAdmin(request);
+  if (authError) return authError;
+
+  try {
+    const [sessions, currentId] = await Promise.all([
+      listAdminSessions(),
+      getCurrentAdminSessionId(request),
+    ]);
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === currentId,
+      })),
+    });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    return NextResponse.json({ error: 'Failed to list sessions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { getGameResult } from "@/lib/game-results";
+
+// GET - Final state and config of a finished game
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+
+  try {
+    const result = await getGameResult(runId);
+    if (!result) {
+      return Response.json({ error: "Result not found" }, { status: 404 });
+    }
+    return Response.json(result);
+  } catch (error) {
+    console.error("[Result] Error fetching result:", error);
+    return Response.json(
+      { error: "Failed to fetch result" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,32 @@
+import {
+  ACCESS_VIOLATION_STATUS,
+  consumeAccessCodeForGame,
+  refundAccessCodeGame,
+} from "@/lib/access-control";
+import {
+  getPlayerAgentType,
+  isBotId,
+  isPlayerAgentType,
+} from "@/lib/agents";
+import {
+  contentPackSchema,
+  MAX_CONTENT_PACK_LENGTH,
+} from "@/lib/content-packs";
 import { getWithDefaultConfig } from "@/lib/defaults";
-import { Player } from "@/lib/types";
+import { isFailurePolicy } from "@/lib/failure-policy";
+import { isMarketMechanism } from "@/lib/market-mechanisms";
+import { isSpendLimits } from "@/lib/spend-limits";
+import {
+  CreditConfig,
+  FailurePolicy,
+  FeeConfig,
+  FinalScoring,
+  HerbSellBackConfig,
+  MarketMechanism,
+  NotebookConfig,
+  Player,
+  SpendLimits,
+} from "@/lib/types";
 import { gameWorkflow } from "@/workflows/game-workflow";
 import { start } from "workflow/api";
 
@@ -17,10 +44,38 @@ function sanitizeStrategyPrompt(prompt?: string): string | undefined {
 
 export async function POST(request: Request) {
   const body = await request.json();
-  const { players, seed, days } = body as {
+  const {
+    players,
+    seed,
+    days,
+    code,
+    marketMechanism,
+    contentPack,
+    playerTrading,
+    credit,
+    standingOrders,
+    herbSellBack,
+    finalScoring,
+    fees,
+    failurePolicy,
+    spendLimits,
+    notebook,
+  } = body as {
     players: Player[];
     seed?: string;
     days?: number;
+    code?: string;
+    marketMechanism?: MarketMechanism;
+    contentPack?: unknown; // Content pack JSON (see lib/content-packs.ts)
+    playerTrading?: boolean;
+    credit?: CreditConfig;
+    standingOrders?: boolean;
+    herbSellBack?: HerbSellBackConfig;
+    finalScoring?: FinalScoring;
+    fees?: FeeConfig;
+    failurePolicy?: FailurePolicy;
+    spendLimits?: SpendLimits;
+    notebook?: NotebookConfig;
   };
 
   if (!players || players.length < 1 || players.length > 6) {
@@ -30,24 +85,271 @@ export async function POST(request: Request) {
     );
   }
 
+  const unknownAgent = players.find(
+    (p) => p.agent !== undefined && !isPlayerAgentType(p.agent)
+  );
+  if (unknownAgent) {
+    return Response.json(
+      {
+        error: `Unknown agent for ${unknownAgent.name}: ${unknownAgent.agent} (need "human", "bot" or "llm")`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const unknownBot = players.find(
+    (p) => getPlayerAgentType(p) === "bot" && !isBotId(p.botId)
+  );
+  if (unknownBot) {
+    return Response.json(
+      { error: `Unknown bot: ${unknownBot.botId}` },
+      { status: 400 }
+    );
+  }
+
+  const badAgent = players.find(
+    (p) =>
+      (p.llmMode !== undefined &&
+        p.llmMode !== "one-shot" &&
+        p.llmMode !== "tools") ||
+      (p.toolCallBudget !== undefined &&
+        !(Number.isInteger(p.toolCallBudget) && p.toolCallBudget >= 0)) ||
+      (p.maxRevisions !== undefined &&
+        !(Number.isInteger(p.maxRevisions) && p.maxRevisions >= 0))
+  );
+  if (badAgent) {
+    return Response.json(
+      {
+        error: `Invalid LLM mode for ${badAgent.name}: need "one-shot" or "tools" and whole tool call and revision counts`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (marketMechanism !== undefined && !isMarketMechanism(marketMechanism)) {
+    return Response.json(
+      { error: `Unknown market mechanism: ${marketMechanism}` },
+      { status: 400 }
+    );
+  }
+
+  if (
+    contentPack !== undefined &&
+    JSON.stringify(contentPack).length > MAX_CONTENT_PACK_LENGTH
+  ) {
+    return Response.json(
+      {
+        error: `Content pack too large (max ${MAX_CONTENT_PACK_LENGTH} characters)`,
+      },
+      { status: 413 }
+    );
+  }
+
+  const parsedContentPack =
+    contentPack === undefined ? undefined : contentPackSchema.safeParse(contentPack);
+  if (parsedContentPack && !parsedContentPack.success) {
+    return Response.json(
+      {
+        error: `Invalid content pack: ${parsedContentPack.error.issues
+          .map((issue) => issue.message)
+          .join("; ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (
+    credit !== undefined &&
+    !(
+      Number.isInteger(credit?.limit) &&
+      credit.limit >= 0 &&
+      typeof credit.dailyInterestRate === "number" &&
+      credit.dailyInterestRate >= 0 &&
+      credit.dailyInterestRate <= 1
+    )
+  ) {
+    return Response.json(
+      { error: "Invalid credit: need a whole limit and a 0-1 daily interest rate" },
+      { status: 400 }
+    );
+  }
+
+  if (
+    herbSellBack !== undefined &&
+    !(
+      typeof herbSellBack?.discount === "number" &&
+      herbSellBack.discount >= 0 &&
+      herbSellBack.discount <= 1
+    )
+  ) {
+    return Response.json(
+      { error: "Invalid herbSellBack: need a 0-1 discount" },
+      { status: 400 }
+    );
+  }
+
+  if (
+    finalScoring !== undefined &&
+    finalScoring !== "gold" &&
+    finalScoring !== "net-worth"
+  ) {
+    return Response.json(
+      { error: 'Invalid finalScoring: use "gold" or "net-worth"' },
+      { status: 400 }
+    );
+  }
+
+  const isFee = (value: unknown, max = Infinity) =>
+    value === undefined ||
+    (typeof value === "number" && value >= 0 && value <= max);
+  if (
+    fees !== undefined &&
+    !(
+      isFee(fees?.listingFee) &&
+      isFee(fees?.salesTax, 1) &&
+      isFee(fees?.stallRent)
+    )
+  ) {
+    return Response.json(
+      { error: "Invalid fees: need non-negative fees and a 0-1 sales tax" },
+      { status: 400 }
+    );
+  }
+
+  if (failurePolicy !== undefined && !isFailurePolicy(failurePolicy)) {
+    return Response.json(
+      {
+        error:
+          "Invalid failure policy: need whole retries, backoffMs and maxStrikes (at least 1) and a repairJson flag",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (
+    notebook !== undefined &&
+    !(Number.isInteger(notebook?.maxChars) && notebook.maxChars > 0)
+  ) {
+    return Response.json(
+      { error: "Invalid notebook: need a positive whole maxChars" },
+      { status: 400 }
+    );
+  }
+
+  if (spendLimits !== undefined && !isSpendLimits(spendLimits)) {
+    return Response.json(
+      {
+        error:
+          'Invalid spend limits: need positive limits, onTimeout "hold" or "fail" and overBudget "hold" or "disqualified"',
+      },
+      { status: 400 }
+    );
+  }
+
   // Sanitize player strategy prompts (max 1000 chars)
   const sanitizedPlayers: Player[] = players.map((p) => ({
     ...p,
     strategyPrompt: sanitizeStrategyPrompt(p.strategyPrompt),
+    // At most two revisions per day
+    maxRevisions:
+      p.maxRevisions === undefined ? undefined : Math.min(2, p.maxRevisions),
   }));
 
   // Clamp days between 1 and 20
   const gameDays = Math.min(20, Math.max(1, days || 5));
   const gameSeed = seed || generateSeed();
   const config = getWithDefaultConfig(gameSeed, sanitizedPlayers, gameDays);
+  if (marketMechanism) {
+    config.generation.marketMechanism = marketMechanism;
+  }
+  if (parsedContentPack) {
+    config.generation.contentPack = parsedContentPack.data;
+  }
+  if (playerTrading === true) {
+    config.generation.playerTrading = true;
+  }
+  if (credit) {
+    config.generation.credit = {
+      limit: credit.limit,
+      dailyInterestRate: credit.dailyInterestRate,
+    };
+  }
+  if (standingOrders === true) {
+    config.generation.standingOrders = true;
+  }
+  if (herbSellBack) {
+    config.generation.herbSellBack = { discount: herbSellBack.discount };
+  }
+  if (finalScoring) {
+    config.generation.finalScoring = finalScoring;
+  }
+  if (fees) {
+    config.generation.fees = {
+      listingFee: fees.listingFee,
+      salesTax: fees.salesTax,
+      stallRent: fees.stallRent,
+    };
+  }
+  if (notebook) {
+    // Notes go into every prompt, so keep them to a few thousand characters
+    config.generation.notebook = { maxChars: Math.min(4000, notebook.maxChars) };
+  }
+  if (failurePolicy) {
+    // Cap retries and backoff so a failing model cannot stall the game
+    config.runtime.failurePolicy = {
+      retries: Math.min(3, failurePolicy.retries),
+      backoffMs: Math.min(10_000, failurePolicy.backoffMs),
+      repairJson: failurePolicy.repairJson,
+      fallbackModel: failurePolicy.fallbackModel,
+      maxStrikes: failurePolicy.maxStrikes,
+    };
+  }
+  if (spendLimits) {
+    config.runtime.spendLimits = {
+      callTimeoutMs: spendLimits.callTimeoutMs,
+      onTimeout: spendLimits.onTimeout,
+      playerBudgetUsd: spendLimits.playerBudgetUsd,
+      gameBudgetUsd: spendLimits.gameBudgetUsd,
+      overBudget: spendLimits.overBudget,
+    };
+  }
+
+  // Enforce the access code server-side: limits are checked and one game is
+  // consumed atomically before anything (and any tokens) is spent
+  const access = await consumeAccessCodeForGame(code, {
+    players: sanitizedPlayers,
+    days: gameDays,
+    fallbackModel: failurePolicy?.fallbackModel,
+  });
+  if (!access.ok) {
+    const { violation } = access;
+    console.log(
+      `[Game Start] Rejected: ${violation.code} (${violation.error})`
+    );
+    return Response.json(violation, {
+      status: ACCESS_VIOLATION_STATUS[violation.code],
+    });
+  }
 
   console.log(
     `[Game Start] Starting game with seed=${gameSeed}, days=${gameDays}, players=${sanitizedPlayers.length}`
   );
 
-  const run = await start(gameWorkflow, [config]);
+  let runId: string;
+  try {
+    const run = await start(gameWorkflow, [config]);
+    runId = run.runId;
+  } catch (error) {
+    console.error("[Game Start] Failed to start workflow:", error);
+    await refundAccessCodeGame(code!);
+    return Response.json({ error: "Failed to start game" }, { status: 500 });
+  }
 
-  console.log(`[Game Start] Created run ${run.runId}`);
+  console.log(`[Game Start] Created run ${runId}`);
 
-  return Response.json({ runId: run.runId, seed: gameSeed });
+  return Response.json({
+    runId,
+    seed: gameSeed,
+    remainingGames: access.remainingGames,
+  });
 }
@@ -1,5 +1,9 @@
-import { PlayerOutputs, playerOutputsSchema } from "@/lib/types";
-import { resumeHook } from "workflow/api";
+import { getContent } from "@/lib/content-packs";
+import { createPlayerOutputsSchema, PlayerOutputs } from "@/lib/types";
+import { getHookByToken, resumeHook } from "workflow/api";
+
+// Ids of the game's content pack, stored on the hook by the workflow
+type HookContentIds = { herbIds: string[]; potionIds: string[] };
 
 export async function POST(request: Request) {
   let hookToken: string | undefined;
@@ -21,8 +25,14 @@ export async function POST(request: Request) {
       return Response.json({ error: "Missing outputs" }, { status: 400 });
     }
 
-    // Validate the outputs against the schema
-    const validatedOutputs = playerOutputsSchema.safeParse(outputs);
+    // Validate the outputs against the game's own herbs and potions
+    const hook = await getHookByToken(hookToken);
+    const { herbIds, potionIds } =
+      (hook.metadata as HookContentIds | undefined) ?? getContent();
+    const validatedOutputs = createPlayerOutputsSchema(
+      herbIds,
+      potionIds
+    ).safeParse(outputs);
     if (!validatedOutputs.success) {
       return Response.json(
         { error: "Invalid outputs", details: validatedOutputs.error.issues },
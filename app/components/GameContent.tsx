@@ -38,9 +38,10 @@ export default function GameContent({
   } = useGameStream();
 
   const {
+    code,
     accessCode,
     remainingGames,
-    consumeGame,
+    updateRemainingGames,
     clearCode,
     validateCode,
     isValidating,
@@ -51,17 +52,16 @@ export default function GameContent({
     selectedPlayers: Player[],
     options?: { seed?: string; days?: number }
   ) => {
-    if (!hasAccess) {
+    if (!hasAccess || !code) {
       console.error("No valid access code");
       return;
     }
-    // Consume a game from the access code
-    const consumed = await consumeGame();
-    if (!consumed) {
-      console.error("Failed to consume game from access code");
-      return;
-    }
-    startGame(selectedPlayers, options);
+    // The server validates the code and consumes a game when starting
+    startGame(selectedPlayers, {
+      ...options,
+      accessCode: code,
+      onStarted: updateRemainingGames,
+    });
   };
 
   if (phase === "setup") {
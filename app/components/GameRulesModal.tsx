@@ -1,15 +1,21 @@
 "use client";
 
-import { RECIPES, POTION_NAMES, HERB_NAMES, PotionId, HerbId, POTION_TIER_LOOKUP, Tier } from "@/lib/types";
+import { formatRecipe, getContent } from "@/lib/content-packs";
+import { mapValues } from "lodash";
+import { ContentPack, Tier } from "@/lib/types";
 
 interface GameRulesModalProps {
   isOpen: boolean;
   onClose: () => void;
+  contentPack?: ContentPack; // Classic pack when omitted
 }
 
-export default function GameRulesModal({ isOpen, onClose }: GameRulesModalProps) {
+export default function GameRulesModal({ isOpen, onClose, contentPack }: GameRulesModalProps) {
   if (!isOpen) return null;
 
+  const content = getContent(contentPack);
+  const shortHerbNames = mapValues(content.herbNames, (name) => name.split(" ")[0]);
+
   const getTierColor = (tier: Tier) => {
     switch (tier) {
       case "T1": return "text-[var(--pixel-green-bright)]";
@@ -178,19 +184,19 @@ export default function GameRulesModal({ isOpen, onClose }: GameRulesModalProps)
           <section>
             <h3 className="pixel-heading text-[var(--pixel-gold)] mb-3">📜 RECIPES</h3>
             <p className="pixel-text-sm text-[var(--pixel-text-dim)] mb-3">
-              Each potion requires <span className="text-[var(--pixel-gold)]">1 of each listed herb</span> to craft.
+              Each craft uses <span className="text-[var(--pixel-gold)]">1 of each listed herb</span> unless a quantity is shown, and makes one potion unless stated otherwise.
             </p>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
-              {(Object.keys(RECIPES) as PotionId[]).map((potionId) => {
-                const recipe = RECIPES[potionId];
-                const tier = POTION_TIER_LOOKUP[potionId];
+              {content.potionIds.map((potionId) => {
+                const recipe = content.recipes[potionId];
+                const tier = content.potionTierLookup[potionId];
                 return (
                   <div key={potionId} className="pixel-frame p-2">
                     <div className={`pixel-text-sm font-bold ${getTierColor(tier)}`}>
-                      {POTION_NAMES[potionId]}
+                      {content.potionNames[potionId]}
                     </div>
                     <div className="pixel-text-sm text-[var(--pixel-text-dim)]">
-                      = {recipe.map((h: HerbId) => HERB_NAMES[h].split(" ")[0]).join(" + ")}
+                      = {formatRecipe(recipe, shortHerbNames)}
                     </div>
                   </div>
                 );
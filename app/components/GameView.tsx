@@ -2,22 +2,27 @@
 
 import { useState, useMemo, useEffect, useCallback } from "react";
 import {
+  BudgetStop,
   GameState,
   Player,
   PlayerInputs,
   PlayerOutputs,
-  HERB_NAMES,
-  POTION_NAMES,
   HerbId,
   PotionId,
-  HERB_TIERS,
-  POTION_TIERS,
   DayRecord,
+  MarketMechanism,
   PlayerDayActions,
   PlayerDayHistory,
+  PlayerFailure,
   PotionMarketData,
-  RECIPES,
+  StandingOrderFill,
 } from "@/lib/types";
+import { getPlayerAgentType } from "@/lib/agents";
+import { Content, formatRecipe, getContent } from "@/lib/content-packs";
+import { getNetWorth } from "@/lib/credit";
+import { formatFees } from "@/lib/fees";
+import { MARKET_MECHANISMS } from "@/lib/market-mechanisms";
+import { countItems, formatItemQuantities } from "@/lib/spoilage";
 import { parseErrorString } from "@/lib/format-utils";
 import { GamePhase } from "@/lib/hooks/use-game-stream";
 import { useStrategies } from "@/lib/hooks/use-strategies";
@@ -46,18 +51,6 @@ interface GameViewProps {
 
 type ViewMode = "overview" | "details";
 
-function getTierForHerb(herbId: HerbId): "T1" | "T2" | "T3" {
-  if (HERB_TIERS.T1.includes(herbId)) return "T1";
-  if (HERB_TIERS.T2.includes(herbId)) return "T2";
-  return "T3";
-}
-
-function getTierForPotion(potionId: PotionId): "T1" | "T2" | "T3" {
-  if (POTION_TIERS.T1.includes(potionId)) return "T1";
-  if (POTION_TIERS.T2.includes(potionId)) return "T2";
-  return "T3";
-}
-
 export default function GameView({
   dayStates,
   players,
@@ -81,6 +74,10 @@ export default function GameView({
   // Strategy management
   const { addStrategy } = useStrategies();
 
+  // Herbs and potions of the game being shown (classic unless configured)
+  const contentPack = dayStates[dayStates.length - 1]?.contentPack;
+  const content = useMemo(() => getContent(contentPack), [contentPack]);
+
   // Get starting gold from first day state
   const startingGold = dayStates[0]?.playerInventories[0]?.gold || 1000;
 
@@ -138,7 +135,11 @@ export default function GameView({
         }
       }
 
-      const currentGold = latestState.playerInventories[idx]?.gold || 0;
+      // Scores are gold minus debt until the engine settles final standings
+      const inventory = latestState.playerInventories[idx];
+      const currentGold =
+        latestState.finalStandings?.[idx]?.score ??
+        (inventory ? getNetWorth(inventory) : 0);
       const startingGold = dayStates[0]?.playerInventories[idx]?.gold || 1000;
       const profitLoss = currentGold - startingGold;
 
@@ -147,6 +148,7 @@ export default function GameView({
       
       // Check if player is disqualified
       const disqualification = latestState.disqualifiedPlayers?.find(d => d.playerIdx === idx);
+      const budgetStop = latestState.budgetStops?.find(s => s.playerIdx === idx);
 
       return {
         player,
@@ -168,6 +170,9 @@ export default function GameView({
         costUsd: usageStats?.costUsd || 0,
         totalTimeMs: usageStats?.totalTimeMs || 0,
         callCount: usageStats?.callCount || 0,
+        failedCalls: usageStats?.failedCalls || 0,
+        failures: latestState.playerFailures?.filter(f => f.playerIdx === idx) ?? [],
+        budgetStop,
         // Disqualification
         isDisqualified: !!disqualification,
         disqualificationReason: disqualification?.reason,
@@ -181,7 +186,7 @@ export default function GameView({
     return currentState.playerInventories
       .map((inv, idx) => ({
         playerIdx: idx,
-        gold: inv.gold,
+        gold: getNetWorth(inv),
         player: players[idx],
       }))
       .sort((a, b) => b.gold - a.gold);
@@ -192,8 +197,13 @@ export default function GameView({
   const isCompleted = phase === "completed";
   const finalWinner = useMemo(() => {
     if (!isCompleted || !latestState) return null;
+    // Engine-settled standings; games recorded before them fall back to gold
+    const winner = latestState.finalStandings?.find((s) => s.rank === 1);
+    if (winner) {
+      return { playerIdx: winner.playerIdx, gold: winner.score, player: players[winner.playerIdx] };
+    }
     const finalRankings = latestState.playerInventories
-      .map((inv, idx) => ({ playerIdx: idx, gold: inv.gold, player: players[idx] }))
+      .map((inv, idx) => ({ playerIdx: idx, gold: getNetWorth(inv), player: players[idx] }))
       .sort((a, b) => b.gold - a.gold);
     return finalRankings[0];
   }, [isCompleted, latestState, players]);
@@ -390,6 +400,7 @@ export default function GameView({
           totalDays={totalDays}
           phase={phase}
           dayRecord={dayRecord}
+          content={content}
         />
       )}
 
@@ -438,6 +449,9 @@ function OverviewView({
     costUsd: number;
     totalTimeMs: number;
     callCount: number;
+    failedCalls: number;
+    failures: PlayerFailure[];
+    budgetStop?: BudgetStop;
     // Disqualification
     isDisqualified: boolean;
     disqualificationReason?: string;
@@ -481,6 +495,7 @@ function OverviewView({
           ...s,
           offered: actions.actualOffers.find(o => o.potionId === s.potionId)?.qty || s.offered
         })),
+        stallRent: actions.stallRent,
         errors: actions.errors,
       });
     }
@@ -510,7 +525,7 @@ function OverviewView({
   
   // Generate strategy for a player
   const handleGenerateStrategy = async (stats: typeof playerStats[0]) => {
-    if (stats.player.isHuman) return;
+    if (getPlayerAgentType(stats.player) !== "llm") return;
     
     setGeneratingFor(stats.playerIdx);
     setGeneratedStrategy(null);
@@ -713,6 +728,32 @@ function OverviewView({
               </div>
             )}
 
+            {/* Failed calls indicator - each failure and how it was handled on hover */}
+            {stats.failures.length > 0 && (
+              <div className="mt-2 text-center">
+                <span
+                  className="pixel-text-sm text-[var(--pixel-orange)]"
+                  title={stats.failures
+                    .map(f => `${f.day ? `Day ${f.day}` : "Name"}: ${f.recovery} - ${f.error}`)
+                    .join("\n")}
+                >
+                  🔁 {stats.failedCalls} failed calls, {stats.failures.filter(f => f.recovery === "hold").length} holds
+                </span>
+              </div>
+            )}
+
+            {/* Spend limit indicator - held players sit out the rest of the game */}
+            {stats.budgetStop?.outcome === "hold" && (
+              <div className="mt-2 text-center">
+                <span
+                  className="pixel-text-sm text-[var(--pixel-orange)]"
+                  title={stats.budgetStop.reason}
+                >
+                  💸 OVER BUDGET - HOLDING
+                </span>
+              </div>
+            )}
+
             {/* Disqualification indicator */}
             {stats.isDisqualified && (
               <div className="mt-2 text-center">
@@ -721,7 +762,7 @@ function OverviewView({
             )}
 
             {/* Generate Strategy button - only for AI players when game is complete */}
-            {isCompleted && !stats.player.isHuman && !stats.isDisqualified && (
+            {isCompleted && getPlayerAgentType(stats.player) === "llm" && !stats.isDisqualified && (
               <div className="mt-3">
                 <button
                   onClick={(e) => {
@@ -820,6 +861,7 @@ function DetailsView({
   totalDays,
   phase,
   dayRecord,
+  content,
 }: {
   dayStates: GameState[];
   players: Player[];
@@ -834,6 +876,7 @@ function DetailsView({
   totalDays: number;
   phase: GamePhase;
   dayRecord?: DayRecord;
+  content: Content;
 }) {
   const playerActions = dayRecord?.playerActions?.[selectedPlayerIdx];
 
@@ -919,6 +962,23 @@ function DetailsView({
             </div>
           </div>
 
+          {/* Market Events */}
+          {dayRecord?.events && dayRecord.events.length > 0 && (
+            <div className="pixel-frame p-3">
+              <h2 className="pixel-heading text-center mb-3">📜 EVENTS</h2>
+              <div className="space-y-2">
+                {dayRecord.events.map((event) => (
+                  <div key={`${event.kind}-${event.startDay}`} className="pixel-text-sm">
+                    <div className="text-[var(--pixel-gold)]">{event.name}</div>
+                    <div className="text-[var(--pixel-text-dim)]">
+                      {event.description}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Herb Prices */}
           {dayRecord && (
             <div className="pixel-frame p-3">
@@ -926,8 +986,8 @@ function DetailsView({
               <div className="space-y-1">
                 {Object.entries(dayRecord.herbPrices).map(([herbId, price]) => (
                   <div key={herbId} className="flex justify-between pixel-text-sm">
-                    <span className={`tier-${getTierForHerb(herbId as HerbId).charAt(1)}`}>
-                      {HERB_NAMES[herbId as HerbId]}
+                    <span className={`tier-${content.herbTierLookup[herbId].charAt(1)}`}>
+                      {content.herbNames[herbId]}
                     </span>
                     <span className="gold-display">{price}</span>
                   </div>
@@ -961,6 +1021,11 @@ function DetailsView({
               player={players[selectedPlayerIdx]}
               playerIdx={selectedPlayerIdx}
               actions={playerActions}
+              content={content}
+              players={players}
+              orderFills={dayRecord?.standingOrderFills?.filter(
+                (fill) => fill.playerIdx === selectedPlayerIdx
+              )}
             />
           ) : (
             <div className="pixel-frame p-6 text-center">
@@ -976,6 +1041,7 @@ function DetailsView({
               marketSummary={dayRecord.marketSummary}
               potionDemands={dayRecord.potionDemands}
               players={players}
+              content={content}
             />
           )}
         </div>
@@ -989,13 +1055,21 @@ function PlayerDayView({
   player,
   playerIdx,
   actions,
+  content,
+  players,
+  orderFills,
 }: {
   player: Player;
   playerIdx: number;
   actions: PlayerDayActions;
+  content: Content;
+  players: Player[]; // Everyone in the game, to name trade partners
+  orderFills?: StandingOrderFill[]; // This player's fills (only with standing orders)
 }) {
   const [showReasoning, setShowReasoning] = useState(false);
   const [showStrategy, setShowStrategy] = useState(false);
+  const [showToolCalls, setShowToolCalls] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
   const profitLoss = actions.endInventory.gold - actions.startInventory.gold;
 
   return (
@@ -1023,6 +1097,24 @@ function PlayerDayView({
               💭 REASONING
             </button>
           )}
+          {actions.toolTranscript && (
+            <button
+              onClick={() => setShowToolCalls(true)}
+              className="pixel-btn text-xs"
+              title="View AI tool calls"
+            >
+              🛠 TOOL CALLS ({actions.toolTranscript.length})
+            </button>
+          )}
+          {actions.planRevisions && (
+            <button
+              onClick={() => setShowRevisions(true)}
+              className="pixel-btn text-xs"
+              title="View plans the AI revised"
+            >
+              ✏️ REVISED ({actions.planRevisions.length})
+            </button>
+          )}
         </div>
       </div>
 
@@ -1070,11 +1162,82 @@ function PlayerDayView({
         </div>
       )}
 
+      {/* Plan Revisions Modal */}
+      {showRevisions && actions.planRevisions && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80">
+          <div className="pixel-frame-gold max-w-3xl max-h-[80vh] overflow-hidden flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-[var(--pixel-border)]">
+              <h3 className="pixel-heading">✏️ Revised Plans - {player.name}</h3>
+              <button
+                onClick={() => setShowRevisions(false)}
+                className="pixel-btn text-xs"
+              >
+                ✕ CLOSE
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto space-y-3">
+              {actions.planRevisions.map((revision, idx) => (
+                <div key={idx}>
+                  <p className="pixel-text-sm text-[var(--pixel-gold)]">
+                    Plan {idx + 1} (sent back)
+                  </p>
+                  <pre className="pixel-text-sm whitespace-pre-wrap text-[var(--pixel-text)] font-mono bg-[var(--pixel-dark)] p-2 rounded border border-[var(--pixel-border)]">
+                    {JSON.stringify(revision.outputs)}
+                  </pre>
+                  {revision.errors.map((error, errorIdx) => (
+                    <p key={errorIdx} className="pixel-text-sm text-[var(--pixel-red)]">
+                      ⚠ {error}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Tool Calls Modal */}
+      {showToolCalls && actions.toolTranscript && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80">
+          <div className="pixel-frame-gold max-w-3xl max-h-[80vh] overflow-hidden flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-[var(--pixel-border)]">
+              <h3 className="pixel-heading">🛠 Tool Calls - {player.name}</h3>
+              <button
+                onClick={() => setShowToolCalls(false)}
+                className="pixel-btn text-xs"
+              >
+                ✕ CLOSE
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto space-y-3">
+              {actions.toolTranscript.length === 0 && (
+                <p className="pixel-text-sm text-[var(--pixel-text-dim)]">
+                  No tools called.
+                </p>
+              )}
+              {actions.toolTranscript.map((call, idx) => (
+                <div key={idx}>
+                  <p className="pixel-text-sm text-[var(--pixel-gold)]">
+                    {idx + 1}. {call.tool}
+                  </p>
+                  <pre className="pixel-text-sm whitespace-pre-wrap text-[var(--pixel-text)] font-mono bg-[var(--pixel-dark)] p-2 rounded border border-[var(--pixel-border)]">
+                    {JSON.stringify(call.input)}
+                    {"\n→ "}
+                    {JSON.stringify(call.output)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Start Inventory */}
         <InventoryPanel
           title="📦 START OF DAY"
           inventory={actions.startInventory}
+          content={content}
         />
 
         {/* End Inventory */}
@@ -1082,11 +1245,106 @@ function PlayerDayView({
           title="📦 END OF DAY"
           inventory={actions.endInventory}
           profitLoss={profitLoss}
+          content={content}
         />
       </div>
 
       {/* Actions Timeline */}
       <div className="mt-4 space-y-3">
+        {/* Private Trades */}
+        {actions.trades && (
+          <div className="pixel-frame p-3">
+            <h3 className="pixel-text-sm text-[var(--pixel-gold)] mb-2">🤝 TRADES</h3>
+            {actions.trades.length > 0 ? (
+              <div className="space-y-1">
+                {actions.trades.map((trade, idx) => (
+                  <div key={idx} className="flex justify-between pixel-text-sm">
+                    <span>
+                      {trade.side === "sell" ? "Sold" : "Bought"} {trade.qty}x{" "}
+                      {content.herbNames[trade.itemId] ?? content.potionNames[trade.itemId]}{" "}
+                      {trade.side === "sell" ? "to" : "from"}{" "}
+                      {players[trade.playerIdx]?.name ?? `#${trade.playerIdx}`}
+                    </span>
+                    <span
+                      className={
+                        trade.side === "sell"
+                          ? "text-[var(--pixel-green-bright)]"
+                          : "text-[var(--pixel-red)]"
+                      }
+                    >
+                      {trade.side === "sell" ? "+" : "-"}
+                      {trade.qty * trade.price}g
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="pixel-text-sm text-[var(--pixel-text-dim)]">No trades</p>
+            )}
+            {actions.errors.filter(e => e.startsWith("Trade") || e.includes("trade")).length > 0 && (
+              <div className="mt-2 text-[var(--pixel-red)] pixel-text-sm">
+                {actions.errors.filter(e => e.startsWith("Trade") || e.includes("trade")).map((e, i) => (
+                  <p key={i}>⚠ {parseErrorString(e, content)}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Loan (only with credit) */}
+        {actions.loan && (
+          <div className="pixel-frame p-3">
+            <h3 className="pixel-text-sm text-[var(--pixel-gold)] mb-2">🏦 LOAN</h3>
+            <div className="flex justify-between pixel-text-sm">
+              <span>Borrowed / repaid</span>
+              <span>
+                {actions.loan.borrowed}g / {actions.loan.repaid}g
+              </span>
+            </div>
+            <div className="flex justify-between pixel-text-sm">
+              <span>Interest added</span>
+              <span className="text-[var(--pixel-red)]">{actions.loan.interest}g</span>
+            </div>
+            {actions.errors.filter(e => e.includes("repay") || e.includes("Repaid") || e.startsWith("Credit")).length > 0 && (
+              <div className="mt-2 text-[var(--pixel-red)] pixel-text-sm">
+                {actions.errors.filter(e => e.includes("repay") || e.includes("Repaid") || e.startsWith("Credit")).map((e, i) => (
+                  <p key={i}>⚠ {e}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Standing orders (only with standing orders) */}
+        {orderFills && (
+          <div className="pixel-frame p-3">
+            <h3 className="pixel-text-sm text-[var(--pixel-gold)] mb-2">📌 STANDING ORDERS</h3>
+            {orderFills.length > 0 ? (
+              <div className="space-y-1">
+                {orderFills.map((fill, i) => (
+                  <div key={i} className="flex justify-between pixel-text-sm">
+                    <span>
+                      {fill.orderId}:{" "}
+                      {content.herbNames[fill.itemId] ?? content.potionNames[fill.itemId]}
+                    </span>
+                    <span>
+                      {fill.qty}× @{fill.price}g
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="pixel-text-sm text-[var(--pixel-text-dim)]">No fills</p>
+            )}
+            {countItems({ herbs: {}, potions: actions.orderReturns ?? {} }) > 0 && (
+              <p className="pixel-text-sm text-[var(--pixel-text-dim)] mt-2">
+                Returned to inventory:{" "}
+                {formatItemQuantities({ herbs: {}, potions: actions.orderReturns! })}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Herbs Bought */}
         <div className="pixel-frame p-3">
           <h3 className="pixel-text-sm text-[var(--pixel-green-bright)] mb-2">🌿 HERBS BOUGHT</h3>
@@ -1095,7 +1353,7 @@ function PlayerDayView({
               {actions.actualBuyHerbs.map((buy, idx) => (
                 <div key={idx} className="flex justify-between pixel-text-sm">
                   <span>
-                    {buy.qty}x {HERB_NAMES[buy.herbId]}
+                    {buy.qty}x {content.herbNames[buy.herbId]}
                   </span>
                   <span className="text-[var(--pixel-red)]">-{buy.cost}g</span>
                 </div>
@@ -1104,10 +1362,22 @@ function PlayerDayView({
           ) : (
             <p className="pixel-text-sm text-[var(--pixel-text-dim)]">No herbs purchased</p>
           )}
-          {actions.errors.filter(e => e.includes("gold") || e.includes("buy")).length > 0 && (
+          {actions.herbSales && actions.herbSales.length > 0 && (
+            <div className="space-y-1 mt-2">
+              {actions.herbSales.map((sale, idx) => (
+                <div key={idx} className="flex justify-between pixel-text-sm">
+                  <span>
+                    Sold back {sale.qty}x {content.herbNames[sale.herbId]}
+                  </span>
+                  <span className="text-[var(--pixel-green-bright)]">+{sale.revenue}g</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {actions.errors.filter(e => !e.startsWith("Trade") && !e.includes("repay") && !e.includes("listing fee") && (e.includes("gold") || e.includes("buy") || e.includes("supply"))).length > 0 && (
             <div className="mt-2 text-[var(--pixel-red)] pixel-text-sm">
-              {actions.errors.filter(e => e.includes("gold") || e.includes("buy")).map((e, i) => (
-                <p key={i}>⚠ {parseErrorString(e)}</p>
+              {actions.errors.filter(e => !e.startsWith("Trade") && !e.includes("repay") && !e.includes("listing fee") && (e.includes("gold") || e.includes("buy") || e.includes("supply"))).map((e, i) => (
+                <p key={i}>⚠ {parseErrorString(e, content)}</p>
               ))}
             </div>
           )}
@@ -1121,10 +1391,15 @@ function PlayerDayView({
               {actions.actualMakePotions.map((make, idx) => (
                 <div key={idx} className="flex justify-between pixel-text-sm">
                   <span>
-                    {make.qty}x {POTION_NAMES[make.potionId]}
+                    {make.qty}x {content.potionNames[make.potionId]}
+                    {make.failed ? (
+                      <span className="text-[var(--pixel-red)]">
+                        {" "}({make.failed}/{make.crafts} crafts failed)
+                      </span>
+                    ) : null}
                   </span>
                   <span className="text-[var(--pixel-text-dim)]">
-                    ({RECIPES[make.potionId].map(h => HERB_NAMES[h]).join(" + ")})
+                    ({formatRecipe(content.recipes[make.potionId], content.herbNames)})
                   </span>
                 </div>
               ))}
@@ -1132,10 +1407,10 @@ function PlayerDayView({
           ) : (
             <p className="pixel-text-sm text-[var(--pixel-text-dim)]">No potions crafted</p>
           )}
-          {actions.errors.filter(e => e.includes("herbs to make")).length > 0 && (
+          {actions.errors.filter(e => e.startsWith("Not enough herbs")).length > 0 && (
             <div className="mt-2 text-[var(--pixel-red)] pixel-text-sm">
-              {actions.errors.filter(e => e.includes("herbs to make")).map((e, i) => (
-                <p key={i}>⚠ {parseErrorString(e)}</p>
+              {actions.errors.filter(e => e.startsWith("Not enough herbs")).map((e, i) => (
+                <p key={i}>⚠ {parseErrorString(e, content)}</p>
               ))}
             </div>
           )}
@@ -1149,7 +1424,7 @@ function PlayerDayView({
               {actions.salesResults.map((sale, idx) => (
                 <div key={idx} className="flex justify-between pixel-text-sm items-center">
                   <span>
-                    {POTION_NAMES[sale.potionId]}
+                    {content.potionNames[sale.potionId]}
                   </span>
                   <span className="flex items-center gap-2">
                     <span className={sale.sold === sale.offered ? "text-[var(--pixel-green-bright)]" : sale.sold > 0 ? "text-[var(--pixel-orange)]" : "text-[var(--pixel-red)]"}>
@@ -1166,14 +1441,61 @@ function PlayerDayView({
           ) : (
             <p className="pixel-text-sm text-[var(--pixel-text-dim)]">No market offers</p>
           )}
-          {actions.errors.filter(e => e.includes("potions to sell")).length > 0 && (
+          {formatFees(actions.salesResults, actions.stallRent) && (
+            <p className="pixel-text-sm text-[var(--pixel-red)] mt-2">
+              Fees: {formatFees(actions.salesResults, actions.stallRent)}
+            </p>
+          )}
+          {actions.errors.filter(e => e.includes("potions to sell") || e.includes("listing fee")).length > 0 && (
             <div className="mt-2 text-[var(--pixel-red)] pixel-text-sm">
-              {actions.errors.filter(e => e.includes("potions to sell")).map((e, i) => (
-                <p key={i}>⚠ {parseErrorString(e)}</p>
+              {actions.errors.filter(e => e.includes("potions to sell") || e.includes("listing fee")).map((e, i) => (
+                <p key={i}>⚠ {parseErrorString(e, content)}</p>
               ))}
             </div>
           )}
         </div>
+
+        {/* Overnight spoilage & storage */}
+        {(countItems(actions.spoiled) > 0 || (actions.storageFee ?? 0) > 0) && (
+          <div className="pixel-frame p-3">
+            <h3 className="pixel-text-sm text-[var(--pixel-orange)] mb-2">🕸️ OVERNIGHT</h3>
+            <div className="space-y-1">
+              {Object.entries(actions.spoiled?.herbs ?? {}).map(([herbId, qty]) => (
+                <div key={herbId} className="flex justify-between pixel-text-sm">
+                  <span>{qty}x {content.herbNames[herbId]}</span>
+                  <span className="text-[var(--pixel-red)]">spoiled</span>
+                </div>
+              ))}
+              {Object.entries(actions.spoiled?.potions ?? {}).map(([potionId, qty]) => (
+                <div key={potionId} className="flex justify-between pixel-text-sm">
+                  <span>{qty}x {content.potionNames[potionId]}</span>
+                  <span className="text-[var(--pixel-red)]">spoiled</span>
+                </div>
+              ))}
+              {(actions.storageFee ?? 0) > 0 && (
+                <div className="flex justify-between pixel-text-sm">
+                  <span>Storage fees</span>
+                  <span className="text-[var(--pixel-red)]">-{actions.storageFee}g</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Notebook after today's notes (only with the notebook) */}
+        {actions.notes !== undefined && (
+          <div className="pixel-frame p-3 md:col-span-2">
+            <h3 className="pixel-text-sm text-[var(--pixel-gold)] mb-2">
+              📓 NOTEBOOK{actions.requestedNotes === undefined && " (unchanged)"}
+            </h3>
+            <p className="pixel-text-sm whitespace-pre-wrap">
+              {actions.notes || "Empty"}
+            </p>
+            {actions.errors.filter(e => e.startsWith("Notes")).map((e, i) => (
+              <p key={i} className="mt-2 text-[var(--pixel-red)] pixel-text-sm">⚠ {e}</p>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1184,13 +1506,16 @@ function MarketSummary({
   marketSummary,
   potionDemands,
   players,
+  content,
 }: {
   marketSummary: {
-    processedOffers: { playerIdx?: number; potionId: PotionId; actuallySold?: number; price: number; qty: number }[];
+    mechanism?: MarketMechanism;
+    processedOffers: { playerIdx?: number; potionId: PotionId; actuallySold?: number; price: number; salePrice?: number; qty: number }[];
     potionInformation: Record<PotionId, { fulfilled: number; remaining: number; highestPrice: number; lowestPrice: number }>;
   };
   potionDemands: Record<PotionId, number>;
   players: Player[];
+  content: Content;
 }) {
   // Show all potions that had any market activity (demand, sales, or remaining unfilled)
   const activePotions = Object.entries(marketSummary.potionInformation).filter(
@@ -1203,6 +1528,11 @@ function MarketSummary({
   return (
     <div className="pixel-frame p-4">
       <h2 className="pixel-heading text-center mb-4">🏪 MARKET RESULTS</h2>
+      {marketSummary.mechanism && (
+        <p className="pixel-text-sm text-center text-[var(--pixel-text-dim)] mb-4">
+          {MARKET_MECHANISMS[marketSummary.mechanism].name}
+        </p>
+      )}
       
       <div className="overflow-x-auto">
         <table className="pixel-table w-full">
@@ -1220,7 +1550,7 @@ function MarketSummary({
               const demand = potionDemands[potionId as PotionId] || 0;
               return (
                 <tr key={potionId}>
-                  <td className="pixel-text-sm">{POTION_NAMES[potionId as PotionId]}</td>
+                  <td className="pixel-text-sm">{content.potionNames[potionId]}</td>
                   <td>{demand}</td>
                   <td className="text-[var(--pixel-green-bright)]">{info.fulfilled}</td>
                   <td className={info.remaining > 0 ? "text-[var(--pixel-red)]" : "text-[var(--pixel-text-dim)]"}>
@@ -1248,7 +1578,7 @@ function MarketSummary({
         <div className="grid grid-cols-2 lg:grid-cols-3 gap-2">
           {players.map((player, idx) => {
             const playerSales = marketSummary.processedOffers.filter(o => o.playerIdx === idx);
-            const totalRevenue = playerSales.reduce((sum, o) => sum + (o.actuallySold || 0) * o.price, 0);
+            const totalRevenue = playerSales.reduce((sum, o) => sum + (o.actuallySold || 0) * (o.salePrice ?? o.price), 0);
             const totalSold = playerSales.reduce((sum, o) => sum + (o.actuallySold || 0), 0);
             
             return (
@@ -1271,10 +1601,12 @@ function InventoryPanel({
   title,
   inventory,
   profitLoss,
+  content,
 }: {
   title: string;
-  inventory: { gold: number; herbs: Record<HerbId, number>; potions: Record<PotionId, number> };
+  inventory: { gold: number; debt?: number; herbs: Record<HerbId, number>; potions: Record<PotionId, number> };
   profitLoss?: number;
+  content: Content;
 }) {
   const herbsWithQty = Object.entries(inventory.herbs).filter(([, qty]) => qty > 0);
   const potionsWithQty = Object.entries(inventory.potions).filter(([, qty]) => qty > 0);
@@ -1290,6 +1622,14 @@ function InventoryPanel({
         <span>💰 Gold</span>
         <span className="gold-display">{inventory.gold}</span>
       </div>
+
+      {/* Debt (only with credit) */}
+      {!!inventory.debt && (
+        <div className="flex justify-between pixel-text-sm mb-2">
+          <span>🏦 Debt</span>
+          <span className="text-[var(--pixel-red)]">-{inventory.debt}</span>
+        </div>
+      )}
       
       {/* Profit/Loss if provided */}
       {profitLoss !== undefined && (
@@ -1311,8 +1651,8 @@ function InventoryPanel({
           <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
             {herbsWithQty.map(([herbId, qty]) => (
               <div key={herbId} className="flex justify-between pixel-text-sm text-[var(--pixel-text-dim)]">
-                <span className={`tier-${getTierForHerb(herbId as HerbId).charAt(1)} truncate`}>
-                  {HERB_NAMES[herbId as HerbId]}
+                <span className={`tier-${content.herbTierLookup[herbId].charAt(1)} truncate`}>
+                  {content.herbNames[herbId]}
                 </span>
                 <span>×{qty}</span>
               </div>
@@ -1333,8 +1673,8 @@ function InventoryPanel({
           <div className="space-y-0.5">
             {potionsWithQty.map(([potionId, qty]) => (
               <div key={potionId} className="flex justify-between pixel-text-sm text-[var(--pixel-text-dim)]">
-                <span className={`tier-${getTierForPotion(potionId as PotionId).charAt(1)} truncate`}>
-                  {POTION_NAMES[potionId as PotionId]}
+                <span className={`tier-${content.potionTierLookup[potionId].charAt(1)} truncate`}>
+                  {content.potionNames[potionId]}
                 </span>
                 <span>×{qty}</span>
               </div>
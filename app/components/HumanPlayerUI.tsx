@@ -1,16 +1,28 @@
 "use client";
 
+import { formatRecipe, getContent } from "@/lib/content-packs";
+import { describeDemandCurve } from "@/lib/demand-curves";
+import { describeDynamicDemand } from "@/lib/dynamic-demand";
+import { describeFees } from "@/lib/fees";
 import { parseErrorString } from "@/lib/format-utils";
+import { describeMarketEvent } from "@/lib/market-events";
+import { MARKET_MECHANISMS } from "@/lib/market-mechanisms";
+import {
+  countItems,
+  describeSpoilage,
+  formatItemQuantities,
+} from "@/lib/spoilage";
+import { describeFinalScoring, getSellBackPrices } from "@/lib/scoring";
+import { describeStandingOrders } from "@/lib/standing-orders";
+import { describePlayerTrading, formatTrades } from "@/lib/trading";
 import {
-  HERB_NAMES,
   HerbId,
   PlayerInputs,
   PlayerOutputs,
-  POTION_NAMES,
-  POTION_TIER_LOOKUP,
   PotionId,
-  RECIPES,
+  StandingOrderRequest,
   Tier,
+  TradeOrder,
 } from "@/lib/types";
 import { useMemo, useState } from "react";
 import GameRulesModal from "./GameRulesModal";
@@ -31,6 +43,16 @@ type OfferEntry = {
   qty: number;
   price: number;
 };
+type TradeEntry = TradeOrder & { id: string };
+// A new standing order; price is the max price for herb buys
+type OrderEntry = {
+  id: string;
+  type: StandingOrderRequest["type"];
+  itemId: string;
+  price: number;
+  qty: number;
+  days: number;
+};
 
 // CSS to hide number input spinners
 const inputStyle = `
@@ -45,7 +67,7 @@ const inputStyle = `
   }
 `;
 
-type RightPanelTab = "offers" | "history" | "inventory";
+type RightPanelTab = "offers" | "trades" | "orders" | "history" | "inventory";
 
 export default function HumanPlayerUI({
   playerInputs,
@@ -62,6 +84,18 @@ export default function HumanPlayerUI({
   );
   // Multiple offers support - list of offers with unique IDs
   const [offers, setOffers] = useState<OfferEntry[]>([]);
+  // Private trade orders to other players (only with player trading)
+  const [trades, setTrades] = useState<TradeEntry[]>([]);
+  // Gold to borrow this morning / repay this evening (only with credit)
+  const [borrow, setBorrow] = useState(0);
+  const [repay, setRepay] = useState(0);
+  // New standing orders and ids of open ones to cancel (only with standing orders)
+  const [standingOrders, setStandingOrders] = useState<OrderEntry[]>([]);
+  const [cancelOrders, setCancelOrders] = useState<string[]>([]);
+  // Herbs to sell back after crafting (only with sell-back)
+  const [herbSales, setHerbSales] = useState<Record<HerbId, number>>(
+    {} as Record<HerbId, number>
+  );
   // Pixel-style potion picker
   const [showPotionPicker, setShowPotionPicker] = useState(false);
   // Tab for right panel
@@ -70,12 +104,21 @@ export default function HumanPlayerUI({
   const [showRules, setShowRules] = useState(false);
 
   const { inventory, meta } = playerInputs;
+  const content = getContent(playerInputs.rules?.contentPack);
+  const sellBackDiscount = playerInputs.rules.herbSellBack?.discount;
+  const sellBackPrices = useMemo(
+    () =>
+      sellBackDiscount === undefined
+        ? undefined
+        : getSellBackPrices(herbPrices, sellBackDiscount),
+    [herbPrices, sellBackDiscount]
+  );
 
   // Calculate projected inventory after buys and crafts
   const projectedInventory = useMemo(() => {
     const herbs = { ...inventory.herbs };
     const potions = { ...inventory.potions };
-    let gold = inventory.gold;
+    let gold = inventory.gold + borrow;
 
     // Apply herb buys
     Object.entries(herbBuys).forEach(([herbId, qty]) => {
@@ -86,20 +129,28 @@ export default function HumanPlayerUI({
       }
     });
 
-    // Apply potion crafts (consume herbs, create potions)
+    // Apply potion crafts (consume herbs, create potions; assumes no failures)
     Object.entries(potionCrafts).forEach(([potionId, qty]) => {
       if (qty > 0) {
-        const recipe = RECIPES[potionId as PotionId];
-        recipe.forEach((herbId) => {
-          herbs[herbId] = (herbs[herbId] || 0) - qty;
+        const recipe = content.recipes[potionId];
+        recipe.ingredients.forEach(({ herbId, qty: needed }) => {
+          herbs[herbId] = (herbs[herbId] || 0) - qty * needed;
         });
         potions[potionId as PotionId] =
-          (potions[potionId as PotionId] || 0) + qty;
+          (potions[potionId as PotionId] || 0) + qty * recipe.yield;
+      }
+    });
+
+    // Apply herb sales (after crafting)
+    Object.entries(herbSales).forEach(([herbId, qty]) => {
+      if (qty > 0 && sellBackPrices) {
+        herbs[herbId as HerbId] = (herbs[herbId as HerbId] || 0) - qty;
+        gold += sellBackPrices[herbId as HerbId] * qty;
       }
     });
 
     return { herbs, potions, gold };
-  }, [inventory, herbBuys, potionCrafts, herbPrices]);
+  }, [inventory, herbBuys, potionCrafts, herbPrices, content, borrow, herbSales, sellBackPrices]);
 
   // Calculate total cost of herb buys
   const totalHerbCost = useMemo(() => {
@@ -110,21 +161,21 @@ export default function HumanPlayerUI({
 
   // Check if a potion can be crafted with projected herbs
   const canCraft = (potionId: PotionId): boolean => {
-    const recipe = RECIPES[potionId];
+    const recipe = content.recipes[potionId];
     const currentCraftQty = potionCrafts[potionId] || 0;
 
-    return recipe.every((herbId) => {
+    return recipe.ingredients.every(({ herbId, qty }) => {
       const availableAfterCurrent =
         (inventory.herbs[herbId] || 0) +
         (herbBuys[herbId] || 0) -
-        currentCraftQty;
-      return availableAfterCurrent >= 1;
+        currentCraftQty * qty;
+      return availableAfterCurrent >= qty;
     });
   };
 
   // Check max craftable for a potion (total available, including what's already queued)
   const maxCraftable = (potionId: PotionId): number => {
-    const recipe = RECIPES[potionId];
+    const recipe = content.recipes[potionId];
     const herbsAfterBuys: Record<HerbId, number> = { ...inventory.herbs };
     Object.entries(herbBuys).forEach(([herbId, qty]) => {
       herbsAfterBuys[herbId as HerbId] =
@@ -134,18 +185,20 @@ export default function HumanPlayerUI({
     // Subtract herbs used by ALL crafts (including this potion)
     Object.entries(potionCrafts).forEach(([pid, qty]) => {
       if (qty > 0) {
-        RECIPES[pid as PotionId].forEach((herbId) => {
-          herbsAfterBuys[herbId] = (herbsAfterBuys[herbId] || 0) - qty;
+        content.recipes[pid].ingredients.forEach(({ herbId, qty: needed }) => {
+          herbsAfterBuys[herbId] = (herbsAfterBuys[herbId] || 0) - qty * needed;
         });
       }
     });
 
     // Max is current crafted + remaining available herbs
     const currentCrafted = potionCrafts[potionId] || 0;
-    const remainingHerbs = Math.min(
-      ...recipe.map((herbId) => Math.max(0, herbsAfterBuys[herbId] || 0))
+    const remainingCrafts = Math.min(
+      ...recipe.ingredients.map(({ herbId, qty }) =>
+        Math.floor(Math.max(0, herbsAfterBuys[herbId] || 0) / qty)
+      )
     );
-    return currentCrafted + remainingHerbs;
+    return currentCrafted + remainingCrafts;
   };
 
   // Handle herb buy change
@@ -165,7 +218,8 @@ export default function HumanPlayerUI({
   // Get available potions for offers (current inventory + crafted - already offered)
   const getAvailableForOffer = (potionId: PotionId): number => {
     const total =
-      (inventory.potions[potionId] || 0) + (potionCrafts[potionId] || 0);
+      (inventory.potions[potionId] || 0) +
+      (potionCrafts[potionId] || 0) * content.recipes[potionId].yield;
     const alreadyOffered = offers
       .filter((o) => o.potionId === potionId)
       .reduce((sum, o) => sum + o.qty, 0);
@@ -229,6 +283,67 @@ export default function HumanPlayerUI({
     setOffers((prev) => prev.filter((o) => o.id !== id));
   };
 
+  // Add a trade order, e.g. the counter-order to an offer made to us
+  const addTrade = (order?: TradeOrder) => {
+    const partner = playerInputs.tradePartners?.[0];
+    if (!partner) return;
+    setTrades((prev) => [
+      ...prev,
+      {
+        id: `trade-${Date.now()}`,
+        ...(order ?? {
+          side: "sell",
+          playerIdx: partner.playerIdx,
+          itemId: content.herbIds[0],
+          qty: 1,
+          price: 10,
+        }),
+      },
+    ]);
+  };
+
+  const updateTrade = (id: string, updates: Partial<TradeOrder>) => {
+    setTrades((prev) =>
+      prev.map((t) => (t.id === id ? { ...t, ...updates } : t))
+    );
+  };
+
+  const removeTrade = (id: string) => {
+    setTrades((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  const addStandingOrder = () => {
+    setStandingOrders((prev) => [
+      ...prev,
+      {
+        id: `order-${Date.now()}`,
+        type: "buy-herb",
+        itemId: content.herbIds[0],
+        price: 10,
+        qty: 1,
+        days: 3,
+      },
+    ]);
+  };
+
+  const updateStandingOrder = (id: string, updates: Partial<OrderEntry>) => {
+    setStandingOrders((prev) =>
+      prev.map((o) => (o.id === id ? { ...o, ...updates } : o))
+    );
+  };
+
+  const removeStandingOrder = (id: string) => {
+    setStandingOrders((prev) => prev.filter((o) => o.id !== id));
+  };
+
+  const toggleCancelOrder = (orderId: string) => {
+    setCancelOrders((prev) =>
+      prev.includes(orderId)
+        ? prev.filter((id) => id !== orderId)
+        : [...prev, orderId]
+    );
+  };
+
   // Submit the turn
   const handleSubmit = () => {
     const buyHerbs: HerbBuy[] = Object.entries(herbBuys)
@@ -243,25 +358,43 @@ export default function HumanPlayerUI({
       .filter((o) => o.qty > 0)
       .map(({ potionId, qty, price }) => ({ potionId, qty, price }));
 
+    const tradeOrders = trades
+      .filter((t) => t.qty > 0)
+      .map(({ side, playerIdx, itemId, qty, price }) => ({
+        side,
+        playerIdx,
+        itemId,
+        qty,
+        price,
+      }));
+
+    const sellHerbs: HerbBuy[] = Object.entries(herbSales)
+      .filter(([, qty]) => qty > 0)
+      .map(([herbId, qty]) => ({ herbId: herbId as HerbId, qty }));
+
+    const orderRequests = standingOrders
+      .filter((o) => o.qty > 0 && o.days > 0)
+      .map(({ type, itemId, price, qty, days }): StandingOrderRequest =>
+        type === "buy-herb"
+          ? { type, herbId: itemId as HerbId, maxPrice: price, qty, days }
+          : { type, potionId: itemId as PotionId, price, qty, days }
+      );
+
     onSubmit({
       buyHerbs,
       makePotions,
       potionOffers,
+      ...(tradeOrders.length > 0 && { trades: tradeOrders }),
+      ...((borrow > 0 || repay > 0) && { loan: { borrow, repay } }),
+      ...(orderRequests.length > 0 && { standingOrders: orderRequests }),
+      ...(cancelOrders.length > 0 && { cancelOrders }),
+      ...(sellHerbs.length > 0 && { sellHerbs }),
     });
   };
 
   // Group herbs and potions by tier
-  const herbsByTier: Record<Tier, HerbId[]> = {
-    T1: ["H01", "H02", "H03", "H04"],
-    T2: ["H05", "H06", "H07", "H08"],
-    T3: ["H09", "H10", "H11", "H12"],
-  };
-
-  const potionsByTier: Record<Tier, PotionId[]> = {
-    T1: ["P01", "P04", "P07", "P10", "P13", "P16"],
-    T2: ["P02", "P05", "P08", "P11", "P14", "P17"],
-    T3: ["P03", "P06", "P09", "P12", "P15", "P18"],
-  };
+  const herbsByTier = content.herbTiers;
+  const potionsByTier = content.potionTiers;
 
   const getTierColor = (tier: Tier) => {
     switch (tier) {
@@ -275,9 +408,7 @@ export default function HumanPlayerUI({
   };
 
   // Get potions that can be offered
-  const availablePotionsForNewOffer = (
-    Object.keys(RECIPES) as PotionId[]
-  ).filter((potionId) => getAvailableForOffer(potionId) > 0);
+  const availablePotionsForNewOffer = content.potionIds.filter((potionId) => getAvailableForOffer(potionId) > 0);
 
   return (
     <div className="min-h-screen p-4">
@@ -321,11 +452,76 @@ export default function HumanPlayerUI({
                 </span>
               )}
             </div>
+            {playerInputs.rules?.credit && (
+              <div className="mt-3 space-y-2">
+                <p className="pixel-text-sm text-center">
+                  🏦 Debt:{" "}
+                  <span className="text-[var(--pixel-red)]">
+                    {inventory.debt ?? 0}g
+                  </span>{" "}
+                  / {playerInputs.rules.credit.limit}g limit
+                </p>
+                <div className="flex items-center justify-center gap-2">
+                  <span className="pixel-text-sm">Borrow:</span>
+                  <input
+                    type="number"
+                    value={borrow}
+                    onChange={(e) =>
+                      setBorrow(
+                        Math.min(
+                          Math.max(0, parseInt(e.target.value) || 0),
+                          playerInputs.rules.credit!.limit - (inventory.debt ?? 0)
+                        )
+                      )
+                    }
+                    className="pixel-input w-20 h-10 text-center no-spinner"
+                    min={0}
+                  />
+                  <span className="pixel-text-sm">Repay:</span>
+                  <input
+                    type="number"
+                    value={repay}
+                    onChange={(e) =>
+                      setRepay(Math.max(0, parseInt(e.target.value) || 0))
+                    }
+                    className="pixel-input w-20 h-10 text-center no-spinner"
+                    min={0}
+                    title="Repaid this evening, after your potions have sold"
+                  />
+                </div>
+              </div>
+            )}
             {projectedInventory.gold < 0 && (
               <p className="pixel-text-sm text-[var(--pixel-red)] text-center mt-2">
                 ⚠ Not enough gold!
               </p>
             )}
+            {playerInputs.expiringTonight &&
+              countItems(playerInputs.expiringTonight) > 0 && (
+                <p className="pixel-text-sm text-[var(--pixel-orange)] text-center mt-2">
+                  🕸️ Spoils tonight unless used or sold:{" "}
+                  {parseErrorString(
+                    formatItemQuantities(playerInputs.expiringTonight),
+                    content
+                  )}
+                </p>
+              )}
+            {playerInputs.activeEvents?.map((event) => (
+              <p
+                key={`${event.kind}-${event.startDay}`}
+                className="pixel-text-sm text-[var(--pixel-gold)] text-center mt-2"
+              >
+                📜 {describeMarketEvent(event)}
+              </p>
+            ))}
+            {playerInputs.upcomingEvents?.map((event) => (
+              <p
+                key={`${event.kind}-${event.startDay}`}
+                className="pixel-text-sm text-[var(--pixel-text-dim)] text-center mt-2"
+              >
+                🔮 Tomorrow: {describeMarketEvent(event)}
+              </p>
+            ))}
           </div>
 
           {/* Herb Shop */}
@@ -345,6 +541,7 @@ export default function HumanPlayerUI({
                     const price = herbPrices[herbId];
                     const owned = inventory.herbs[herbId] || 0;
                     const buying = herbBuys[herbId] || 0;
+                    const supply = playerInputs.dailySupplies?.[herbId];
 
                     return (
                       <div key={herbId} className="pixel-frame p-2">
@@ -353,10 +550,11 @@ export default function HumanPlayerUI({
                             className="pixel-text-sm font-bold"
                             title={herbId}
                           >
-                            {HERB_NAMES[herbId]}
+                            {content.herbNames[herbId]}
                           </span>
                           <span className="pixel-text-sm text-[var(--pixel-text-dim)]">
                             owned: {owned}
+                            {supply !== undefined && ` · stock: ${supply}`}
                           </span>
                         </div>
                         <div className="flex items-center justify-between">
@@ -404,6 +602,26 @@ export default function HumanPlayerUI({
                             </button>
                           </div>
                         </div>
+                        {sellBackPrices && (
+                          <div className="flex items-center justify-end gap-2 mt-2">
+                            <span className="pixel-text-sm text-[var(--pixel-text-dim)]">
+                              Sell back @{sellBackPrices[herbId]}g:
+                            </span>
+                            <input
+                              type="number"
+                              value={herbSales[herbId] || 0}
+                              onChange={(e) =>
+                                setHerbSales((prev) => ({
+                                  ...prev,
+                                  [herbId]: Math.max(0, parseInt(e.target.value) || 0),
+                                }))
+                              }
+                              className="pixel-input w-16 h-10 text-center no-spinner"
+                              min={0}
+                              title="Sold after crafting"
+                            />
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -420,7 +638,7 @@ export default function HumanPlayerUI({
               📜 RECIPES & CRAFTING
             </h2>
             <p className="pixel-text-sm text-[var(--pixel-text-dim)] text-center mb-3">
-              Each potion requires 1 of each listed herb
+              Each craft uses the listed herbs (1 each unless shown)
             </p>
 
             {(["T1", "T2", "T3"] as Tier[]).map((tier) => (
@@ -430,7 +648,7 @@ export default function HumanPlayerUI({
                 </h3>
                 <div className="space-y-2">
                   {potionsByTier[tier].map((potionId) => {
-                    const recipe = RECIPES[potionId];
+                    const recipe = content.recipes[potionId];
                     const crafting = potionCrafts[potionId] || 0;
                     const max = maxCraftable(potionId);
                     const canMake = canCraft(potionId);
@@ -447,7 +665,7 @@ export default function HumanPlayerUI({
                             className="pixel-text-sm font-bold"
                             title={potionId}
                           >
-                            {POTION_NAMES[potionId]}
+                            {content.potionNames[potionId]}
                           </span>
                           <span className="pixel-text-sm text-[var(--pixel-text-dim)]">
                             max: {max}
@@ -455,7 +673,7 @@ export default function HumanPlayerUI({
                         </div>
                         <div className="flex items-center justify-between">
                           <span className="pixel-text-sm text-[var(--pixel-text-dim)]">
-                            {recipe.map((h) => HERB_NAMES[h]).join(" + ")}
+                            {formatRecipe(recipe, content.herbNames)}
                           </span>
                           <div className="flex items-center gap-2">
                             <button
@@ -510,6 +728,26 @@ export default function HumanPlayerUI({
             >
               🏪 OFFERS
             </button>
+            {playerInputs.tradePartners && (
+              <button
+                onClick={() => setRightTab("trades")}
+                className={`pixel-btn flex-1 text-xs ${
+                  rightTab === "trades" ? "pixel-btn-primary" : ""
+                }`}
+              >
+                🤝 TRADES
+              </button>
+            )}
+            {playerInputs.openOrders && (
+              <button
+                onClick={() => setRightTab("orders")}
+                className={`pixel-btn flex-1 text-xs ${
+                  rightTab === "orders" ? "pixel-btn-primary" : ""
+                }`}
+              >
+                📌 ORDERS
+              </button>
+            )}
             <button
               onClick={() => setRightTab("history")}
               className={`pixel-btn flex-1 text-xs ${
@@ -535,6 +773,21 @@ export default function HumanPlayerUI({
               <p className="pixel-text-sm text-[var(--pixel-text-dim)] text-center mb-3">
                 💡 Price cap: 5× base herb cost. Higher prices sell at the cap.
               </p>
+              {playerInputs.rules && (
+                <p className="pixel-text-sm text-[var(--pixel-text-dim)] text-center mb-3">
+                  🏪 {MARKET_MECHANISMS[playerInputs.rules.marketMechanism].name}:{" "}
+                  {MARKET_MECHANISMS[playerInputs.rules.marketMechanism].description}{" "}
+                  {describeDemandCurve(playerInputs.rules.demandCurve)}
+                  {playerInputs.rules.dynamicDemand &&
+                    ` ${describeDynamicDemand(playerInputs.rules.dynamicDemand)}`}
+                  {playerInputs.rules.spoilage &&
+                    ` ${describeSpoilage(playerInputs.rules.spoilage)}`}
+                  {playerInputs.rules.finalScoring &&
+                    ` ${describeFinalScoring(playerInputs.rules.finalScoring)}`}
+                  {playerInputs.rules.fees &&
+                    ` ${describeFees(playerInputs.rules.fees)}`}
+                </p>
+              )}
 
               {/* Pixel-style Add Offer Button */}
               {availablePotionsForNewOffer.length > 0 && (
@@ -569,7 +822,7 @@ export default function HumanPlayerUI({
                                 onClick={() => addOffer(potionId)}
                                 className="w-full px-3 py-2 text-left pixel-text-sm hover:bg-[var(--pixel-border)] flex justify-between"
                               >
-                                <span>{POTION_NAMES[potionId]}</span>
+                                <span>{content.potionNames[potionId]}</span>
                                 <span className="text-[var(--pixel-text-dim)]">
                                   ({getAvailableForOffer(potionId)})
                                 </span>
@@ -592,7 +845,7 @@ export default function HumanPlayerUI({
               {/* List of offers - much taller now */}
               <div className="space-y-3">
                 {offers.map((offer) => {
-                  const tier = POTION_TIER_LOOKUP[offer.potionId];
+                  const tier = content.potionTierLookup[offer.potionId];
                   const maxQty =
                     getAvailableForOffer(offer.potionId) + offer.qty;
 
@@ -604,7 +857,7 @@ export default function HumanPlayerUI({
                             tier
                           )}`}
                         >
-                          {POTION_NAMES[offer.potionId]}
+                          {content.potionNames[offer.potionId]}
                         </span>
                         <div className="flex gap-1">
                           <button
@@ -672,6 +925,302 @@ export default function HumanPlayerUI({
             </div>
           )}
 
+          {/* TRADES TAB */}
+          {rightTab === "trades" && playerInputs.tradePartners && (
+            <div className="pixel-frame p-4">
+              <h2 className="pixel-heading text-center mb-3">🤝 PRIVATE TRADES</h2>
+              <p className="pixel-text-sm text-[var(--pixel-text-dim)] text-center mb-3">
+                {describePlayerTrading()}
+              </p>
+
+              {(playerInputs.tradeOffersToYou ?? []).length > 0 && (
+                <div className="mb-4 space-y-2">
+                  <h3 className="pixel-text-sm text-[var(--pixel-gold)]">
+                    OFFERED TO YOU (OPEN TODAY)
+                  </h3>
+                  {playerInputs.tradeOffersToYou!.map((offer, idx) => {
+                    const partner = playerInputs.tradePartners!.find(
+                      (p) => p.playerIdx === offer.playerIdx
+                    );
+                    const itemName =
+                      content.herbNames[offer.itemId] ??
+                      content.potionNames[offer.itemId];
+                    return (
+                      <div
+                        key={idx}
+                        className="flex items-center justify-between pixel-text-sm"
+                      >
+                        <span>
+                          {partner?.name ?? `#${offer.playerIdx}`}{" "}
+                          {offer.side === "sell" ? "sells" : "buys"} {offer.qty}×{" "}
+                          {itemName} @{offer.price}g
+                        </span>
+                        <button
+                          onClick={() =>
+                            addTrade({
+                              ...offer,
+                              side: offer.side === "sell" ? "buy" : "sell",
+                            })
+                          }
+                          className="pixel-btn text-xs px-2 py-1"
+                        >
+                          ACCEPT
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <button
+                onClick={() => addTrade()}
+                className="pixel-btn pixel-btn-primary w-full py-3 mb-4"
+              >
+                + ADD TRADE ORDER
+              </button>
+
+              <div className="space-y-3">
+                {trades.map((trade) => (
+                  <div key={trade.id} className="pixel-frame p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={trade.side}
+                        onChange={(e) =>
+                          updateTrade(trade.id, {
+                            side: e.target.value as TradeOrder["side"],
+                          })
+                        }
+                        className="pixel-select text-xs"
+                      >
+                        <option value="sell">SELL</option>
+                        <option value="buy">BUY</option>
+                      </select>
+                      <select
+                        value={trade.itemId}
+                        onChange={(e) =>
+                          updateTrade(trade.id, { itemId: e.target.value })
+                        }
+                        className="pixel-select text-xs flex-1"
+                      >
+                        {content.herbIds.map((herbId) => (
+                          <option key={herbId} value={herbId}>
+                            🌿 {content.herbNames[herbId]}
+                          </option>
+                        ))}
+                        {content.potionIds.map((potionId) => (
+                          <option key={potionId} value={potionId}>
+                            ⚗️ {content.potionNames[potionId]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => removeTrade(trade.id)}
+                        className="pixel-btn text-xs px-2 py-1 hover:border-[var(--pixel-red)]"
+                        title="Remove"
+                      >
+                        ✗
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="pixel-text-sm">
+                        {trade.side === "sell" ? "to" : "from"}
+                      </span>
+                      <select
+                        value={trade.playerIdx}
+                        onChange={(e) =>
+                          updateTrade(trade.id, {
+                            playerIdx: parseInt(e.target.value),
+                          })
+                        }
+                        className="pixel-select text-xs flex-1"
+                      >
+                        {playerInputs.tradePartners!.map((partner) => (
+                          <option key={partner.playerIdx} value={partner.playerIdx}>
+                            {partner.name}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="pixel-text-sm">Qty:</span>
+                      <input
+                        type="number"
+                        value={trade.qty}
+                        onChange={(e) =>
+                          updateTrade(trade.id, {
+                            qty: Math.max(0, parseInt(e.target.value) || 0),
+                          })
+                        }
+                        className="pixel-input w-16 h-10 text-center no-spinner"
+                        min={0}
+                      />
+                      <span className="pixel-text-sm">💰</span>
+                      <input
+                        type="number"
+                        value={trade.price}
+                        onChange={(e) =>
+                          updateTrade(trade.id, {
+                            price: Math.max(0, parseInt(e.target.value) || 0),
+                          })
+                        }
+                        className="pixel-input w-20 h-10 text-center no-spinner"
+                        min={0}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {trades.length === 0 && (
+                  <p className="pixel-text-sm text-[var(--pixel-text-dim)] text-center py-4">
+                    Trades only happen when the other player posts the matching order.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* STANDING ORDERS TAB */}
+          {rightTab === "orders" && playerInputs.openOrders && (
+            <div className="pixel-frame p-4">
+              <h2 className="pixel-heading text-center mb-3">📌 STANDING ORDERS</h2>
+              <p className="pixel-text-sm text-[var(--pixel-text-dim)] text-center mb-3">
+                {describeStandingOrders()}
+              </p>
+
+              {playerInputs.openOrders.length > 0 && (
+                <div className="mb-4 space-y-2">
+                  <h3 className="pixel-text-sm text-[var(--pixel-gold)]">OPEN</h3>
+                  {playerInputs.openOrders.map((order) => {
+                    const cancelled = cancelOrders.includes(order.id);
+                    return (
+                      <div
+                        key={order.id}
+                        className={`flex items-center justify-between pixel-text-sm ${
+                          cancelled ? "line-through text-[var(--pixel-text-dim)]" : ""
+                        }`}
+                      >
+                        <span>
+                          {order.type === "buy-herb"
+                            ? `Buy ${content.herbNames[order.herbId]} ≤${order.maxPrice}g`
+                            : `Sell ${content.potionNames[order.potionId]} @${order.price}g`}{" "}
+                          · {order.remaining}/{order.qty} left · until day{" "}
+                          {order.expiresDay}
+                        </span>
+                        <button
+                          onClick={() => toggleCancelOrder(order.id)}
+                          className="pixel-btn text-xs px-2 py-1"
+                        >
+                          {cancelled ? "KEEP" : "CANCEL"}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <button
+                onClick={addStandingOrder}
+                className="pixel-btn pixel-btn-primary w-full py-3 mb-4"
+              >
+                + ADD STANDING ORDER
+              </button>
+
+              <div className="space-y-3">
+                {standingOrders.map((order) => (
+                  <div key={order.id} className="pixel-frame p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={order.type}
+                        onChange={(e) => {
+                          const type = e.target.value as OrderEntry["type"];
+                          updateStandingOrder(order.id, {
+                            type,
+                            itemId:
+                              type === "buy-herb"
+                                ? content.herbIds[0]
+                                : content.potionIds[0],
+                          });
+                        }}
+                        className="pixel-select text-xs"
+                      >
+                        <option value="buy-herb">BUY HERB</option>
+                        <option value="sell-potion">SELL POTION</option>
+                      </select>
+                      <select
+                        value={order.itemId}
+                        onChange={(e) =>
+                          updateStandingOrder(order.id, { itemId: e.target.value })
+                        }
+                        className="pixel-select text-xs flex-1"
+                      >
+                        {order.type === "buy-herb"
+                          ? content.herbIds.map((herbId) => (
+                              <option key={herbId} value={herbId}>
+                                🌿 {content.herbNames[herbId]}
+                              </option>
+                            ))
+                          : content.potionIds.map((potionId) => (
+                              <option key={potionId} value={potionId}>
+                                ⚗️ {content.potionNames[potionId]}
+                              </option>
+                            ))}
+                      </select>
+                      <button
+                        onClick={() => removeStandingOrder(order.id)}
+                        className="pixel-btn text-xs px-2 py-1 hover:border-[var(--pixel-red)]"
+                        title="Remove"
+                      >
+                        ✗
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="pixel-text-sm">Qty:</span>
+                      <input
+                        type="number"
+                        value={order.qty}
+                        onChange={(e) =>
+                          updateStandingOrder(order.id, {
+                            qty: Math.max(0, parseInt(e.target.value) || 0),
+                          })
+                        }
+                        className="pixel-input w-16 h-10 text-center no-spinner"
+                        min={0}
+                      />
+                      <span className="pixel-text-sm">
+                        {order.type === "buy-herb" ? "Max 💰" : "💰"}
+                      </span>
+                      <input
+                        type="number"
+                        value={order.price}
+                        onChange={(e) =>
+                          updateStandingOrder(order.id, {
+                            price: Math.max(1, parseInt(e.target.value) || 1),
+                          })
+                        }
+                        className="pixel-input w-20 h-10 text-center no-spinner"
+                        min={1}
+                      />
+                      <span className="pixel-text-sm">Days:</span>
+                      <input
+                        type="number"
+                        value={order.days}
+                        onChange={(e) =>
+                          updateStandingOrder(order.id, {
+                            days: Math.max(1, parseInt(e.target.value) || 1),
+                          })
+                        }
+                        className="pixel-input w-16 h-10 text-center no-spinner"
+                        min={1}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {standingOrders.length === 0 && (
+                  <p className="pixel-text-sm text-[var(--pixel-text-dim)] text-center py-4">
+                    Sell orders take their potions when placed, after crafting.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* HISTORY TAB */}
           {rightTab === "history" && (
             <div className="pixel-frame p-4 max-h-[calc(100vh-280px)] overflow-y-auto">
@@ -712,7 +1261,7 @@ export default function HumanPlayerUI({
                             className="flex justify-between pixel-text-sm"
                           >
                             <span className="text-[var(--pixel-text-dim)]">
-                              {HERB_NAMES[herbId]}
+                              {content.herbNames[herbId]}
                             </span>
                             <span className="gold-display">{priceStr}g</span>
                           </div>
@@ -754,7 +1303,7 @@ export default function HumanPlayerUI({
                             <div className="pixel-text-sm text-[var(--pixel-text-dim)]">
                               🌿 Bought:{" "}
                               {day.herbsBought
-                                .map((h) => `${HERB_NAMES[h.herbId]} ×${h.qty}`)
+                                .map((h) => `${content.herbNames[h.herbId]} ×${h.qty}`)
                                 .join(", ")}
                             </div>
                           )}
@@ -763,11 +1312,25 @@ export default function HumanPlayerUI({
                               ⚗️ Crafted:{" "}
                               {day.potionsMade
                                 .map(
-                                  (p) => `${POTION_NAMES[p.potionId]} ×${p.qty}`
+                                  (p) =>
+                                    `${content.potionNames[p.potionId]} ×${p.qty}${
+                                      p.failed ? ` (${p.failed} failed)` : ""
+                                    }`
                                 )
                                 .join(", ")}
                             </div>
                           )}
+                          {day.loan && (day.loan.borrowed > 0 || day.loan.repaid > 0) && (
+                            <div className="pixel-text-sm text-[var(--pixel-text-dim)]">
+                              🏦 Borrowed {day.loan.borrowed}g, repaid {day.loan.repaid}g
+                            </div>
+                          )}
+                          {day.trades && day.trades.length > 0 && (
+                            <div className="pixel-text-sm text-[var(--pixel-text-dim)]">
+                              🤝 Traded:{" "}
+                              {parseErrorString(formatTrades(day.trades), content)}
+                            </div>
+                          )}
                           {day.sales.length > 0 && (
                             <div className="pixel-text-sm text-[var(--pixel-text-dim)]">
                               🏪 Sold:{" "}
@@ -780,7 +1343,9 @@ export default function HumanPlayerUI({
                           )}
                           {day.errors.length > 0 && (
                             <div className="pixel-text-sm text-[var(--pixel-red)]">
-                              ⚠ {day.errors.map(parseErrorString).join("; ")}
+                              ⚠ {day.errors
+                                .map((error) => parseErrorString(error, content))
+                                .join("; ")}
                             </div>
                           )}
                         </div>
@@ -824,14 +1389,14 @@ export default function HumanPlayerUI({
                           lowestPrice: number;
                           highestPrice: number;
                         };
-                        const tier = POTION_TIER_LOOKUP[potionId as PotionId];
+                        const tier = content.potionTierLookup[potionId];
                         return (
                           <div
                             key={potionId}
                             className="flex justify-between items-center pixel-text-sm"
                           >
                             <span className={getTierColor(tier)}>
-                              {POTION_NAMES[potionId as PotionId]}
+                              {content.potionNames[potionId]}
                             </span>
                             <span className="text-[var(--pixel-text-dim)]">
                               {totalSold}/{totalOffered} @
@@ -870,7 +1435,7 @@ export default function HumanPlayerUI({
                           key={i}
                           className="pixel-text-sm text-[var(--pixel-red)]"
                         >
-                          • {parseErrorString(error)}
+                          • {parseErrorString(error, content)}
                         </li>
                       ))}
                     </ul>
@@ -901,7 +1466,7 @@ export default function HumanPlayerUI({
                         className="pixel-frame p-2 flex justify-between items-center"
                       >
                         <span className="pixel-text-sm">
-                          {HERB_NAMES[herbId as HerbId]}
+                          {content.herbNames[herbId]}
                         </span>
                         <span
                           className={`pixel-text text-lg ${
@@ -931,7 +1496,7 @@ export default function HumanPlayerUI({
                   {Object.entries(projectedInventory.potions)
                     .filter(([, qty]) => qty > 0)
                     .map(([potionId, qty]) => {
-                      const tier = POTION_TIER_LOOKUP[potionId as PotionId];
+                      const tier = content.potionTierLookup[potionId];
                       return (
                         <div
                           key={potionId}
@@ -940,7 +1505,7 @@ export default function HumanPlayerUI({
                           <span
                             className={`pixel-text-sm ${getTierColor(tier)}`}
                           >
-                            {POTION_NAMES[potionId as PotionId]}
+                            {content.potionNames[potionId]}
                           </span>
                           <span className="pixel-text text-lg">{qty}</span>
                         </div>
@@ -991,7 +1556,11 @@ export default function HumanPlayerUI({
       <div className="h-20" />
 
       {/* Rules Modal */}
-      <GameRulesModal isOpen={showRules} onClose={() => setShowRules(false)} />
+      <GameRulesModal
+        isOpen={showRules}
+        onClose={() => setShowRules(false)}
+        contentPack={playerInputs.rules?.contentPack}
+      />
     </div>
   );
 }
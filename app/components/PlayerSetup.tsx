@@ -1,6 +1,7 @@
 "use client";
 
 import { AccessCode, CuratedGame, DefaultStrategy } from "@/lib/access-control";
+import { BUILT_IN_BOTS, createBotPlayer, getBot } from "@/lib/agents";
 import { RunInfo } from "@/lib/hooks/use-game-stream";
 import { Strategy, useStrategies } from "@/lib/hooks/use-strategies";
 import { AI_MODELS, AIModel } from "@/lib/models";
@@ -389,6 +390,10 @@ export default function PlayerSetup({
             isHuman: true,
           };
         }
+        const bot = getBot(slot.modelId.replace(/^bot\//, ""));
+        if (bot) {
+          return createBotPlayer(bot.id);
+        }
         const model = AI_MODELS.find((m) => m.id === slot.modelId);
         if (!model) {
           console.error(`Model not found: ${slot.modelId}`);
@@ -761,6 +766,13 @@ export default function PlayerSetup({
                       <optgroup label="═══ YOU ═══">
                         <option value="human">🎮 HUMAN PLAYER</option>
                       </optgroup>
+                      <optgroup label="═══ BOTS ═══">
+                        {Object.values(BUILT_IN_BOTS).map((bot) => (
+                          <option key={bot.id} value={`bot/${bot.id}`}>
+                            🤖 {bot.name}
+                          </option>
+                        ))}
+                      </optgroup>
                       {Object.entries(modelsByProvider).map(
                         ([provider, models]) => (
                           <optgroup
@@ -798,6 +810,20 @@ export default function PlayerSetup({
                           </span>
                         </div>
                       </div>
+                    ) : slot.modelId.startsWith("bot/") ? (
+                      <div className="space-y-2">
+                        <p className="pixel-text-sm text-[var(--pixel-text-dim)]">
+                          {getBot(slot.modelId.replace(/^bot\//, ""))?.description}
+                        </p>
+                        <div className="flex items-center justify-between">
+                          <span className="pixel-text-sm text-[var(--pixel-blue-bright)]">
+                            🤖 Built-in Bot
+                          </span>
+                          <span className="pixel-text-sm text-[var(--pixel-gold)]">
+                            FREE
+                          </span>
+                        </div>
+                      </div>
                     ) : (
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
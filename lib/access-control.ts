@@ -1,4 +1,7 @@
 // Access control types and utilities
+import { getPlayerAgentType } from "./agents";
+import { AI_MODELS } from "./models";
+import { Player, PlayerAgentType } from "./types";
 
 // Prefix for all KV keys to namespace our data
 export const KV_PREFIX = "thealchemist:";
@@ -31,6 +34,91 @@ export type AccessValidation = {
   remainingGames?: number;
 };
 
+// Machine-readable reasons a game start is rejected by its access code
+export type AccessViolationCode =
+  | "missing_code"
+  | "invalid_code"
+  | "no_remaining_games"
+  | "unknown_model"
+  | "model_tier_exceeded"
+  | "too_many_days"
+  | "too_many_players";
+
+export type AccessViolation = {
+  code: AccessViolationCode;
+  error: string;
+  limit?: number;
+  requested?: number | string;
+};
+
+// HTTP status to answer each violation with
+export const ACCESS_VIOLATION_STATUS: Record<AccessViolationCode, number> = {
+  missing_code: 401,
+  invalid_code: 404,
+  no_remaining_games: 403,
+  unknown_model: 400,
+  model_tier_exceeded: 403,
+  too_many_days: 403,
+  too_many_players: 403,
+};
+
+// Check a requested game against an access code's limits (not its usage)
+export function checkGameAgainstCode(
+  accessCode: AccessCode,
+  game: { players: Player[]; days: number; fallbackModel?: string }
+): AccessViolation | null {
+  if (game.players.length > accessCode.maxPlayers) {
+    return {
+      code: "too_many_players",
+      error: `Access code allows at most ${accessCode.maxPlayers} players`,
+      limit: accessCode.maxPlayers,
+      requested: game.players.length,
+    };
+  }
+
+  if (game.days > accessCode.maxDays) {
+    return {
+      code: "too_many_days",
+      error: `Access code allows at most ${accessCode.maxDays} days`,
+      limit: accessCode.maxDays,
+      requested: game.days,
+    };
+  }
+
+  // Only LLM seats cost money - humans and built-in bots are always allowed.
+  // Any other seat is checked as an LLM, so an unknown agent type can't slip
+  // past the tiers. A failure policy's fallback model is held to the same limit.
+  const modelIds = [
+    ...game.players
+      .filter((player) => {
+        const agent = getPlayerAgentType(player);
+        return agent !== "human" && agent !== "bot";
+      })
+      .map((player) => player.model),
+    ...(game.fallbackModel ? [game.fallbackModel] : []),
+  ];
+  for (const modelId of modelIds) {
+    const model = AI_MODELS.find((m) => m.id === modelId);
+    if (!model) {
+      return {
+        code: "unknown_model",
+        error: `Unknown model: ${modelId}`,
+        requested: modelId,
+      };
+    }
+    if (model.tier > accessCode.maxModelTier) {
+      return {
+        code: "model_tier_exceeded",
+        error: `${model.name} is tier ${model.tier}, access code allows up to tier ${accessCode.maxModelTier}`,
+        limit: accessCode.maxModelTier,
+        requested: modelId,
+      };
+    }
+  }
+
+  return null;
+}
+
 // Generate a random access code
 export function generateAccessCode(): string {
   const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No I, O, 0, 1 to avoid confusion
@@ -64,6 +152,8 @@ export type CuratedGamePlayer = {
   name: string;
   model: string;
   isHuman?: boolean;
+  agent?: PlayerAgentType;
+  botId?: string;
   strategyPrompt?: string;
 };
 
@@ -124,6 +214,88 @@ export async function getCuratedGames(): Promise<CuratedGame[]> {
   }
 }
 
+// Atomically take one game from a code. Only usedGames is rewritten (via
+// string substitution) so the rest of the stored JSON stays byte-identical.
+// Returns remaining games, -1 if the code is gone, -2 if it is exhausted.
+const CONSUME_GAME_SCRIPT = `
+local raw = redis.call("GET", KEYS[1])
+if not raw then return -1 end
+local code = cjson.decode(raw)
+if code.usedGames >= code.maxGames then return -2 end
+local used = code.usedGames + 1
+local updated = string.gsub(raw, '"usedGames":%d+', '"usedGames":' .. used, 1)
+redis.call("SET", KEYS[1], updated)
+return code.maxGames - used
+`;
+
+// Give a game back, e.g. when the workflow failed to start after consuming
+const REFUND_GAME_SCRIPT = `
+local raw = redis.call("GET", KEYS[1])
+if not raw then return -1 end
+local code = cjson.decode(raw)
+if code.usedGames <= 0 then return code.maxGames end
+local used = code.usedGames - 1
+local updated = string.gsub(raw, '"usedGames":%d+', '"usedGames":' .. used, 1)
+redis.call("SET", KEYS[1], updated)
+return code.maxGames - used
+`;
+
+// Validate a game request against a code and consume one game atomically
+export async function consumeAccessCodeForGame(
+  rawCode: string | undefined,
+  game: { players: Player[]; days: number; fallbackModel?: string }
+): Promise<
+  | { ok: true; remainingGames: number }
+  | { ok: false; violation: AccessViolation }
+> {
+  if (!rawCode) {
+    return {
+      ok: false,
+      violation: { code: "missing_code", error: "Access code required" },
+    };
+  }
+
+  const key = getCodeKey(normalizeCode(rawCode));
+  const accessCode = await kv.get<AccessCode>(key);
+  if (!accessCode) {
+    return {
+      ok: false,
+      violation: { code: "invalid_code", error: "Invalid access code" },
+    };
+  }
+
+  const violation = checkGameAgainstCode(accessCode, game);
+  if (violation) return { ok: false, violation };
+
+  const remaining = await kv.eval<[], number>(CONSUME_GAME_SCRIPT, [key], []);
+  if (remaining === -1) {
+    return {
+      ok: false,
+      violation: { code: "invalid_code", error: "Invalid access code" },
+    };
+  }
+  if (remaining < 0) {
+    return {
+      ok: false,
+      violation: {
+        code: "no_remaining_games",
+        error: "Access code has no remaining games",
+        limit: accessCode.maxGames,
+      },
+    };
+  }
+
+  return { ok: true, remainingGames: remaining };
+}
+
+export async function refundAccessCodeGame(rawCode: string): Promise<void> {
+  await kv.eval<[], number>(
+    REFUND_GAME_SCRIPT,
+    [getCodeKey(normalizeCode(rawCode))],
+    []
+  );
+}
+
 export async function getDefaultStrategies(): Promise<DefaultStrategy[]> {
   try {
     const strategies = await kv.get<DefaultStrategy[]>(
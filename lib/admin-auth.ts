@@ -1,9 +1,25 @@
 import { cookies } from 'next/headers';
 import { NextRequest } from 'next/server';
+import { kv } from '@vercel/kv';
+import { KV_PREFIX } from './access-control';
 
 const ADMIN_COOKIE_NAME = 'admin_session';
 const SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
 
+// Login rate limiting: at most MAX_LOGIN_ATTEMPTS per client IP per window
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOGIN_ATTEMPT_WINDOW = 15 * 60; // seconds
+
+// A persisted admin session. The cookie holds the raw token; KV only ever
+// sees its SHA-256 hash, which doubles as the session id.
+export type AdminSession = {
+  id: string;
+  createdAt: number;
+  expiresAt: number;
+  ip?: string;
+  userAgent?: string;
+};
+
 // Simple session token generation
 function generateSessionToken(): string {
   const randomBytes = new Uint8Array(32);
@@ -11,25 +27,89 @@ function generateSessionToken(): string {
   return Array.from(randomBytes, b => b.toString(16).padStart(2, '0')).join('');
 }
 
+// Session id stored in KV for a cookie token
+export async function hashSessionToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Get KV key for an admin session
+export function getAdminSessionKey(id: string): string {
+  return `${KV_PREFIX}admin_session:${id}`;
+}
+
+// Get the pattern for listing all admin sessions
+export function getAdminSessionPattern(): string {
+  return `${KV_PREFIX}admin_session:*`;
+}
+
+function getLoginAttemptsKey(ip: string): string {
+  return `${KV_PREFIX}admin_login_attempts:${ip}`;
+}
+
+// Best-effort client IP behind the Vercel proxy
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const first = forwarded.split(',')[0].trim();
+    if (first) return first;
+  }
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+// Count a login attempt for this IP. Every attempt counts (not just failures)
+// so parallel guesses cannot slip past the limit; a successful login resets it.
+export async function registerLoginAttempt(
+  ip: string
+): Promise<{ allowed: boolean; retryAfterSeconds: number }> {
+  const key = getLoginAttemptsKey(ip);
+  const attempts = await kv.incr(key);
+  if (attempts === 1) {
+    await kv.expire(key, LOGIN_ATTEMPT_WINDOW);
+  }
+
+  if (attempts > MAX_LOGIN_ATTEMPTS) {
+    const ttl = await kv.ttl(key);
+    return { allowed: false, retryAfterSeconds: ttl > 0 ? ttl : LOGIN_ATTEMPT_WINDOW };
+  }
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+export async function resetLoginAttempts(ip: string): Promise<void> {
+  await kv.del(getLoginAttemptsKey(ip));
+}
+
 // Validate admin password and create session
 export async function validateAdminPassword(password: string): Promise<{ success: boolean; token?: string }> {
   const adminPassword = process.env.ADMIN_PASSWORD;
-  
+
   if (!adminPassword) {
     console.error('ADMIN_PASSWORD environment variable not set');
     return { success: false };
   }
-  
+
   if (password === adminPassword) {
     const token = generateSessionToken();
     return { success: true, token };
   }
-  
+
   return { success: false };
 }
 
-// Set admin session cookie
-export async function setAdminSession(token: string): Promise<void> {
+// Persist the session in KV and set the admin session cookie
+export async function setAdminSession(token: string, request?: NextRequest): Promise<void> {
+  const now = Date.now();
+  const session: AdminSession = {
+    id: await hashSessionToken(token),
+    createdAt: now,
+    expiresAt: now + SESSION_DURATION,
+    ip: request ? getClientIp(request) : undefined,
+    userAgent: request?.headers.get('user-agent') || undefined,
+  };
+  await kv.set(getAdminSessionKey(session.id), session, {
+    ex: SESSION_DURATION / 1000,
+  });
+
   const cookieStore = await cookies();
   cookieStore.set(ADMIN_COOKIE_NAME, token, {
     httpOnly: true,
@@ -40,30 +120,61 @@ export async function setAdminSession(token: string): Promise<void> {
   });
 }
 
-// Clear admin session
-export async function clearAdminSession(): Promise<void> {
+async function getSessionToken(request?: NextRequest): Promise<string | undefined> {
+  if (request) {
+    // From NextRequest (API routes)
+    return request.cookies.get(ADMIN_COOKIE_NAME)?.value;
+  }
+  // From server component
+  const cookieStore = await cookies();
+  return cookieStore.get(ADMIN_COOKIE_NAME)?.value;
+}
+
+// Id of the session the request is authenticated with, if it is still valid
+export async function getCurrentAdminSessionId(request?: NextRequest): Promise<string | null> {
+  const token = await getSessionToken(request);
+  if (!token || token.length !== 64) return null;
+
+  const id = await hashSessionToken(token);
+  const session = await kv.get<AdminSession>(getAdminSessionKey(id));
+  if (!session || session.expiresAt <= Date.now()) return null;
+  return id;
+}
+
+// Revoke the current session (if any) and clear the cookie
+export async function clearAdminSession(request?: NextRequest): Promise<void> {
+  const token = await getSessionToken(request);
+  if (token) {
+    await revokeAdminSession(await hashSessionToken(token));
+  }
   const cookieStore = await cookies();
   cookieStore.delete(ADMIN_COOKIE_NAME);
 }
 
+// All unexpired sessions, newest first
+export async function listAdminSessions(): Promise<AdminSession[]> {
+  const keys = await kv.keys(getAdminSessionPattern());
+  if (keys.length === 0) return [];
+
+  const sessions = await kv.mget<(AdminSession | null)[]>(...keys);
+  const now = Date.now();
+  return sessions
+    .filter((s): s is AdminSession => !!s && s.expiresAt > now)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Returns false if no such session existed
+export async function revokeAdminSession(id: string): Promise<boolean> {
+  const deleted = await kv.del(getAdminSessionKey(id));
+  return deleted > 0;
+}
+
 // Check if request has valid admin session
 export async function isAdminAuthenticated(request?: NextRequest): Promise<boolean> {
   try {
-    let token: string | undefined;
-    
-    if (request) {
-      // From NextRequest (API routes)
-      token = request.cookies.get(ADMIN_COOKIE_NAME)?.value;
-    } else {
-      // From server component
-      const cookieStore = await cookies();
-      token = cookieStore.get(ADMIN_COOKIE_NAME)?.value;
-    }
-    
-    // For simplicity, we just check if a token exists
-    // In production, you might want to store valid tokens in KV with expiry
-    return !!token && token.length === 64;
-  } catch {
+    return (await getCurrentAdminSessionId(request)) !== null;
+  } catch (error) {
+    console.error('Admin session check failed:', error);
     return false;
   }
 }
@@ -71,14 +182,13 @@ export async function isAdminAuthenticated(request?: NextRequest): Promise<boole
 // Middleware helper for API routes
 export async function requireAdmin(request: NextRequest): Promise<Response | null> {
   const isAdmin = await isAdminAuthenticated(request);
-  
+
   if (!isAdmin) {
     return new Response(JSON.stringify({ error: 'Unauthorized' }), {
       status: 401,
       headers: { 'Content-Type': 'application/json' },
     });
   }
-  
+
   return null; // Proceed with request
 }
-
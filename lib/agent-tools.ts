@@ -0,0 +1,235 @@
+import { cloneDeep } from "lodash";
+import { getContent } from "./content-packs";
+import { applyBorrowing } from "./credit";
+import { sanitizePlayerOutputsDetailed } from "./game-engine";
+import {
+  cancelStandingOrders,
+  createStandingOrders,
+  getTriggeredHerbBuys,
+  reservePotions,
+} from "./standing-orders";
+import {
+  HerbId,
+  PlayerInputs,
+  PlayerOutputs,
+  PotionId,
+  StandingOrder,
+  ToolCallRecord,
+} from "./types";
+
+// Game-aware tools for LLM players in "tools" mode. They only read the
+// player's own inputs, so a model learns nothing it could not have been told
+// in the prompt - it just gets to look things up and check its arithmetic
+// before submitting. The workflow wraps these for the AI SDK.
+
+export const DEFAULT_TOOL_CALL_BUDGET = 8;
+
+// Herb prices of every day so far, today last
+export function getPriceHistory(
+  inputs: PlayerInputs,
+  herbId?: HerbId
+): { day: number; prices: Partial<Record<HerbId, number>> }[] {
+  const days = [
+    ...inputs.actionHistory.map(({ day, herbPrices }) => ({
+      day,
+      prices: herbPrices,
+    })),
+    { day: inputs.meta.currentDay, prices: inputs.dailyPrices },
+  ];
+  return herbId
+    ? days.map(({ day, prices }) => ({
+        day,
+        prices: { [herbId]: prices[herbId] },
+      }))
+    : days;
+}
+
+// What was offered and sold of a potion (or all potions) on every past day
+export function getMarketHistory(
+  inputs: PlayerInputs,
+  potionId?: PotionId
+): {
+  day: number;
+  potionId: PotionId;
+  demand?: number;
+  totalOffered: number;
+  totalSold: number;
+  lowestPrice: number;
+  highestPrice: number;
+}[] {
+  return inputs.historicMarkets.flatMap((market, idx) =>
+    Object.entries(market)
+      .filter(([id]) => !potionId || id === potionId)
+      .map(([id, data]) => ({
+        day: idx + 1,
+        potionId: id as PotionId,
+        demand: inputs.historicDemands[idx]?.[id as PotionId],
+        ...data,
+      }))
+  );
+}
+
+// Today's herb cost of one potion of each recipe against the best price it
+// fetched on the last day it sold
+export function getRecipeMargins(inputs: PlayerInputs): {
+  potionId: PotionId;
+  herbCost: number;
+  lastSoldPrice?: number;
+  margin?: number;
+}[] {
+  const content = getContent(inputs.rules.contentPack);
+  return content.potionIds.map((potionId) => {
+    const recipe = content.recipes[potionId];
+    const herbCost =
+      Math.round(
+        (recipe.ingredients.reduce(
+          (sum, { herbId, qty }) => sum + qty * inputs.dailyPrices[herbId],
+          0
+        ) /
+          recipe.yield) *
+          10
+      ) / 10;
+    const lastSold = [...inputs.historicMarkets]
+      .reverse()
+      .find((market) => (market[potionId]?.totalSold ?? 0) > 0)?.[potionId];
+    return {
+      potionId,
+      herbCost,
+      ...(lastSold && {
+        lastSoldPrice: lastSold.highestPrice,
+        margin: Math.round((lastSold.highestPrice - herbCost) * 10) / 10,
+      }),
+    };
+  });
+}
+
+/**
+ * Run a plan through the engine's validation against the player's current
+ * inventory, with today's loan, cancels, standing orders and listing fees.
+ * Crafting never fails and price caps are not applied here, and with limited
+ * supply other players may still take some of the herbs. Trades are not
+ * simulated: they only settle if the other player agrees.
+ */
+export function dryRunPlan(
+  inputs: PlayerInputs,
+  plan: PlayerOutputs
+): {
+  errors: string[];
+  inventory: PlayerInputs["inventory"];
+  offers: { potionId: PotionId; price: number; qty: number }[];
+} {
+  const { rules } = inputs;
+  const content = getContent(rules.contentPack);
+  const listingFee = rules.fees?.listingFee;
+  const start = cloneDeep(inputs.inventory);
+  const orderErrors: string[] = [];
+
+  const loanErrors = rules.credit
+    ? applyBorrowing(start, plan.loan, rules.credit).errors
+    : [];
+
+  // The book only holds this player's orders, so any index picks them out
+  let book = inputs.openOrders ?? [];
+  const playerIdx = book[0]?.playerIdx ?? 0;
+  let sellOrders: StandingOrder[] = [];
+  if (rules.standingOrders) {
+    const day = inputs.meta.currentDay;
+    const cancelled = cancelStandingOrders(
+      book,
+      playerIdx,
+      plan.cancelOrders ?? [],
+      start,
+      day
+    );
+    const created = createStandingOrders(
+      plan.standingOrders ?? [],
+      playerIdx,
+      day,
+      content
+    );
+    book = [
+      ...cancelled.book,
+      ...created.orders.filter((order) => order.type === "buy-herb"),
+    ];
+    sellOrders = created.orders.filter((order) => order.type === "sell-potion");
+    orderErrors.push(...cancelled.errors, ...created.errors);
+  }
+  const standingBuys = rules.standingOrders
+    ? getTriggeredHerbBuys(book, playerIdx, inputs.dailyPrices)
+    : [];
+
+  const { inventory, errors, executableOffers } = sanitizePlayerOutputsDetailed(
+    start,
+    plan,
+    inputs.dailyPrices,
+    undefined,
+    inputs.dailySupplies,
+    content,
+    undefined,
+    standingBuys.map(({ herbId, remaining, maxPrice }) => ({
+      herbId,
+      qty: remaining,
+      maxPrice,
+    })),
+    listingFee
+  );
+  const reserved = reservePotions(
+    sellOrders,
+    inventory,
+    () => undefined,
+    undefined,
+    listingFee
+  );
+  return {
+    errors: [...loanErrors, ...orderErrors, ...reserved.errors, ...errors],
+    inventory,
+    offers: executableOffers.map(({ potionId, price, qty }) => ({
+      potionId,
+      price,
+      qty,
+    })),
+  };
+}
+
+/**
+ * The tools of one player-day behind a call budget. Every call is recorded;
+ * once the budget is spent, tools only answer with a reminder to submit.
+ */
+export function createAgentToolbox(
+  inputs: PlayerInputs,
+  budget = DEFAULT_TOOL_CALL_BUDGET
+) {
+  const transcript: ToolCallRecord[] = [];
+
+  const call = <T>(tool: string, input: unknown, run: () => T) => {
+    const calls = transcript.filter((c) => c.tool !== "submitPlan").length;
+    const output =
+      calls < budget
+        ? run()
+        : {
+            error: `Tool budget of ${budget} calls used up. Submit your plan now.`,
+          };
+    transcript.push({ tool, input, output });
+    return output;
+  };
+
+  return {
+    transcript,
+    getPriceHistory: (input: { herbId?: HerbId }) =>
+      call("getPriceHistory", input, () =>
+        getPriceHistory(inputs, input.herbId)
+      ),
+    getMarketHistory: (input: { potionId?: PotionId }) =>
+      call("getMarketHistory", input, () =>
+        getMarketHistory(inputs, input.potionId)
+      ),
+    getRecipeMargins: (input: Record<string, never>) =>
+      call("getRecipeMargins", input, () => getRecipeMargins(inputs)),
+    dryRunPlan: (plan: PlayerOutputs) =>
+      call("dryRunPlan", plan, () => dryRunPlan(inputs, plan)),
+    // Submitting is free and ends the day's turn
+    submitPlan: (plan: PlayerOutputs) => {
+      transcript.push({ tool: "submitPlan", input: plan, output: "submitted" });
+    },
+  };
+}
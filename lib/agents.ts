@@ -0,0 +1,307 @@
+import { getContent } from "./content-packs";
+import {
+  HerbId,
+  Player,
+  PlayerAgentType,
+  PlayerInputs,
+  PlayerOutputs,
+  PotionId,
+  PotionOffer,
+} from "./types";
+
+// Deterministic built-in bots that play without any LLM calls.
+// Used as baselines, to fill empty seats for free, and for offline tests.
+
+export type BotId = "greedy-margin" | "cheapest-herb" | "market-maker";
+
+export type PlayerAgent = {
+  id: BotId;
+  name: string;
+  description: string;
+  decide: (inputs: PlayerInputs) => PlayerOutputs;
+};
+
+// Resolve how a seat makes decisions (older configs only know isHuman)
+export function getPlayerAgentType(player: Player): PlayerAgentType {
+  if (player.agent) return player.agent;
+  return player.isHuman ? "human" : "llm";
+}
+
+export function isPlayerAgentType(value: unknown): value is PlayerAgentType {
+  return value === "llm" || value === "human" || value === "bot";
+}
+
+export function isBotId(id: string | undefined): id is BotId {
+  return !!id && Object.hasOwn(BUILT_IN_BOTS, id);
+}
+
+export function getBot(botId: string | undefined): PlayerAgent | undefined {
+  return isBotId(botId) ? BUILT_IN_BOTS[botId] : undefined;
+}
+
+// Build the Player entry for a bot seat
+export function createBotPlayer(botId: BotId, name?: string): Player {
+  return {
+    name: name || BUILT_IN_BOTS[botId].name,
+    model: `bot/${botId}`,
+    agent: "bot",
+    botId,
+  };
+}
+
+// Potions of the game's content pack, in id order
+function getPotionIds(inputs: PlayerInputs): PotionId[] {
+  return [...getContent(inputs.rules.contentPack).potionIds].sort();
+}
+
+function getRecipe(inputs: PlayerInputs, potionId: PotionId) {
+  return getContent(inputs.rules.contentPack).recipes[potionId];
+}
+
+// Today's herb cost of one potion (a craft's herbs spread over its yield)
+function recipeCost(inputs: PlayerInputs, potionId: PotionId): number {
+  const recipe = getRecipe(inputs, potionId);
+  const craftCost = recipe.ingredients.reduce(
+    (sum, { herbId, qty }) => sum + qty * inputs.dailyPrices[herbId],
+    0
+  );
+  return craftCost / recipe.yield;
+}
+
+function isFinalDay(inputs: PlayerInputs): boolean {
+  return inputs.meta.currentDay >= inputs.meta.totalDays;
+}
+
+/**
+ * Turn "craft N of potion X" targets into buy + make orders, using herbs
+ * already in inventory first and never spending more than the budget.
+ * Returns the orders plus the potion inventory after crafting.
+ */
+function planProduction(
+  inputs: PlayerInputs,
+  targets: { potionId: PotionId; qty: number }[],
+  budget: number
+): {
+  buyHerbs: PlayerOutputs["buyHerbs"];
+  makePotions: PlayerOutputs["makePotions"];
+  potions: Record<PotionId, number>;
+} {
+  const herbs = { ...inputs.inventory.herbs };
+  const potions = { ...inputs.inventory.potions };
+  const bought = {} as Record<HerbId, number>;
+  const made = {} as Record<PotionId, number>;
+  let spendable = Math.min(budget, inputs.inventory.gold);
+
+  for (const { potionId, qty } of targets) {
+    const recipe = getRecipe(inputs, potionId);
+    // Crafting failures are not planned for; the bots just try again later
+    const crafts = Math.ceil(qty / recipe.yield);
+    for (let craft = 0; craft < crafts; craft++) {
+      const toBuy = recipe.ingredients.map(({ herbId, qty: needed }) => ({
+        herbId,
+        qty: Math.max(0, needed - herbs[herbId]),
+      }));
+      const cost = toBuy.reduce(
+        (s, { herbId, qty: missing }) => s + missing * inputs.dailyPrices[herbId],
+        0
+      );
+      if (cost > spendable) break;
+
+      spendable -= cost;
+      for (const { herbId, qty: missing } of toBuy) {
+        if (missing === 0) continue;
+        bought[herbId] = (bought[herbId] || 0) + missing;
+        herbs[herbId] += missing;
+      }
+      for (const { herbId, qty: needed } of recipe.ingredients) {
+        herbs[herbId] -= needed;
+      }
+      made[potionId] = (made[potionId] || 0) + 1;
+      potions[potionId] += recipe.yield;
+    }
+  }
+
+  return {
+    buyHerbs: Object.entries(bought).map(([herbId, qty]) => ({
+      herbId: herbId as HerbId,
+      qty,
+    })),
+    makePotions: Object.entries(made).map(([potionId, qty]) => ({
+      potionId: potionId as PotionId,
+      qty,
+    })),
+    potions,
+  };
+}
+
+// List every potion held, priced by the given function
+function offerAll(
+  potions: Record<PotionId, number>,
+  priceFor: (potionId: PotionId) => number
+): PotionOffer[] {
+  const potionIds = Object.keys(potions).sort();
+  return potionIds.filter((potionId) => potions[potionId] > 0).map(
+    (potionId) => ({
+      potionId,
+      price: Math.max(1, Math.round(priceFor(potionId))),
+      qty: potions[potionId],
+    })
+  );
+}
+
+// Observed clearing price yesterday, if the potion sold at all
+function lastSoldPrice(
+  inputs: PlayerInputs,
+  potionId: PotionId
+): number | undefined {
+  const lastMarket = inputs.historicMarkets[inputs.historicMarkets.length - 1];
+  const data = lastMarket?.[potionId];
+  if (!data || data.totalSold === 0 || data.highestPrice <= 0) return undefined;
+  return data.highestPrice;
+}
+
+// Cheapest-herb: always brews whatever potion is cheapest to make today
+const cheapestHerb: PlayerAgent = {
+  id: "cheapest-herb",
+  name: "Thrifty Bot",
+  description:
+    "Brews the potion with the cheapest recipe today and sells everything at 2x herb cost.",
+  decide(inputs) {
+    const [cheapest] = getPotionIds(inputs).sort(
+      (a, b) =>
+        recipeCost(inputs, a) - recipeCost(inputs, b)
+    );
+    const { buyHerbs, makePotions, potions } = planProduction(
+      inputs,
+      [{ potionId: cheapest, qty: 10 }],
+      inputs.inventory.gold * 0.5
+    );
+    return {
+      buyHerbs,
+      makePotions,
+      potionOffers: offerAll(
+        potions,
+        (potionId) => recipeCost(inputs, potionId) * 2
+      ),
+    };
+  },
+};
+
+// Greedy-margin: brews the potions with the best observed margin
+const greedyMargin: PlayerAgent = {
+  id: "greedy-margin",
+  name: "Greedy Bot",
+  description:
+    "Ranks potions by yesterday's sale price minus today's herb cost and brews the most profitable ones.",
+  decide(inputs) {
+    const lastMarket =
+      inputs.historicMarkets[inputs.historicMarkets.length - 1];
+    const expectedPrice = (potionId: PotionId) =>
+      lastSoldPrice(inputs, potionId) ??
+      recipeCost(inputs, potionId) * 3;
+    // Expect to sell about what cleared yesterday, or a few units on day 1
+    const expectedQty = (potionId: PotionId) => {
+      const data = lastMarket?.[potionId];
+      if (!data) return 5;
+      return data.totalSold < data.totalOffered
+        ? data.totalSold
+        : data.totalSold + 2;
+    };
+
+    const targets = getPotionIds(inputs).map((potionId) => ({
+      potionId,
+      margin: expectedPrice(potionId) - recipeCost(inputs, potionId),
+      qty: Math.max(0, expectedQty(potionId) - inputs.inventory.potions[potionId]),
+    }))
+      .filter((t) => t.margin > 0 && t.qty > 0)
+      .sort(
+        (a, b) =>
+          b.margin * b.qty - a.margin * a.qty ||
+          a.potionId.localeCompare(b.potionId)
+      );
+
+    const { buyHerbs, makePotions, potions } = planProduction(
+      inputs,
+      targets,
+      inputs.inventory.gold * 0.8
+    );
+    return {
+      buyHerbs,
+      makePotions,
+      potionOffers: offerAll(potions, (potionId) =>
+        // Undercut yesterday's price slightly, but never below herb cost
+        Math.max(
+          recipeCost(inputs, potionId) + 1,
+          expectedPrice(potionId) - 1
+        )
+      ),
+    };
+  },
+};
+
+const MARKUP_START = 2;
+const MARKUP_STEP = 0.25;
+const MARKUP_MIN = 1.2;
+const MARKUP_MAX = 4;
+
+// Market-maker: keeps a small stock of every potion and adapts its markup
+// per potion to its own sell-through on previous days
+const marketMaker: PlayerAgent = {
+  id: "market-maker",
+  name: "Market Maker Bot",
+  description:
+    "Keeps two of every potion on offer and raises or lowers each markup based on its own sell-through.",
+  decide(inputs) {
+    const markups = {} as Record<PotionId, number>;
+    for (const potionId of getPotionIds(inputs)) markups[potionId] = MARKUP_START;
+    for (const day of inputs.actionHistory) {
+      for (const sale of day.sales) {
+        if (sale.offered === 0) continue;
+        const delta =
+          sale.sold === sale.offered
+            ? MARKUP_STEP
+            : sale.sold === 0
+              ? -MARKUP_STEP
+              : 0;
+        markups[sale.potionId] = Math.min(
+          MARKUP_MAX,
+          Math.max(MARKUP_MIN, markups[sale.potionId] + delta)
+        );
+      }
+    }
+
+    // Restock towards 2 units each, cheapest recipes first
+    const targets = getPotionIds(inputs)
+      .sort(
+        (a, b) =>
+          recipeCost(inputs, a) - recipeCost(inputs, b)
+      )
+      .map((potionId) => ({
+        potionId,
+        qty: Math.max(0, 2 - inputs.inventory.potions[potionId]),
+      }));
+
+    const { buyHerbs, makePotions, potions } = planProduction(
+      inputs,
+      targets,
+      inputs.inventory.gold * 0.6
+    );
+    return {
+      buyHerbs,
+      makePotions,
+      potionOffers: offerAll(potions, (potionId) => {
+        const cost = recipeCost(inputs, potionId);
+        // Clear the shelves on the last day: anything above cost is profit
+        return isFinalDay(inputs)
+          ? cost + 1
+          : cost * markups[potionId];
+      }),
+    };
+  },
+};
+
+export const BUILT_IN_BOTS: Record<BotId, PlayerAgent> = {
+  "greedy-margin": greedyMargin,
+  "cheapest-herb": cheapestHerb,
+  "market-maker": marketMaker,
+};
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import classicPack from "./packs/classic.json";
+import { ContentPack, HerbId, PotionId, Tier } from "./types";
+
+// Content packs describe the herbs, potions and recipes of a game. Everything
+// that used to be hard-coded (ids, names, tiers, recipes) is derived from the
+// active pack through getContent.
+
+const TIERS: Tier[] = ["T1", "T2", "T3"];
+
+// Largest content pack JSON the start route accepts
+export const MAX_CONTENT_PACK_LENGTH = 64_000;
+
+const tierSchema = z.enum(["T1", "T2", "T3"]);
+const idSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,16}$/, "Ids are 1-16 letters, digits, _ or -")
+  // Ids become object keys, so none may shadow Object.prototype
+  .refine((id) => !(id in Object.prototype), "Reserved id");
+const ingredientSchema = z.union([
+  idSchema,
+  z.object({ herbId: idSchema, qty: z.number().int().positive() }),
+]);
+
+export const contentPackSchema: z.ZodType<ContentPack> = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    herbs: z
+      .array(z.object({ id: idSchema, name: z.string().min(1), tier: tierSchema }))
+      .min(1),
+    potions: z
+      .array(
+        z.object({
+          id: idSchema,
+          name: z.string().min(1),
+          tier: tierSchema,
+          family: z.string().min(1).optional(),
+          recipe: z.array(ingredientSchema).min(1),
+          yield: z.number().int().positive().optional(),
+          failureChance: z.number().min(0).max(1).optional(),
+        })
+      )
+      .min(1),
+  })
+  .superRefine((pack, ctx) => {
+    const seen = new Set<string>();
+    for (const { id } of [...pack.herbs, ...pack.potions]) {
+      if (seen.has(id)) {
+        ctx.addIssue({ code: "custom", message: `Duplicate id ${id}` });
+      }
+      seen.add(id);
+    }
+
+    const herbIds = new Set(pack.herbs.map((herb) => herb.id));
+    for (const potion of pack.potions) {
+      const used = new Set<string>();
+      for (const { herbId } of toIngredients(potion.recipe)) {
+        if (used.has(herbId)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `${potion.id} lists ${herbId} more than once (use a quantity)`,
+          });
+        }
+        used.add(herbId);
+        if (!herbIds.has(herbId)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `${potion.id} uses unknown herb ${herbId}`,
+          });
+        }
+      }
+    }
+  });
+
+// A recipe as the engine uses it: every ingredient with its quantity
+export type Recipe = {
+  ingredients: { herbId: HerbId; qty: number }[];
+  yield: number; // Potions per successful craft
+  failureChance: number; // 0-1
+};
+
+function toIngredients(
+  recipe: ContentPack["potions"][number]["recipe"]
+): Recipe["ingredients"] {
+  return recipe.map((item) =>
+    typeof item === "string" ? { herbId: item, qty: 1 } : item
+  );
+}
+
+// Validate a pack (e.g. parsed JSON); throws a ZodError when invalid
+export function parseContentPack(data: unknown): ContentPack {
+  return contentPackSchema.parse(data);
+}
+
+export const CLASSIC_CONTENT_PACK = parseContentPack(classicPack);
+
+// Lookups derived from a pack
+export type Content = {
+  pack: ContentPack;
+  herbIds: HerbId[];
+  potionIds: PotionId[];
+  herbNames: Record<HerbId, string>;
+  potionNames: Record<PotionId, string>;
+  herbTiers: Record<Tier, HerbId[]>;
+  potionTiers: Record<Tier, PotionId[]>;
+  herbTierLookup: Record<HerbId, Tier>;
+  potionTierLookup: Record<PotionId, Tier>;
+  potionFamilies: Record<PotionId, string | undefined>;
+  recipes: Record<PotionId, Recipe>;
+};
+
+function buildContent(pack: ContentPack): Content {
+  const content: Content = {
+    pack,
+    herbIds: pack.herbs.map((herb) => herb.id),
+    potionIds: pack.potions.map((potion) => potion.id),
+    herbNames: {},
+    potionNames: {},
+    herbTiers: { T1: [], T2: [], T3: [] },
+    potionTiers: { T1: [], T2: [], T3: [] },
+    herbTierLookup: {},
+    potionTierLookup: {},
+    potionFamilies: {},
+    recipes: {},
+  };
+  for (const herb of pack.herbs) {
+    content.herbNames[herb.id] = herb.name;
+    content.herbTiers[herb.tier].push(herb.id);
+    content.herbTierLookup[herb.id] = herb.tier;
+  }
+  for (const potion of pack.potions) {
+    content.potionNames[potion.id] = potion.name;
+    content.potionTiers[potion.tier].push(potion.id);
+    content.potionTierLookup[potion.id] = potion.tier;
+    content.potionFamilies[potion.id] = potion.family;
+    content.recipes[potion.id] = {
+      ingredients: toIngredients(potion.recipe),
+      yield: potion.yield ?? 1,
+      failureChance: potion.failureChance ?? 0,
+    };
+  }
+  return content;
+}
+
+const contentCache = new WeakMap<ContentPack, Content>();
+
+/**
+ * Lookups for a pack, defaulting to the classic one. Cached per pack object,
+ * so hot paths can call this freely.
+ */
+export function getContent(pack: ContentPack = CLASSIC_CONTENT_PACK): Content {
+  let content = contentCache.get(pack);
+  if (!content) {
+    content = buildContent(pack);
+    contentCache.set(pack, content);
+  }
+  return content;
+}
+
+// Whether an id names a herb or potion of the pack. Own keys only, so ids
+// like "constructor" never pass for content.
+export function isHerbId(content: Content, id: string): boolean {
+  return Object.hasOwn(content.herbNames, id);
+}
+
+export function isPotionId(content: Content, id: string): boolean {
+  return Object.hasOwn(content.potionNames, id);
+}
+
+// Tiers that have at least one herb in the pack, in tier order
+export function getHerbTiersInUse(content: Content): Tier[] {
+  return TIERS.filter((tier) => content.herbTiers[tier].length > 0);
+}
+
+// "H01 + 2×H09 → 3 potions, 20% failure"; classic recipes read "H01 + H02".
+// Pass names to show herb names instead of ids.
+export function formatRecipe(
+  recipe: Recipe,
+  names?: Record<HerbId, string>
+): string {
+  const parts = [
+    recipe.ingredients
+      .map(
+        ({ herbId, qty }) =>
+          `${qty > 1 ? `${qty}×` : ""}${names?.[herbId] ?? herbId}`
+      )
+      .join(" + "),
+  ];
+  if (recipe.yield > 1) parts.push(`→ ${recipe.yield} potions`);
+  const extras =
+    recipe.failureChance > 0
+      ? `, ${Math.round(recipe.failureChance * 100)}% failure`
+      : "";
+  return parts.join(" ") + extras;
+}
@@ -6,7 +6,7 @@ import { AccessCode } from "@/lib/access-control";
 
 type AccessContextType = AccessState & {
   validateCode: (code: string) => Promise<boolean>;
-  consumeGame: () => Promise<boolean>;
+  updateRemainingGames: (remainingGames: number) => void;
   clearCode: () => void;
   hasAccess: boolean;
 };
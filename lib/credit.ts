@@ -0,0 +1,72 @@
+import { CreditConfig, LoanRequest, PlayerInventory } from "./types";
+
+// Optional credit. Players borrow in the morning (before trading and buying)
+// up to the credit limit, repay in the evening once the market has paid out,
+// and every night interest is added to whatever they still owe. Scores count
+// gold minus debt, so borrowing only pays off if the gold earns more than the
+// interest.
+
+// What a player is worth at the end: gold minus debt
+export function getNetWorth(inventory: PlayerInventory): number {
+  return inventory.gold - (inventory.debt ?? 0);
+}
+
+/**
+ * Morning: take out the requested loan, limited by the credit limit.
+ * Mutates `inventory`.
+ */
+export function applyBorrowing(
+  inventory: PlayerInventory,
+  request: LoanRequest | undefined,
+  credit: CreditConfig
+): { borrowed: number; errors: string[] } {
+  const requested = request?.borrow ?? 0;
+  const debt = inventory.debt ?? 0;
+  const borrowed = Math.max(0, Math.min(requested, credit.limit - debt));
+  inventory.gold += borrowed;
+  inventory.debt = debt + borrowed;
+
+  const errors =
+    borrowed !== requested
+      ? [
+          `Credit limit is ${credit.limit}g and you owe ${debt}g. Borrowed ${borrowed}g.`,
+        ]
+      : [];
+  return { borrowed, errors };
+}
+
+/**
+ * Evening: repay what was asked (as far as gold and debt allow), then add a
+ * night's interest to the remaining debt. Mutates `inventory`.
+ */
+export function applyRepaymentAndInterest(
+  inventory: PlayerInventory,
+  request: LoanRequest | undefined,
+  credit: CreditConfig
+): { repaid: number; interest: number; errors: string[] } {
+  const errors: string[] = [];
+  const requested = request?.repay ?? 0;
+  const debt = inventory.debt ?? 0;
+  const repaid = Math.min(requested, debt, inventory.gold);
+  if (repaid !== requested) {
+    errors.push(
+      requested > debt
+        ? `Only ${debt}g owed. Repaid ${repaid}g.`
+        : `Not enough gold to repay ${requested}g. Repaid ${repaid}g.`
+    );
+  }
+  inventory.gold -= repaid;
+
+  const interest = Math.round((debt - repaid) * credit.dailyInterestRate);
+  inventory.debt = debt - repaid + interest;
+  return { repaid, interest, errors };
+}
+
+// Rules text for players and the AI prompt
+export function describeCredit(credit: CreditConfig): string {
+  return `You may borrow gold up to a total debt of ${
+    credit.limit
+  }g. Borrowed gold is available from the start of the day; repayments are made at the end of the day, after your potions have sold. Every night ${
+    Math.round(credit.dailyInterestRate * 1000) / 10
+  }% interest is added to what you still owe. Final scores are gold minus debt.`;
+}
@@ -0,0 +1,54 @@
+import { DemandCurve, Tier } from "./types";
+
+// How many buyers a potion finds at a given price. A day's generated demand
+// is the number of buyers at the bottom of the curve; the curve scales it
+// down as the price rises, reaching zero at the tier's reservation price.
+
+/**
+ * Units buyers take at `price` for a potion whose day demand is `demand`.
+ * Without a curve demand is fixed (every buyer pays up to the price cap).
+ */
+export function demandAtPrice(
+  curve: DemandCurve | undefined,
+  demand: number,
+  tier: Tier,
+  price: number
+): number {
+  if (!curve) return demand;
+
+  const reservation = curve.reservationPrices[tier];
+  if (price >= reservation) return 0;
+
+  // Linear: every buyer at the 1g price floor, none at the reservation price
+  if (curve.type === "linear") {
+    if (price <= 1) return demand;
+    return Math.floor((demand * (reservation - price)) / (reservation - 1));
+  }
+
+  // Constant elasticity: full demand up to the reference price, then
+  // demand ∝ price^-elasticity
+  const reference = curve.referencePrices[tier];
+  if (price <= reference) return demand;
+  return Math.floor(demand * Math.pow(reference / price, curve.elasticity));
+}
+
+// Rules text for players and the AI prompt
+export function describeDemandCurve(curve: DemandCurve | undefined): string {
+  if (!curve) {
+    return "Demand is fixed: every buyer buys at any price up to the price cap.";
+  }
+
+  const tiers = (Object.keys(curve.reservationPrices) as Tier[]).sort();
+  const reservations = tiers
+    .map((tier) => `${tier} ${curve.reservationPrices[tier]}g`)
+    .join(", ");
+
+  if (curve.type === "linear") {
+    return `Buyers are price sensitive. The day's demand is how many buyers want a potion at 1g; at price P only demand × (R - P) / (R - 1) of them buy, where R is the reservation price of the potion's tier (${reservations}). Nobody buys at or above R.`;
+  }
+
+  const references = tiers
+    .map((tier) => `${tier} ${curve.referencePrices[tier]}g`)
+    .join(", ");
+  return `Buyers are price sensitive. Up to the reference price F of a potion's tier (${references}) the full day's demand buys; above it only demand × (F / P)^${curve.elasticity} buy at price P. Nobody buys at or above the reservation price R (${reservations}).`;
+}
@@ -0,0 +1,82 @@
+import { mapValues } from "lodash";
+import {
+  DynamicDemandConfig,
+  GameState,
+  PotionId,
+  ProcessedMarket,
+} from "./types";
+
+// Dynamic demand: the day's generated demand is a baseline that is scaled by
+// how the market treated each potion on earlier days. Flooded potions
+// (offered beyond demand) saturate buyers; starved potions (demand left
+// unmet) build pent-up demand. Older days count less (memory^age).
+
+// Realized demand never drops below / rises above these multiples of baseline
+const MIN_MULTIPLIER = 0.25;
+const MAX_MULTIPLIER = 2;
+
+function offeredByPotion(market: ProcessedMarket): Partial<Record<PotionId, number>> {
+  const offered: Partial<Record<PotionId, number>> = {};
+  for (const offer of market.processedOffers) {
+    offered[offer.potionId] = (offered[offer.potionId] ?? 0) + offer.qty;
+  }
+  return offered;
+}
+
+// Demand multiplier for one potion given its history, oldest day first
+export function getDemandMultiplier(
+  history: { demand: number; offered: number; unmet: number }[],
+  config: DynamicDemandConfig
+): number {
+  let pressure = 0;
+  history.forEach(({ demand, offered, unmet }, idx) => {
+    if (demand <= 0) return;
+    const age = history.length - 1 - idx;
+    const excess = Math.min(1, Math.max(0, offered - demand) / demand);
+    const starved = Math.min(1, unmet / demand);
+    pressure +=
+      Math.pow(config.memory, age) *
+      (config.pentUp * starved - config.saturation * excess);
+  });
+  return Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, 1 + pressure));
+}
+
+/**
+ * Today's realized demand per potion. Needs the state's historicDemands and
+ * processedMarketByDay to line up day by day (both are written together in
+ * processGameDay).
+ */
+export function getRealizedDemands(
+  baseDemands: Record<PotionId, number>,
+  gameState: Pick<GameState, "historicDemands" | "processedMarketByDay">,
+  config: DynamicDemandConfig | undefined
+): Record<PotionId, number> {
+  if (!config) return baseDemands;
+
+  const days = gameState.historicDemands.map((demands, dayIdx) => {
+    const market = gameState.processedMarketByDay[dayIdx];
+    return { demands, market, offered: offeredByPotion(market) };
+  });
+
+  return mapValues(baseDemands, (base, potionId) => {
+    const history = days.map(({ demands, market, offered }) => ({
+      demand: demands[potionId as PotionId] ?? 0,
+      offered: offered[potionId as PotionId] ?? 0,
+      unmet: market.potionInformation[potionId as PotionId]?.remaining ?? 0,
+    }));
+    return Math.round(base * getDemandMultiplier(history, config));
+  });
+}
+
+// Rules text for players and the AI prompt
+export function describeDynamicDemand(config: DynamicDemandConfig): string {
+  return `Demand reacts to the market. Potions that were offered well beyond their demand saturate buyers (up to -${Math.round(
+    config.saturation * 100
+  )}% demand per flooded day); potions whose demand went unmet build pent-up demand (up to +${Math.round(
+    config.pentUp * 100
+  )}% per starved day). Each older day counts ${Math.round(
+    config.memory * 100
+  )}% as much as the one after it. Demand stays between ${
+    MIN_MULTIPLIER * 100
+  }% and ${MAX_MULTIPLIER * 100}% of normal.`;
+}
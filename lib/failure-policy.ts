@@ -0,0 +1,98 @@
+import { FailurePolicy, PlayerOutputs } from "./types";
+
+// Failed LLM calls (schema misses, timeouts, provider errors). Without a
+// policy the first failure disqualifies the player. With one, a call is
+// retried with exponential backoff, its raw text may be repaired into JSON,
+// a fallback model gets a last try, and a day that still fails is a strike:
+// the player holds (does nothing) until the strikes run out.
+
+// What the first failure used to mean: no retries, disqualified at once
+export const NO_FAILURE_POLICY: FailurePolicy = {
+  retries: 0,
+  backoffMs: 0,
+  repairJson: false,
+  maxStrikes: 1,
+};
+
+// The safe "hold" action of a failed day
+export const HOLD_OUTPUTS: PlayerOutputs = {
+  buyHerbs: [],
+  makePotions: [],
+  potionOffers: [],
+};
+
+// Wait before retry number `retry` (0 for the first)
+export function getBackoffMs(policy: FailurePolicy, retry: number): number {
+  return policy.backoffMs * 2 ** retry;
+}
+
+// What a player's failed day leads to, counting this one as a strike
+export function getStrikeOutcome(
+  policy: FailurePolicy,
+  strikes: number
+): "hold" | "disqualified" {
+  return strikes >= policy.maxStrikes ? "disqualified" : "hold";
+}
+
+/**
+ * Salvage a JSON object from model text that failed to parse: strips code
+ * fences and surrounding prose, drops trailing commas and closes unbalanced
+ * brackets. Returns undefined if nothing parses.
+ */
+export function repairJson(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start < 0) return undefined;
+  let json = text
+    .slice(start)
+    .replace(/```[\s\S]*$/, "")
+    .trim();
+
+  const attempts = [json];
+  json = json.replace(/,\s*([}\]])/g, "$1");
+  attempts.push(json.slice(0, json.lastIndexOf("}") + 1), closeBrackets(json));
+
+  for (const attempt of attempts) {
+    try {
+      const parsed = JSON.parse(attempt);
+      if (parsed && typeof parsed === "object") return parsed;
+    } catch {
+      // Try the next repair
+    }
+  }
+  return undefined;
+}
+
+// Append the closing brackets a truncated JSON text is missing
+function closeBrackets(json: string): string {
+  const open: string[] = [];
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') inString = true;
+    else if (char === "{") open.push("}");
+    else if (char === "[") open.push("]");
+    else if (char === "}" || char === "]") open.pop();
+  }
+  const body = (inString ? `${json}"` : json).replace(/[,:]\s*$/, "");
+  return body + open.reverse().join("");
+}
+
+// Whether a request body holds a usable failure policy
+export function isFailurePolicy(value: unknown): value is FailurePolicy {
+  const policy = value as FailurePolicy;
+  const count = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    count(policy.retries) &&
+    count(policy.backoffMs) &&
+    typeof policy.repairJson === "boolean" &&
+    (policy.fallbackModel === undefined ||
+      typeof policy.fallbackModel === "string") &&
+    count(policy.maxStrikes) &&
+    policy.maxStrikes >= 1
+  );
+}
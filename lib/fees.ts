@@ -0,0 +1,62 @@
+import { FeeConfig, PlayerInventory } from "./types";
+
+// Market fees. A listing fee is paid for every potion offer when it is posted
+// (offers that cannot pay it are not posted), a sales tax is taken from the
+// revenue of every sale, and a flat stall rent is charged in the evening of
+// every day a player had anything on the market. Fees never push gold below 0.
+
+export function getSalesTax(revenue: number, fees: FeeConfig): number {
+  return Math.round(revenue * (fees.salesTax ?? 0));
+}
+
+/**
+ * Evening: pay the stall rent if the player was on the market today.
+ * Mutates `inventory`.
+ */
+export function chargeStallRent(
+  inventory: PlayerInventory,
+  onMarket: boolean,
+  fees: FeeConfig
+): number {
+  if (!onMarket) return 0;
+  const rent = Math.min(fees.stallRent ?? 0, inventory.gold);
+  inventory.gold -= rent;
+  return rent;
+}
+
+// Rules text for players and the AI prompt
+export function describeFees(fees: FeeConfig): string {
+  const parts: string[] = [];
+  if (fees.listingFee) {
+    parts.push(
+      `Every potion offer costs a ${fees.listingFee}g listing fee when posted, sold or not (a standing sell order pays it once, when placed); offers you cannot pay the fee for are not posted.`
+    );
+  }
+  if (fees.salesTax) {
+    parts.push(
+      `${Math.round(fees.salesTax * 1000) / 10}% sales tax is taken from the revenue of every sale.`
+    );
+  }
+  if (fees.stallRent) {
+    parts.push(
+      `Each day you have potions on the market you pay ${fees.stallRent}g stall rent in the evening.`
+    );
+  }
+  return parts.length > 0 ? parts.join(" ") : "No market fees.";
+}
+
+// Compact "listing 6g, tax 12g, rent 5g" summary of a day's fees
+export function formatFees(
+  sales: { listingFee?: number; tax?: number }[],
+  stallRent: number | undefined
+): string {
+  const listing = sales.reduce((sum, sale) => sum + (sale.listingFee ?? 0), 0);
+  const tax = sales.reduce((sum, sale) => sum + (sale.tax ?? 0), 0);
+  return [
+    listing > 0 && `listing ${listing}g`,
+    tax > 0 && `tax ${tax}g`,
+    stallRent && `rent ${stallRent}g`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
@@ -1,30 +1,32 @@
-import { HERB_NAMES, HerbId, POTION_NAMES, PotionId } from "./types";
+import { Content, getContent } from "./content-packs";
 
 /**
- * Replace H## and P## IDs in error strings with their actual names
+ * Replace herb and potion IDs in error strings with their actual names
  */
-export function parseErrorString(error: string): string {
-  let result = error;
+export function parseErrorString(
+  error: string,
+  content: Content = getContent()
+): string {
+  const names: Record<string, string> = {
+    ...content.herbNames,
+    ...content.potionNames,
+  };
 
-  // Replace potion IDs (P01-P18) with names
-  result = result.replace(/P(0[1-9]|1[0-8])/g, (match) => {
-    const name = POTION_NAMES[match as PotionId];
-    return name ? name : match;
-  });
+  // Longest IDs first so a short ID never matches inside a longer one
+  const ids = Object.keys(names)
+    .sort((a, b) => b.length - a.length)
+    .map((id) => id.replace(/[-]/g, "\\$&"));
+  const pattern = new RegExp(`\\b(${ids.join("|")})\\b`, "g");
 
-  // Replace herb IDs (H01-H12) with names
-  result = result.replace(/H(0[1-9]|1[0-2])/g, (match) => {
-    const name = HERB_NAMES[match as HerbId];
-    return name ? name : match;
-  });
-
-  return result;
+  return error.replace(pattern, (match) => names[match] ?? match);
 }
 
 /**
  * Parse an array of error strings
  */
-export function parseErrorStrings(errors: string[]): string[] {
-  return errors.map(parseErrorString);
+export function parseErrorStrings(
+  errors: string[],
+  content?: Content
+): string[] {
+  return errors.map((error) => parseErrorString(error, content));
 }
-
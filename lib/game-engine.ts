@@ -1,49 +1,156 @@
-import { cloneDeep, mapValues } from "lodash";
+import { cloneDeep, mapValues, mergeWith } from "lodash";
 import { Random } from "random";
+import { Content, getContent, isHerbId, isPotionId } from "./content-packs";
+import { applyBorrowing, applyRepaymentAndInterest } from "./credit";
+import { demandAtPrice } from "./demand-curves";
+import { getRealizedDemands } from "./dynamic-demand";
+import { chargeStallRent, getSalesTax } from "./fees";
+import {
+  DEFAULT_MARKET_MECHANISM,
+  MARKET_MECHANISMS,
+} from "./market-mechanisms";
+import {
+  applyMarketEvents,
+  getActiveEvents,
+  getEventsStartingOn,
+  scheduleMarketEvents,
+} from "./market-events";
+import { writeNotes } from "./notebook";
+import {
+  DEFAULT_LIQUIDATION_DISCOUNT,
+  getFinalStandings,
+  getLiquidationPrices,
+  getSellBackPrices,
+  sellHerbsBack,
+} from "./scoring";
+import {
+  applySpoilage,
+  createEmptyAges,
+  getExpiringTonight,
+  getReservedAges,
+  mergeAges,
+} from "./spoilage";
+import {
+  cancelStandingOrders,
+  closeStandingOrders,
+  createStandingOrders,
+  getStandingOffers,
+  getTriggeredHerbBuys,
+  reservePotions,
+} from "./standing-orders";
+import { generateDailySeries } from "./time-series";
+import { settleTrades } from "./trading";
 import {
   DayRecord,
+  ContentPack,
   Game,
   GameConfig,
+  GameRules,
   GameState,
   GenerationConfig,
-  HERB_NAMES,
-  HERB_TIERS,
   HerbId,
+  HerbSupplyConfig,
+  InventoryAges,
+  ItemQuantities,
+  PlanRevision,
   PlayerDayActions,
   PlayerInputs,
   PlayerInventory,
   PlayerOutputs,
-  POTION_NAMES,
-  POTION_TIERS,
   PotionId,
   PotionOffer,
-  RECIPES,
+  ProcessedMarket,
   RuntimeConfig,
+  StandingOrder,
+  StandingOrderFill,
   Tier,
+  ToolCallRecord,
 } from "./types";
 export function setupGame(config: GenerationConfig): Game {
   const rng = new Random(config.seed);
-  const herbDailyPrices = createHerbDailyPrices(config, rng);
-  const potionDailyDemands = createPotionDailyDemands(config, rng);
+  const content = getContent(config.contentPack);
+  const herbDailyPrices = createHerbDailyPrices(config, content, rng);
+  const potionDailyDemands = createPotionDailyDemands(config, content, rng);
+  // Drawn last so enabling supply limits leaves prices and demand unchanged
+  const herbDailySupplies = config.herbSupply
+    ? createHerbDailySupplies(config, config.herbSupply, content, rng)
+    : undefined;
+  // Drawn after everything else for the same reason
+  const marketEvents = config.marketEvents
+    ? scheduleMarketEvents(config.days, config.marketEvents, content, rng)
+    : undefined;
+  if (marketEvents) {
+    applyMarketEvents(marketEvents, herbDailyPrices, potionDailyDemands);
+  }
 
   return {
+    seed: config.seed,
     herbDailyPrices,
     potionDailyDemands,
     herbTierBasePrices: config.herbTierBasePrices,
+    marketMechanism: config.marketMechanism,
+    demandCurve: config.demandCurve,
+    herbDailySupplies,
+    herbPriceImpact: config.herbSupply?.priceImpact,
+    spoilage: config.spoilage,
+    dynamicDemand: config.dynamicDemand,
+    marketEvents,
+    forecastEvents: config.marketEvents?.forecast,
+    herbPriceModel: config.herbPriceModel,
+    potionDemandModel: config.potionDemandModel,
+    contentPack: config.contentPack,
+    playerTrading: config.playerTrading,
+    credit: config.credit,
+    standingOrders: config.standingOrders,
+    herbSellBack: config.herbSellBack,
+    finalScoring: config.finalScoring,
+    fees: config.fees,
+    notebook: config.notebook,
   };
 }
 
-export function initializeGameState(config: RuntimeConfig): GameState {
+// The market rules a game is played under, with mechanism defaults applied
+export function getGameRules(game: Game): GameRules {
+  const marketMechanism = game.marketMechanism ?? DEFAULT_MARKET_MECHANISM;
+  return {
+    marketMechanism,
+    demandCurve:
+      game.demandCurve ??
+      MARKET_MECHANISMS[marketMechanism].defaultDemandCurve?.(
+        game.herbTierBasePrices
+      ),
+    herbPriceImpact: game.herbDailySupplies ? game.herbPriceImpact : undefined,
+    spoilage: game.spoilage,
+    dynamicDemand: game.dynamicDemand,
+    herbPriceModel: game.herbPriceModel,
+    potionDemandModel: game.potionDemandModel,
+    contentPack: game.contentPack,
+    playerTrading: game.playerTrading,
+    credit: game.credit,
+    standingOrders: game.standingOrders,
+    herbSellBack: game.herbSellBack,
+    finalScoring: game.finalScoring,
+    fees: game.fees,
+    notebook: game.notebook,
+  };
+}
+
+export function initializeGameState(
+  config: RuntimeConfig,
+  contentPack?: ContentPack
+): GameState {
+  const content = getContent(contentPack);
   return {
     currentDay: 1,
     playerInventories: config.players.map(() => ({
-      ...initializePlayerInventory(config),
+      ...initializePlayerInventory(config, content),
     })),
     historicDemands: [],
     lastDayErrorsByPlayer: [],
     processedMarketByDay: [],
     unprocessedOffersByDay: [],
     dayRecords: [],
+    contentPack,
   };
 }
 
@@ -70,6 +177,12 @@ export function getPlayerInputs(
       herbsBought: playerActions.actualBuyHerbs,
       potionsMade: playerActions.actualMakePotions,
       sales: playerActions.salesResults,
+      spoiled: playerActions.spoiled,
+      storageFee: playerActions.storageFee,
+      trades: playerActions.trades,
+      loan: playerActions.loan,
+      herbSales: playerActions.herbSales,
+      stallRent: playerActions.stallRent,
       errors: playerActions.errors,
     });
   }
@@ -102,33 +215,194 @@ export function getPlayerInputs(
   return {
     inventory: gameState.playerInventories[playerIdx],
     dailyPrices: game.herbDailyPrices[dayIndex],
+    dailySupplies: game.herbDailySupplies?.[dayIndex],
+    expiringTonight: game.spoilage
+      ? getExpiringTonight(
+          gameState.inventoryAges?.[playerIdx] ?? createEmptyAges(),
+          game.spoilage
+        )
+      : undefined,
+    activeEvents: game.marketEvents
+      ? getActiveEvents(game.marketEvents, day)
+      : undefined,
+    upcomingEvents: game.forecastEvents
+      ? getEventsStartingOn(game.marketEvents, day + 1)
+      : undefined,
     historicMarkets,
+    historicDemands: gameState.historicDemands,
+    ...(game.playerTrading && getTradeInputs(config, gameState, playerIdx)),
+    openOrders: game.standingOrders
+      ? (gameState.orderBook ?? []).filter(
+          (order) => order.playerIdx === playerIdx
+        )
+      : undefined,
+    notes: game.notebook
+      ? gameState.playerNotes?.[playerIdx] ?? ""
+      : undefined,
     actionHistory,
     meta: {
       playCount: config.runtime.players.length,
       totalDays: config.generation.days,
       currentDay: day,
     },
+    rules: getGameRules(game),
   };
 }
 
+// Who a player can trade with, and what was offered to them yesterday
+function getTradeInputs(
+  config: GameConfig,
+  gameState: GameState,
+  playerIdx: number
+): Pick<PlayerInputs, "tradePartners" | "tradeOffersToYou"> {
+  const tradePartners = config.runtime.players
+    .map((player, idx) => ({
+      playerIdx: idx,
+      name: gameState.playerNames?.[idx] ?? player.name,
+    }))
+    .filter((partner) => partner.playerIdx !== playerIdx);
+
+  const tradeOffersToYou = (gameState.openTrades ?? []).flatMap(
+    (orders, idx) =>
+      orders
+        .filter((order) => order.playerIdx === playerIdx)
+        .map((order) => ({ ...order, playerIdx: idx }))
+  );
+  return { tradePartners, tradeOffersToYou };
+}
+
 export function processGameDay(
   playerOutputs: PlayerOutputs[],
   gameState: GameState,
   game: Game,
-  playerReasonings?: (string | undefined)[]
+  playerReasonings?: (string | undefined)[],
+  playerToolTranscripts?: (ToolCallRecord[] | undefined)[],
+  playerPlanRevisions?: (PlanRevision[] | undefined)[]
 ): GameState {
   const dayIndex = gameState.currentDay - 1;
+  const content = getContent(game.contentPack);
   const herbPrices = game.herbDailyPrices[dayIndex];
-  const potionDemands = game.potionDailyDemands[dayIndex];
+  const potionDemands = getRealizedDemands(
+    game.potionDailyDemands[dayIndex],
+    gameState,
+    game.dynamicDemand
+  );
+  const herbSupplies = game.herbDailySupplies?.[dayIndex];
 
   const newGameState = {
     ...gameState,
     playerInventories: [] as PlayerInventory[],
     lastDayErrorsByPlayer: [] as string[][],
+    historicDemands: [...gameState.historicDemands, potionDemands],
     dayRecords: [...gameState.dayRecords],
   };
 
+  // Credit phase - loans are paid out before anything else happens
+  const tradedInventories = gameState.playerInventories.map((inventory) =>
+    cloneDeep(inventory)
+  );
+  const borrowings = game.credit
+    ? tradedInventories.map((inventory, idx) =>
+        applyBorrowing(inventory, playerOutputs[idx].loan, game.credit!)
+      )
+    : undefined;
+
+  // Trading phase - private deals between players before anyone buys herbs
+  const settledTrades = game.playerTrading
+    ? settleTrades(
+        playerOutputs.map((output) => output.trades),
+        tradedInventories,
+        content,
+        gameState.openTrades
+      )
+    : undefined;
+
+  // Standing order phase - cancels first, then today's new orders. Herb buys
+  // join the book straight away; sell orders wait for their potions
+  let orderBook = cloneDeep(gameState.orderBook ?? []);
+  const orderFills: StandingOrderFill[] = [];
+  const orderReturns: Partial<Record<PotionId, number>>[] = [];
+  const orderReturnAges: Partial<Record<PotionId, number[]>>[] = [];
+  const orderErrors: string[][] = [];
+  const newSellOrders: StandingOrder[][] = [];
+  if (game.standingOrders) {
+    playerOutputs.forEach((playerOutput, idx) => {
+      const cancelled = cancelStandingOrders(
+        orderBook,
+        idx,
+        playerOutput.cancelOrders ?? [],
+        tradedInventories[idx],
+        gameState.currentDay
+      );
+      const created = createStandingOrders(
+        playerOutput.standingOrders ?? [],
+        idx,
+        gameState.currentDay,
+        content
+      );
+      orderBook = [
+        ...cancelled.book,
+        ...created.orders.filter((order) => order.type === "buy-herb"),
+      ];
+      newSellOrders.push(
+        created.orders.filter((order) => order.type === "sell-potion")
+      );
+      orderReturns.push(cancelled.returned);
+      orderReturnAges.push(cancelled.returnedAges);
+      orderErrors.push([...cancelled.errors, ...created.errors]);
+    });
+  }
+  const standingBuys = playerOutputs.map((_, idx) =>
+    game.standingOrders
+      ? getTriggeredHerbBuys(orderBook, idx, herbPrices)
+      : []
+  );
+  // What each player wants from the herb market, standing buys included
+  const herbOrders = playerOutputs.map((playerOutput, idx) => ({
+    ...playerOutput,
+    buyHerbs: [
+      ...playerOutput.buyHerbs,
+      ...standingBuys[idx].map(({ herbId, remaining }) => ({
+        herbId,
+        qty: remaining,
+      })),
+    ],
+  }));
+
+  // Herb supply phase - share limited stock before anyone buys. Players only
+  // claim what they can pay for, so the price impact counts units bought.
+  // Claims are checked again at the impacted prices; stock a player can no
+  // longer afford passes on to the others.
+  const herbRequests = playerOutputs.map((playerOutput, idx) => [
+    ...playerOutput.buyHerbs,
+    ...standingBuys[idx].map(({ herbId, remaining, maxPrice }) => ({
+      herbId,
+      qty: remaining,
+      maxPrice,
+    })),
+  ]);
+  const allocateAt = (prices: Record<HerbId, number>) =>
+    allocateHerbSupply(
+      herbRequests.map((requests, idx) =>
+        getAffordableRequests(requests, tradedInventories[idx].gold, prices)
+      ),
+      herbSupplies!
+    );
+  const impactAt = (allocations: Record<HerbId, number>[]) =>
+    applyHerbPriceImpact(
+      herbPrices,
+      herbSupplies!,
+      allocations,
+      game.herbPriceImpact ?? 0
+    );
+  const firstAllocations = herbSupplies ? allocateAt(herbPrices) : undefined;
+  const herbAllocations = firstAllocations
+    ? allocateAt(impactAt(firstAllocations))
+    : undefined;
+  const herbPurchasePrices = herbAllocations
+    ? impactAt(herbAllocations)
+    : herbPrices;
+
   const offers = [] as PotionOffer[][];
   const playerInventoriesBeforeMarketProcessing = [] as PlayerInventory[];
   const playerDayActions: PlayerDayActions[] = [];
@@ -144,12 +418,105 @@ export function processGameDay(
       executableOffers,
       actualBuyHerbs,
       actualMakePotions,
+      standingBuyFills,
     } = sanitizePlayerOutputsDetailed(
-      cloneDeep(gameState.playerInventories[idx]),
+      tradedInventories[idx],
       playerOutput,
-      herbPrices,
-      game.herbTierBasePrices
+      herbPurchasePrices,
+      game.herbTierBasePrices,
+      herbAllocations?.[idx],
+      content,
+      // Own stream per player and day, so crafting never shifts other draws
+      new Random(`${game.seed ?? ""}:craft:${gameState.currentDay}:${idx}`),
+      standingBuys[idx].map(({ herbId, remaining, maxPrice }) => ({
+        herbId,
+        qty: remaining,
+        maxPrice,
+      })),
+      game.fees?.listingFee
     );
+    standingBuys[idx].forEach((order, orderIdx) => {
+      const qty = standingBuyFills[orderIdx];
+      if (qty === 0) return;
+      order.remaining -= qty;
+      orderFills.push({
+        orderId: order.id,
+        playerIdx: idx,
+        itemId: order.herbId,
+        qty,
+        price: herbPurchasePrices[order.herbId],
+      });
+    });
+    // Herbs are sold back after crafting, before sell orders reserve potions
+    const herbSales = game.herbSellBack
+      ? sellHerbsBack(
+          inventory,
+          playerOutput.sellHerbs ?? [],
+          getSellBackPrices(herbPrices, game.herbSellBack.discount),
+          content
+        )
+      : undefined;
+    if (herbSales) {
+      errors.push(...herbSales.errors);
+    } else if (playerOutput.sellHerbs?.length) {
+      errors.push("Selling herbs back is not enabled. Sales ignored.");
+    }
+    const notebook = game.notebook
+      ? writeNotes(
+          gameState.playerNotes?.[idx] ?? "",
+          playerOutput.notes,
+          game.notebook
+        )
+      : undefined;
+    if (notebook) {
+      errors.push(...notebook.errors);
+    } else if (playerOutput.notes !== undefined) {
+      errors.push("The notebook is not enabled. Notes ignored.");
+    }
+    if (game.standingOrders) {
+      // Sell orders reserve what is left after crafting and today's offers
+      const startAges = gameState.inventoryAges?.[idx] ?? createEmptyAges();
+      const added = getAddedItems(
+        { trades: settledTrades?.trades[idx], actualBuyHerbs, actualMakePotions },
+        content
+      );
+      const reserved = reservePotions(
+        newSellOrders[idx],
+        inventory,
+        (potionId) =>
+          getMaxPotionPrice(potionId, game.herbTierBasePrices, content),
+        game.spoilage
+          ? (potionId, held, qty) =>
+              getReservedAges(
+                mergeAges(
+                  startAges.potions[potionId],
+                  orderReturnAges[idx][potionId]
+                ),
+                added.potions[potionId] ?? 0,
+                held,
+                qty
+              )
+          : undefined,
+        game.fees?.listingFee
+      );
+      orderBook.push(...reserved.orders);
+      errors.unshift(...orderErrors[idx], ...reserved.errors);
+    } else if (
+      playerOutput.standingOrders?.length ||
+      playerOutput.cancelOrders?.length
+    ) {
+      errors.unshift("Standing orders are not enabled. Orders ignored.");
+    }
+    if (settledTrades) {
+      errors.unshift(...settledTrades.errors[idx]);
+    } else if (playerOutput.trades?.length) {
+      errors.unshift("Player trading is not enabled. Trades ignored.");
+    }
+    if (borrowings) {
+      errors.unshift(...borrowings[idx].errors);
+    } else if (playerOutput.loan?.borrow || playerOutput.loan?.repay) {
+      errors.unshift("Borrowing is not enabled. Loan ignored.");
+    }
 
     newGameState.lastDayErrorsByPlayer.push(errors);
     newGameState.unprocessedOffersByDay.push(executableOffers);
@@ -162,20 +529,98 @@ export function processGameDay(
       requestedBuyHerbs: playerOutput.buyHerbs,
       requestedMakePotions: playerOutput.makePotions,
       requestedOffers: playerOutput.potionOffers,
+      requestedTrades: settledTrades
+        ? playerOutput.trades ?? []
+        : playerOutput.trades,
+      trades: settledTrades?.trades[idx],
+      requestedLoan: borrowings ? playerOutput.loan ?? {} : playerOutput.loan,
+      requestedStandingOrders: game.standingOrders
+        ? playerOutput.standingOrders ?? []
+        : playerOutput.standingOrders,
+      requestedCancels: game.standingOrders
+        ? playerOutput.cancelOrders ?? []
+        : playerOutput.cancelOrders,
+      requestedSellHerbs: herbSales
+        ? playerOutput.sellHerbs ?? []
+        : playerOutput.sellHerbs,
+      requestedNotes: playerOutput.notes,
       actualBuyHerbs,
       actualMakePotions,
       actualOffers: executableOffers,
+      herbSales: herbSales?.herbSales,
+      herbFills: herbAllocations
+        ? getHerbFills(herbOrders[idx], herbAllocations[idx], actualBuyHerbs)
+        : undefined,
       errors,
+      notes: notebook?.notes,
       endInventory: inventory, // Will be updated after market
       salesResults: [], // Will be populated after market
       reasoning: playerReasonings?.[idx],
+      toolTranscript: playerToolTranscripts?.[idx],
+      planRevisions: playerPlanRevisions?.[idx],
     });
   });
 
-  // Market phase
-  const market = buildMarket(offers);
-  const processedMarket = processMarket(market, potionDemands);
-  newGameState.processedMarketByDay.push(processedMarket);
+  // Market phase - standing sell orders are offered alongside today's offers
+  const market = buildMarket(
+    offers.map((playerOffers, idx) => [
+      ...playerOffers,
+      ...getStandingOffers(orderBook, idx, gameState.currentDay),
+    ]),
+    content
+  );
+  const processedMarket = processMarket(
+    market,
+    potionDemands,
+    game.herbTierBasePrices,
+    getGameRules(game),
+    content
+  );
+  newGameState.processedMarketByDay = [
+    ...gameState.processedMarketByDay,
+    processedMarket,
+  ];
+
+  const newInventoryAges = [] as InventoryAges[];
+
+  // Standing sells keep their unsold potions on the book; orders that are
+  // filled or expire today leave it, returning what is left
+  if (game.standingOrders) {
+    for (const offer of processedMarket.processedOffers) {
+      if (!offer.orderId) continue;
+      const order = orderBook.find((o) => o.id === offer.orderId)!;
+      order.remaining -= offer.actuallySold!;
+      if (offer.actuallySold! > 0) {
+        orderFills.push({
+          orderId: order.id,
+          playerIdx: order.playerIdx,
+          itemId: offer.potionId,
+          qty: offer.actuallySold!,
+          price: offer.salePrice ?? offer.price,
+        });
+      }
+    }
+    const closed = closeStandingOrders(
+      orderBook,
+      gameState.currentDay,
+      playerInventoriesBeforeMarketProcessing
+    );
+    orderBook = closed.book;
+    closed.returned.forEach(({ returned, returnedAges }, idx) => {
+      playerDayActions[idx].orderReturns = mergeWith(
+        {},
+        orderReturns[idx],
+        returned,
+        (a?: number, b?: number) => (a ?? 0) + (b ?? 0)
+      );
+      for (const [potionId, ages] of Object.entries(returnedAges)) {
+        orderReturnAges[idx][potionId as PotionId] = mergeAges(
+          orderReturnAges[idx][potionId as PotionId],
+          ages
+        );
+      }
+    });
+  }
 
   // Player Inventory phase - update end inventories and sales results
   const newPlayerInventories = playerInventoriesBeforeMarketProcessing.map(
@@ -186,19 +631,63 @@ export function processGameDay(
         .filter((offer) => offer.playerIdx === idx)
         .forEach((offer) => {
           // Add back unsold potions (potions were already removed when creating offers)
-          inventory.potions[offer.potionId] += offer.qty - offer.actuallySold!;
-          const revenue = offer.price * offer.actuallySold!;
-          inventory.gold += revenue;
+          if (!offer.orderId) {
+            inventory.potions[offer.potionId] +=
+              offer.qty - offer.actuallySold!;
+          }
+          const price = offer.salePrice ?? offer.price;
+          const revenue = price * offer.actuallySold!;
+          const tax = game.fees ? getSalesTax(revenue, game.fees) : 0;
+          inventory.gold += revenue - tax;
 
           playerSales.push({
             potionId: offer.potionId,
             offered: offer.qty,
             sold: offer.actuallySold!,
-            price: offer.price,
+            price,
             revenue,
+            ...(game.fees && { listingFee: offer.listingFee ?? 0, tax }),
           });
         });
 
+      // Evening: rent for the stall, if there was one today
+      if (game.fees) {
+        playerDayActions[idx].stallRent = chargeStallRent(
+          inventory,
+          playerSales.some((sale) => sale.offered > 0),
+          game.fees
+        );
+      }
+
+      // Overnight: stock ages, expired stock spoils, storage is paid
+      if (game.spoilage) {
+        const { ages, spoiled, storageFee } = applySpoilage(
+          gameState.inventoryAges?.[idx] ?? createEmptyAges(),
+          inventory,
+          getAddedItems(playerDayActions[idx], content),
+          game.spoilage,
+          orderReturnAges[idx]
+        );
+        newInventoryAges.push(ages);
+        playerDayActions[idx].spoiled = spoiled;
+        playerDayActions[idx].storageFee = storageFee;
+      }
+
+      // Evening: repay loans, then interest accrues on what is still owed
+      if (game.credit) {
+        const { repaid, interest, errors } = applyRepaymentAndInterest(
+          inventory,
+          playerOutputs[idx].loan,
+          game.credit
+        );
+        playerDayActions[idx].errors.push(...errors);
+        playerDayActions[idx].loan = {
+          borrowed: borrowings![idx].borrowed,
+          repaid,
+          interest,
+        };
+      }
+
       // Update player day actions with final data
       playerDayActions[idx].endInventory = cloneDeep(inventory);
       playerDayActions[idx].salesResults = playerSales;
@@ -211,13 +700,40 @@ export function processGameDay(
   const dayRecord: DayRecord = {
     day: gameState.currentDay,
     herbPrices,
+    herbSupplies,
+    herbPurchasePrices: herbSupplies ? herbPurchasePrices : undefined,
     potionDemands,
+    events: game.marketEvents
+      ? getActiveEvents(game.marketEvents, gameState.currentDay)
+      : undefined,
     playerActions: playerDayActions,
     marketSummary: processedMarket,
+    standingOrderFills: game.standingOrders ? orderFills : undefined,
   };
 
   newGameState.dayRecords.push(dayRecord);
   newGameState.playerInventories = newPlayerInventories;
+  if (game.spoilage) newGameState.inventoryAges = newInventoryAges;
+  if (game.standingOrders) newGameState.orderBook = orderBook;
+  if (settledTrades) newGameState.openTrades = settledTrades.open;
+  if (game.notebook) {
+    newGameState.playerNotes = playerDayActions.map(
+      (actions) => actions.notes ?? ""
+    );
+  }
+  // The last day settles the final standings
+  if (gameState.currentDay === game.herbDailyPrices.length) {
+    newGameState.finalStandings = getFinalStandings(
+      newPlayerInventories,
+      game.finalScoring ?? "gold",
+      getLiquidationPrices(
+        herbPrices,
+        game.herbSellBack?.discount ?? DEFAULT_LIQUIDATION_DISCOUNT,
+        content
+      ),
+      orderBook
+    );
+  }
   newGameState.currentDay = gameState.currentDay + 1;
   return newGameState;
 }
@@ -225,30 +741,34 @@ export function processGameDay(
 // Price multiplier for max offer price (5x herb cost)
 const MAX_PRICE_MULTIPLIER = 5;
 
-// Get the tier of a herb
-function getHerbTier(herbId: HerbId): Tier {
-  if (HERB_TIERS.T1.includes(herbId)) return "T1";
-  if (HERB_TIERS.T2.includes(herbId)) return "T2";
-  return "T3";
-}
-
 // Calculate max price for a potion based on its recipe herbs' base prices
 function getMaxPotionPrice(
   potionId: PotionId,
-  herbTierBasePrices: Record<Tier, number>
+  herbTierBasePrices: Record<Tier, number>,
+  content: Content
 ): number {
-  const recipe = RECIPES[potionId];
-  // All herbs in a recipe are same tier, so just get tier from first herb
-  const tier = getHerbTier(recipe[0]);
-  // Max price = multiplier * (2 herbs * base price per herb)
-  return MAX_PRICE_MULTIPLIER * 2 * herbTierBasePrices[tier];
+  const recipe = content.recipes[potionId];
+  // Max price = multiplier * base herb cost of one potion, at least 1g even
+  // for big yields of cheap herbs
+  const herbCost = recipe.ingredients.reduce(
+    (sum, { herbId, qty }) =>
+      sum + qty * herbTierBasePrices[content.herbTierLookup[herbId]],
+    0
+  );
+  return Math.max(
+    1,
+    Math.round((MAX_PRICE_MULTIPLIER * herbCost) / recipe.yield)
+  );
 }
 
 export function sanitizePlayerOutputs(
   playerInventory: PlayerInventory,
   outputs: PlayerOutputs,
   dailyPrices: Record<HerbId, number>,
-  herbTierBasePrices?: Record<Tier, number>
+  herbTierBasePrices?: Record<Tier, number>,
+  herbAllocation?: Record<HerbId, number>,
+  content: Content = getContent(),
+  rng?: Random
 ): {
   inventory: PlayerInventory;
   errors: string[];
@@ -258,7 +778,10 @@ export function sanitizePlayerOutputs(
     playerInventory,
     outputs,
     dailyPrices,
-    herbTierBasePrices
+    herbTierBasePrices,
+    herbAllocation,
+    content,
+    rng
   );
   return {
     inventory: result.inventory,
@@ -271,66 +794,112 @@ export function sanitizePlayerOutputsDetailed(
   playerInventory: PlayerInventory,
   outputs: PlayerOutputs,
   dailyPrices: Record<HerbId, number>,
-  herbTierBasePrices?: Record<Tier, number>
+  herbTierBasePrices?: Record<Tier, number>,
+  herbAllocation?: Record<HerbId, number>, // Max units per herb when supply is limited
+  content: Content = getContent(),
+  rng?: Random, // Decides crafting failures; without it crafts never fail
+  standingBuys: { herbId: HerbId; qty: number; maxPrice: number }[] = [],
+  listingFee = 0 // Gold per offer posted (see lib/fees.ts)
 ): {
   inventory: PlayerInventory;
   errors: string[];
   executableOffers: PotionOffer[];
   actualBuyHerbs: { herbId: HerbId; qty: number; cost: number }[];
-  actualMakePotions: { potionId: PotionId; qty: number }[];
+  actualMakePotions: PlayerDayActions["actualMakePotions"];
+  standingBuyFills: number[]; // Units bought per standing buy
 } {
   const errors: string[] = [];
   const actualBuyHerbs: { herbId: HerbId; qty: number; cost: number }[] = [];
-  const actualMakePotions: { potionId: PotionId; qty: number }[] = [];
+  const actualMakePotions: PlayerDayActions["actualMakePotions"] = [];
 
   let gold = playerInventory.gold;
+  const herbsLeft = herbAllocation ? { ...herbAllocation } : undefined;
 
-  // Buy herbs
-  for (const herbOrder of outputs.buyHerbs) {
-    const herbPrice = dailyPrices[herbOrder.herbId];
-    const boughtHerbs = Math.min(herbOrder.qty, Math.floor(gold / herbPrice));
+  // Buy as much of an order as gold and supply allow
+  const buyHerbs = (herbId: HerbId, qty: number) => {
+    const herbPrice = dailyPrices[herbId];
+    const affordable = Math.floor(gold / herbPrice);
+    const available = herbsLeft ? herbsLeft[herbId] : Number.POSITIVE_INFINITY;
+    const boughtHerbs = Math.min(qty, affordable, available);
     const cost = boughtHerbs * herbPrice;
     gold -= cost;
-    playerInventory.herbs[herbOrder.herbId] += boughtHerbs;
+    if (herbsLeft) herbsLeft[herbId] -= boughtHerbs;
+    playerInventory.herbs[herbId] += boughtHerbs;
 
     if (boughtHerbs > 0) {
-      actualBuyHerbs.push({
-        herbId: herbOrder.herbId,
-        qty: boughtHerbs,
-        cost,
-      });
+      actualBuyHerbs.push({ herbId, qty: boughtHerbs, cost });
+    }
+    return { boughtHerbs, affordable, available };
+  };
+
+  // Buy herbs
+  for (const herbOrder of outputs.buyHerbs) {
+    if (!isHerbId(content, herbOrder.herbId)) {
+      errors.push(`Unknown herb ${herbOrder.herbId}. Order ignored.`);
+      continue;
     }
+    const { boughtHerbs, affordable, available } = buyHerbs(
+      herbOrder.herbId,
+      herbOrder.qty
+    );
 
     if (boughtHerbs !== herbOrder.qty) {
       errors.push(
-        `Not enough gold to buy ${herbOrder.qty} ${herbOrder.herbId}. Bought ${boughtHerbs} herbs.`
+        available < affordable
+          ? `Only ${available} ${herbOrder.herbId} available to you (limited supply). Bought ${boughtHerbs} herbs.`
+          : `Not enough gold to buy ${herbOrder.qty} ${herbOrder.herbId}. Bought ${boughtHerbs} herbs.`
       );
     }
   }
+
+  // Standing herb buys after the player's own orders; a partial fill is not
+  // an error, the rest stays on the book
+  const standingBuyFills = standingBuys.map(({ herbId, qty, maxPrice }) =>
+    dailyPrices[herbId] <= maxPrice ? buyHerbs(herbId, qty).boughtHerbs : 0
+  );
   playerInventory.gold = gold;
 
   // Make potions
   for (const potionOrder of outputs.makePotions) {
-    const [herb1, herb2] = RECIPES[potionOrder.potionId];
-    const makeQty = Math.min(
+    if (!isPotionId(content, potionOrder.potionId)) {
+      errors.push(`Unknown potion ${potionOrder.potionId}. Order ignored.`);
+      continue;
+    }
+    // Each unit ordered is one craft: it uses the recipe's herbs and, unless
+    // it fails, produces the recipe's yield
+    const recipe = content.recipes[potionOrder.potionId];
+    const crafts = Math.min(
       potionOrder.qty,
-      playerInventory.herbs[herb1],
-      playerInventory.herbs[herb2]
+      ...recipe.ingredients.map(({ herbId, qty }) =>
+        Math.floor(playerInventory.herbs[herbId] / qty)
+      )
     );
-    playerInventory.herbs[herb1] -= makeQty;
-    playerInventory.herbs[herb2] -= makeQty;
-    playerInventory.potions[potionOrder.potionId] += makeQty;
+    for (const { herbId, qty } of recipe.ingredients) {
+      playerInventory.herbs[herbId] -= crafts * qty;
+    }
+    let failed = 0;
+    if (rng && recipe.failureChance > 0) {
+      for (let i = 0; i < crafts; i++) {
+        if (rng.float(0, 1) < recipe.failureChance) failed++;
+      }
+    }
+    const made = (crafts - failed) * recipe.yield;
+    playerInventory.potions[potionOrder.potionId] += made;
 
-    if (makeQty > 0) {
+    if (crafts > 0) {
       actualMakePotions.push({
         potionId: potionOrder.potionId,
-        qty: makeQty,
+        qty: made,
+        ...(crafts !== made && { crafts }),
+        ...(failed > 0 && { failed }),
       });
     }
 
-    if (makeQty !== potionOrder.qty) {
+    if (crafts !== potionOrder.qty) {
       errors.push(
-        `Not enough herbs to make ${potionOrder.qty} ${potionOrder.potionId}. Made ${makeQty} potions.`
+        recipe.yield === 1
+          ? `Not enough herbs to make ${potionOrder.qty} ${potionOrder.potionId}. Made ${crafts} potions.`
+          : `Not enough herbs for ${potionOrder.qty} crafts of ${potionOrder.potionId}. Crafted ${crafts} times.`
       );
     }
   }
@@ -338,17 +907,31 @@ export function sanitizePlayerOutputsDetailed(
   // Create offers
   const executableOffers: PotionOffer[] = [];
   for (const potionOffer of outputs.potionOffers) {
+    if (!isPotionId(content, potionOffer.potionId)) {
+      errors.push(`Unknown potion ${potionOffer.potionId}. Offer ignored.`);
+      continue;
+    }
     const offeredPotions = Math.min(
       potionOffer.qty,
       playerInventory.potions[potionOffer.potionId]
     );
+    if (listingFee > 0 && offeredPotions > 0) {
+      if (playerInventory.gold < listingFee) {
+        errors.push(
+          `Not enough gold for the ${listingFee}g listing fee. Offer of ${potionOffer.potionId} ignored.`
+        );
+        continue;
+      }
+      playerInventory.gold -= listingFee;
+    }
 
     // Cap price based on base herb costs (5x herb cost) - silent cap by design
     let finalPrice = potionOffer.price;
     if (herbTierBasePrices) {
       const maxPrice = getMaxPotionPrice(
         potionOffer.potionId,
-        herbTierBasePrices
+        herbTierBasePrices,
+        content
       );
       finalPrice = Math.min(potionOffer.price, maxPrice);
     }
@@ -358,6 +941,7 @@ export function sanitizePlayerOutputsDetailed(
       potionId: potionOffer.potionId,
       price: finalPrice,
       qty: offeredPotions,
+      ...(listingFee > 0 && offeredPotions > 0 && { listingFee }),
     });
     if (offeredPotions !== potionOffer.qty) {
       errors.push(
@@ -372,126 +956,192 @@ export function sanitizePlayerOutputsDetailed(
     executableOffers,
     actualBuyHerbs,
     actualMakePotions,
+    standingBuyFills,
+  };
+}
+
+function processMarket(
+  market: Record<PotionId, PotionOffer[]>,
+  demands: Record<PotionId, number>,
+  herbTierBasePrices: Record<Tier, number>,
+  rules: GameRules,
+  content: Content
+): ProcessedMarket {
+  const potionInformation = {} as ProcessedMarket["potionInformation"];
+  const processedOffers = [] as PotionOffer[];
+  const { clear } = MARKET_MECHANISMS[rules.marketMechanism];
+
+  Object.entries(demands).forEach(([potionId, demand]) => {
+    const offers = market[potionId as PotionId] || [];
+    const tier = content.potionTierLookup[potionId];
+    const processedOffersForPotion = clear(
+      offers,
+      (price) => demandAtPrice(rules.demandCurve, demand, tier, price),
+      getMaxPotionPrice(potionId, herbTierBasePrices, content)
+    );
+
+    const salePrices = processedOffersForPotion
+      .filter((offer) => offer.actuallySold! > 0)
+      .map((offer) => offer.salePrice ?? offer.price);
+    const fulfilled = processedOffersForPotion.reduce(
+      (sum, offer) => sum + offer.actuallySold!,
+      0
+    );
+
+    processedOffers.push(...processedOffersForPotion);
+    potionInformation[potionId as PotionId] = {
+      fulfilled,
+      remaining: Math.max(0, demand - fulfilled),
+      highestPrice: salePrices.length > 0 ? Math.max(...salePrices) : 0,
+      lowestPrice: salePrices.length > 0 ? Math.min(...salePrices) : 0,
+    };
+  });
+
+  return {
+    mechanism: rules.marketMechanism,
+    processedOffers,
+    potionInformation,
   };
 }
 
+// Stock that entered a player's inventory today (for spoilage ages). Traded
+// items count as fresh: ages are not passed between players. Potions back
+// from standing orders keep their own ages and are not added here.
+function getAddedItems(
+  actions: Pick<
+    PlayerDayActions,
+    "trades" | "actualBuyHerbs" | "actualMakePotions"
+  >,
+  content: Content
+): ItemQuantities {
+  const added: ItemQuantities = { herbs: {}, potions: {} };
+  for (const { side, itemId, qty } of actions.trades ?? []) {
+    if (side !== "buy") continue;
+    const items = isHerbId(content, itemId) ? added.herbs : added.potions;
+    items[itemId] = (items[itemId] ?? 0) + qty;
+  }
+  for (const { herbId, qty } of actions.actualBuyHerbs) {
+    added.herbs[herbId] = (added.herbs[herbId] ?? 0) + qty;
+  }
+  for (const { potionId, qty } of actions.actualMakePotions) {
+    added.potions[potionId] = (added.potions[potionId] ?? 0) + qty;
+  }
+  return added;
+}
+
 /**
- * Splits demand evenly among offers, respecting each offer's max qty.
- * Remainder distributed by player index order.
- * Returns array of [offer, soldQty] pairs.
+ * Split `total` units between requests as evenly as possible without giving
+ * anyone more than they asked for. Remainder goes in index order.
  */
-function allocateEvenSplit(
-  offers: PotionOffer[],
-  demand: number
-): { offer: PotionOffer; sold: number }[] {
-  // Sort by player index for deterministic remainder distribution
-  const sorted = [...offers].sort(
-    (a, b) => (a.playerIdx ?? 0) - (b.playerIdx ?? 0)
-  );
-  const result = sorted.map((offer) => ({ offer, sold: 0 }));
-  let left = demand;
+function splitEvenly(requests: number[], total: number): number[] {
+  const given = requests.map(() => 0);
+  let left = total;
 
   while (left > 0) {
-    const active = result.filter((r) => r.sold < r.offer.qty);
+    const active = requests
+      .map((_, idx) => idx)
+      .filter((idx) => given[idx] < requests[idx]);
     if (active.length === 0) break;
 
-    const share = Math.floor(left / active.length);
-    let given = 0;
-
-    for (const r of active) {
-      const take = Math.min(share || 1, r.offer.qty - r.sold, left - given);
-      r.sold += take;
-      given += take;
+    const share = Math.max(1, Math.floor(left / active.length));
+    for (const idx of active) {
+      const take = Math.min(share, requests[idx] - given[idx], left);
+      given[idx] += take;
+      left -= take;
     }
-
-    left -= given;
-    if (given === 0) break;
   }
 
-  return result;
+  return given;
 }
 
-function processMarket(
-  market: Record<PotionId, PotionOffer[]>,
-  demands: Record<PotionId, number>
-) {
-  const potionInformation = {} as Record<
-    PotionId,
-    {
-      fulfilled: number;
-      remaining: number;
-      highestPrice: number;
-      lowestPrice: number;
-    }
-  >;
-  const processedOffers = [] as PotionOffer[];
-
-  Object.entries(demands).forEach(([potionId, demand]) => {
-    const offers = market[potionId as PotionId] || [];
-    const processedOffersForPotion: PotionOffer[] = [];
-    let remaining = demand;
-    let lowestPrice = 0;
-    let highestPrice = 0;
-
-    // Group offers by price for fair allocation
-    let i = 0;
-    while (i < offers.length && remaining > 0) {
-      const currentPrice = offers[i].price;
-
-      // Collect all offers at this price level
-      const samePriceOffers: PotionOffer[] = [];
-      while (i < offers.length && offers[i].price === currentPrice) {
-        samePriceOffers.push(offers[i]);
-        i++;
-      }
+// Share each herb's daily supply among the players who ordered it
+function allocateHerbSupply(
+  playerRequests: { herbId: HerbId; qty: number }[][],
+  supplies: Record<HerbId, number>
+): Record<HerbId, number>[] {
+  const allocations = playerRequests.map(
+    () => mapValues(supplies, () => 0) as Record<HerbId, number>
+  );
 
-      const totalQtyAtPrice = samePriceOffers.reduce((s, o) => s + o.qty, 0);
+  for (const [herbId, supply] of Object.entries(supplies)) {
+    const requests = playerRequests.map((orders) =>
+      orders
+        .filter((order) => order.herbId === herbId)
+        .reduce((sum, order) => sum + order.qty, 0)
+    );
+    splitEvenly(requests, supply).forEach((qty, idx) => {
+      allocations[idx][herbId as HerbId] = qty;
+    });
+  }
 
-      if (totalQtyAtPrice <= remaining) {
-        // All offers fully satisfied
-        for (const offer of samePriceOffers) {
-          processedOffersForPotion.push({ ...offer, actuallySold: offer.qty });
-          if (offer.qty > 0) {
-            if (lowestPrice === 0) lowestPrice = currentPrice;
-            highestPrice = currentPrice;
-          }
-        }
-        remaining -= totalQtyAtPrice;
-      } else {
-        // Split demand evenly among same-price offers
-        const allocated = allocateEvenSplit(samePriceOffers, remaining);
-        for (const { offer, sold } of allocated) {
-          processedOffersForPotion.push({ ...offer, actuallySold: sold });
-          if (sold > 0) {
-            if (lowestPrice === 0) lowestPrice = offer.price;
-            highestPrice = offer.price;
-          }
-        }
-        remaining = 0;
-      }
-    }
+  return allocations;
+}
 
-    // Remaining offers get 0 sales
-    while (i < offers.length) {
-      processedOffersForPotion.push({ ...offers[i], actuallySold: 0 });
-      i++;
-    }
+/**
+ * Cut a player's herb orders to what `gold` pays for at `prices`, taken in
+ * order as they are bought. Standing buys above their max price get nothing.
+ */
+function getAffordableRequests(
+  requests: { herbId: HerbId; qty: number; maxPrice?: number }[],
+  gold: number,
+  prices: Record<HerbId, number>
+): { herbId: HerbId; qty: number }[] {
+  let left = gold;
+  return requests.map(({ herbId, qty, maxPrice }) => {
+    const price = prices[herbId];
+    if (!(price > 0)) return { herbId, qty };
+    const affordable =
+      maxPrice !== undefined && price > maxPrice ? 0 : Math.floor(left / price);
+    const claimed = Math.min(qty, affordable);
+    left -= claimed * price;
+    return { herbId, qty: claimed };
+  });
+}
 
-    const fulfilled = demand - remaining;
-    processedOffers.push(...processedOffersForPotion);
-    potionInformation[potionId as PotionId] = {
-      fulfilled,
-      remaining,
-      highestPrice,
-      lowestPrice,
-    };
+// Day's herb prices after volume impact: the more of a herb's supply is
+// bought, the more every buyer pays for it
+function applyHerbPriceImpact(
+  prices: Record<HerbId, number>,
+  supplies: Record<HerbId, number>,
+  allocations: Record<HerbId, number>[],
+  priceImpact: number
+): Record<HerbId, number> {
+  if (priceImpact <= 0) return prices;
+  return mapValues(prices, (price, herbId) => {
+    const supply = supplies[herbId as HerbId];
+    if (supply <= 0) return price;
+    const bought = allocations.reduce(
+      (sum, allocation) => sum + allocation[herbId as HerbId],
+      0
+    );
+    return Math.round(price * (1 + (priceImpact * bought) / supply));
   });
+}
 
-  return { processedOffers, potionInformation };
+// Requested vs. allocated vs. bought, for every herb the player ordered
+function getHerbFills(
+  outputs: PlayerOutputs,
+  allocation: Record<HerbId, number>,
+  actualBuyHerbs: { herbId: HerbId; qty: number }[]
+): NonNullable<PlayerDayActions["herbFills"]> {
+  const herbIds = [...new Set(outputs.buyHerbs.map((order) => order.herbId))];
+  return herbIds.map((herbId) => ({
+    herbId,
+    requested: outputs.buyHerbs
+      .filter((order) => order.herbId === herbId)
+      .reduce((sum, order) => sum + order.qty, 0),
+    allocated: allocation[herbId],
+    bought: actualBuyHerbs
+      .filter((buy) => buy.herbId === herbId)
+      .reduce((sum, buy) => sum + buy.qty, 0),
+  }));
 }
 
-export function buildMarket(executedOffers: PotionOffer[][]) {
-  const market = Object.keys(POTION_NAMES).reduce((acc, potionId) => {
+export function buildMarket(
+  executedOffers: PotionOffer[][],
+  content: Content = getContent()
+) {
+  const market = content.potionIds.reduce((acc, potionId) => {
     acc[potionId as PotionId] = [];
     return acc;
   }, {} as Record<PotionId, PotionOffer[]>);
@@ -507,13 +1157,16 @@ export function buildMarket(executedOffers: PotionOffer[][]) {
   return sortedMarket;
 }
 
-function initializePlayerInventory(config: RuntimeConfig): PlayerInventory {
+function initializePlayerInventory(
+  config: RuntimeConfig,
+  content: Content
+): PlayerInventory {
   return {
-    herbs: Object.keys(HERB_NAMES).reduce((acc, herb) => {
+    herbs: content.herbIds.reduce((acc, herb) => {
       acc[herb as HerbId] = 0;
       return acc;
     }, {} as Record<HerbId, number>),
-    potions: Object.keys(POTION_NAMES).reduce((acc, potion) => {
+    potions: content.potionIds.reduce((acc, potion) => {
       acc[potion as PotionId] = 0;
       return acc;
     }, {} as Record<PotionId, number>),
@@ -521,9 +1174,13 @@ function initializePlayerInventory(config: RuntimeConfig): PlayerInventory {
   };
 }
 
-function createHerbBasePrices(config: GenerationConfig, rng: Random) {
+function createHerbBasePrices(
+  config: GenerationConfig,
+  content: Content,
+  rng: Random
+) {
   const prices = {} as Record<HerbId, number>;
-  for (const [tier, herbs] of Object.entries(HERB_TIERS)) {
+  for (const [tier, herbs] of Object.entries(content.herbTiers)) {
     const tierBasePrice = config.herbTierBasePrices[tier as Tier];
     const tierBasePriceSpread = config.herbTierBasePriceSpread[tier as Tier];
     for (const herb of herbs) {
@@ -536,24 +1193,52 @@ function createHerbBasePrices(config: GenerationConfig, rng: Random) {
   return prices;
 }
 
-function createHerbDailyPrices(config: GenerationConfig, rng: Random) {
-  const basePrices = createHerbBasePrices(config, rng);
-  const dayPrices = [] as Array<Record<HerbId, number>>;
+function createHerbDailyPrices(
+  config: GenerationConfig,
+  content: Content,
+  rng: Random
+) {
+  const basePrices = createHerbBasePrices(config, content, rng);
+  return generateDailySeries(
+    basePrices,
+    (herbId) => content.herbTierLookup[herbId],
+    config.days,
+    config.herbDailyPriceSpread,
+    config.herbPriceModel,
+    rng
+  ).map((prices) => mapValues(prices, (price) => Math.round(price)));
+}
+
+function createHerbDailySupplies(
+  config: GenerationConfig,
+  supply: HerbSupplyConfig,
+  content: Content,
+  rng: Random
+) {
+  // Same player scaling as potion demand, so competition stays comparable
+  const playerScaling = 0.5 * config.playerCount;
+  const daySupplies = [] as Array<Record<HerbId, number>>;
   for (let day = 0; day < config.days; day++) {
-    const dailyPrices = {} as Record<HerbId, number>;
-    for (const [herb, basePrice] of Object.entries(basePrices)) {
-      const dailyPrice =
-        basePrice *
-        (1 +
-          rng.float(-config.herbDailyPriceSpread, config.herbDailyPriceSpread));
-      dailyPrices[herb as HerbId] = Math.round(dailyPrice);
+    const dailySupplies = {} as Record<HerbId, number>;
+    for (const [tier, herbs] of Object.entries(content.herbTiers)) {
+      for (const herb of herbs) {
+        const dailySupply =
+          supply.tierBaseSupplies[tier as Tier] *
+          playerScaling *
+          (1 + rng.float(-supply.dailySupplySpread, supply.dailySupplySpread));
+        dailySupplies[herb] = Math.max(0, Math.round(dailySupply));
+      }
     }
-    dayPrices.push(dailyPrices);
+    daySupplies.push(dailySupplies);
   }
-  return dayPrices;
+  return daySupplies;
 }
 
-function createPotionBaseDemands(config: GenerationConfig, rng: Random) {
+function createPotionBaseDemands(
+  config: GenerationConfig,
+  content: Content,
+  rng: Random
+) {
   const demands = {} as Record<PotionId, number>;
   // Scale demand by player count: 0.5 * playerCount
   // For 2 players: multiplier = 1.0 (same as base values)
@@ -561,7 +1246,7 @@ function createPotionBaseDemands(config: GenerationConfig, rng: Random) {
   // For 6 players: multiplier = 3.0 (triple demand)
   const playerScaling = 0.5 * config.playerCount;
 
-  for (const [tier, potions] of Object.entries(POTION_TIERS)) {
+  for (const [tier, potions] of Object.entries(content.potionTiers)) {
     const tierBaseDemand = config.potionTierBaseDemands[tier as Tier];
     const tierBaseDemandSpread =
       config.potionTierBaseDemandSpread[tier as Tier];
@@ -576,22 +1261,18 @@ function createPotionBaseDemands(config: GenerationConfig, rng: Random) {
   return demands;
 }
 
-function createPotionDailyDemands(config: GenerationConfig, rng: Random) {
-  const baseDemands = createPotionBaseDemands(config, rng);
-  const dayDemands = [] as Array<Record<PotionId, number>>;
-  for (let day = 0; day < config.days; day++) {
-    const dailyDemands = {} as Record<PotionId, number>;
-    for (const [potion, baseDemand] of Object.entries(baseDemands)) {
-      const dailyDemand =
-        baseDemand *
-        (1 +
-          rng.float(
-            -config.potionDailyDemandSpread,
-            config.potionDailyDemandSpread
-          ));
-      dailyDemands[potion as PotionId] = Math.round(dailyDemand);
-    }
-    dayDemands.push(dailyDemands);
-  }
-  return dayDemands;
+function createPotionDailyDemands(
+  config: GenerationConfig,
+  content: Content,
+  rng: Random
+) {
+  const baseDemands = createPotionBaseDemands(config, content, rng);
+  return generateDailySeries(
+    baseDemands,
+    (potionId) => content.potionTierLookup[potionId],
+    config.days,
+    config.potionDailyDemandSpread,
+    config.potionDemandModel,
+    rng
+  ).map((demands) => mapValues(demands, (demand) => Math.round(demand)));
 }
@@ -0,0 +1,27 @@
+import { kv } from "@vercel/kv";
+import { KV_PREFIX } from "./access-control";
+import { GameConfig, GameState } from "./types";
+
+// Durable record of a finished game, written by the workflow on completion so
+// results outlive workflow run retention (sharing, curated games, replays).
+export type StoredGameResult = {
+  runId: string;
+  config: GameConfig;
+  finalState: GameState;
+  completedAt: number;
+};
+
+// KV key for a finished game's result
+export function getGameResultKey(runId: string): string {
+  return `${KV_PREFIX}game_result:${runId}`;
+}
+
+export async function saveGameResult(result: StoredGameResult): Promise<void> {
+  await kv.set(getGameResultKey(result.runId), result);
+}
+
+export async function getGameResult(
+  runId: string
+): Promise<StoredGameResult | null> {
+  return kv.get<StoredGameResult>(getGameResultKey(runId));
+}
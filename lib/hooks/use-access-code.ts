@@ -104,29 +104,11 @@ export function useAccessCode() {
     }
   }, []);
 
-  const consumeGame = useCallback(async (): Promise<boolean> => {
-    if (!state.code) return false;
-
-    try {
-      const res = await fetch("/api/access/consume", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ code: state.code }),
-      });
-
-      if (res.ok) {
-        const data = await res.json();
-        setState((prev) => ({
-          ...prev,
-          remainingGames: data.remainingGames,
-        }));
-        return true;
-      }
-      return false;
-    } catch {
-      return false;
-    }
-  }, [state.code]);
+  // Games are consumed server-side by /api/game/start, which reports back
+  // how many are left
+  const updateRemainingGames = useCallback((remainingGames: number) => {
+    setState((prev) => ({ ...prev, remainingGames }));
+  }, []);
 
   const clearCode = useCallback(() => {
     localStorage.removeItem(STORAGE_KEY);
@@ -142,7 +124,7 @@ export function useAccessCode() {
   return {
     ...state,
     validateCode,
-    consumeGame,
+    updateRemainingGames,
     clearCode,
     hasAccess: !!state.accessCode && state.remainingGames > 0,
   };
@@ -1,6 +1,11 @@
 "use client";
 
-import { GameState, Player, PlayerOutputs } from "@/lib/types";
+import {
+  GameState,
+  Player,
+  PlayerAgentType,
+  PlayerOutputs,
+} from "@/lib/types";
 import { useCallback, useEffect, useState } from "react";
 
 export type GamePhase = "setup" | "running" | "completed" | "error";
@@ -22,6 +27,8 @@ export type StoredPlayer = {
   name: string;
   model: string;
   isHuman?: boolean;
+  agent?: PlayerAgentType;
+  botId?: string;
   strategyPrompt?: string;
 };
 
@@ -136,7 +143,15 @@ export function useGameStream() {
   }, [state.phase]); // Refetch when phase changes (e.g., after completing a game)
 
   const startGame = useCallback(
-    async (players: Player[], options?: { seed?: string; days?: number }) => {
+    async (
+      players: Player[],
+      options?: {
+        seed?: string;
+        days?: number;
+        accessCode?: string;
+        onStarted?: (remainingGames: number) => void;
+      }
+    ) => {
       const days = options?.days || 5;
       setState((prev) => ({
         ...prev,
@@ -152,15 +167,28 @@ export function useGameStream() {
         const response = await fetch("/api/game/start", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ players, seed: options?.seed, days }),
+          body: JSON.stringify({
+            players,
+            seed: options?.seed,
+            days,
+            code: options?.accessCode,
+          }),
         });
 
         if (!response.ok) {
-          throw new Error("Failed to start game");
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || "Failed to start game");
         }
 
-        const { runId, seed: gameSeed } = await response.json();
+        const {
+          runId,
+          seed: gameSeed,
+          remainingGames,
+        } = await response.json();
         setState((prev) => ({ ...prev, runId, seed: gameSeed }));
+        if (typeof remainingGames === "number") {
+          options?.onStarted?.(remainingGames);
+        }
 
         // Save placeholder run - names will be updated when AI chooses them
         saveRun({
@@ -170,6 +198,8 @@ export function useGameStream() {
             name: `Alchemist ${i + 1}`,
             model: p.model,
             isHuman: p.isHuman,
+            agent: p.agent,
+            botId: p.botId,
             strategyPrompt: p.strategyPrompt,
           })),
           createdAt: new Date().toISOString(),
@@ -200,6 +230,8 @@ export function useGameStream() {
         name: p.name,
         model: p.model,
         isHuman: p.isHuman,
+        agent: p.agent,
+        botId: p.botId,
         strategyPrompt: p.strategyPrompt,
       }));
     } else {
@@ -222,6 +254,8 @@ export function useGameStream() {
           name: p.name,
           model: p.model,
           isHuman: p.isHuman,
+          agent: p.agent,
+          botId: p.botId,
           strategyPrompt: p.strategyPrompt,
         }));
       } else if (storedRun.playerNames) {
@@ -384,6 +418,8 @@ export function useGameStream() {
                       name: p.name,
                       model: p.model,
                       isHuman: p.isHuman,
+                      agent: p.agent,
+                      botId: p.botId,
                       strategyPrompt: p.strategyPrompt,
                     })),
                     createdAt: new Date().toISOString(),
@@ -0,0 +1,164 @@
+import { Random } from "random";
+import { Content, getHerbTiersInUse } from "./content-packs";
+import {
+  HerbId,
+  MarketEvent,
+  MarketEventKind,
+  MarketEventsConfig,
+  PotionId,
+} from "./types";
+
+// Seeded market events. setupGame schedules them and multiplies their effects
+// into the generated daily herb prices and potion demand, so the engine itself
+// never needs to know about them; they are only announced to players.
+
+const MAX_EVENT_DAYS = 3;
+
+// Plague targets the pack's potions of this family
+const PLAGUE_FAMILY = "Healing";
+
+type EventEffect = Pick<
+  MarketEvent,
+  "name" | "description" | "herbPriceMultipliers" | "potionDemandMultipliers"
+>;
+
+function getPlaguePotions(content: Content): PotionId[] {
+  return content.potionIds.filter(
+    (potionId) => content.potionFamilies[potionId] === PLAGUE_FAMILY
+  );
+}
+
+type EventKindDefinition = {
+  // Whether the content pack has anything for the event to affect
+  applies: (content: Content) => boolean;
+  create: (rng: Random, content: Content) => EventEffect;
+};
+
+const EVENT_KINDS: Record<MarketEventKind, EventKindDefinition> = {
+  "herb-blight": {
+    applies: () => true,
+    create: (rng, content) => {
+      const herbId = rng.choice(content.herbIds)!;
+      const name = content.herbNames[herbId];
+      return {
+        name: `${name} Blight`,
+        description: `A blight ruins the ${name} (${herbId}) crop: its price doubles.`,
+        herbPriceMultipliers: { [herbId]: 2 },
+      };
+    },
+  },
+  "bumper-harvest": {
+    applies: () => true,
+    create: (rng, content) => {
+      const tier = rng.choice(getHerbTiersInUse(content))!;
+      return {
+        name: `${tier} Bumper Harvest`,
+        description: `An excellent harvest makes every ${tier} herb 40% cheaper.`,
+        herbPriceMultipliers: Object.fromEntries(
+          content.herbTiers[tier].map((herbId) => [herbId, 0.6])
+        ),
+      };
+    },
+  },
+  plague: {
+    applies: (content) => getPlaguePotions(content).length > 0,
+    create: (_rng, content) => ({
+      name: "Plague",
+      description: `A plague sweeps the land: demand for ${PLAGUE_FAMILY} potions doubles.`,
+      potionDemandMultipliers: Object.fromEntries(
+        getPlaguePotions(content).map((potionId) => [potionId, 2])
+      ),
+    }),
+  },
+  festival: {
+    applies: (content) => content.potionTiers.T3.length > 0,
+    create: (_rng, content) => ({
+      name: "Festival",
+      description: "A grand festival: demand for all T3 potions rises by 50%.",
+      potionDemandMultipliers: Object.fromEntries(
+        content.potionTiers.T3.map((potionId) => [potionId, 1.5])
+      ),
+    }),
+  },
+};
+
+/**
+ * Roll each day for a new event. Events last 1-3 days (cut at the game's
+ * end) and may overlap, in which case their multipliers compound.
+ */
+export function scheduleMarketEvents(
+  days: number,
+  config: MarketEventsConfig,
+  content: Content,
+  rng: Random
+): MarketEvent[] {
+  const events: MarketEvent[] = [];
+  const kinds = (Object.keys(EVENT_KINDS) as MarketEventKind[]).filter(
+    (kind) => EVENT_KINDS[kind].applies(content)
+  );
+  for (let day = 1; day <= days; day++) {
+    if (rng.float(0, 1) >= config.dailyChance) continue;
+    const kind = rng.choice(kinds)!;
+    const duration = rng.int(1, MAX_EVENT_DAYS);
+    events.push({
+      kind,
+      ...EVENT_KINDS[kind].create(rng, content),
+      startDay: day,
+      endDay: Math.min(days, day + duration - 1),
+    });
+  }
+  return events;
+}
+
+export function getActiveEvents(
+  events: MarketEvent[] | undefined,
+  day: number
+): MarketEvent[] {
+  return (events ?? []).filter((e) => e.startDay <= day && day <= e.endDay);
+}
+
+export function getEventsStartingOn(
+  events: MarketEvent[] | undefined,
+  day: number
+): MarketEvent[] {
+  return (events ?? []).filter((e) => e.startDay === day);
+}
+
+// Multiply event effects into the generated daily prices and demand (in place)
+export function applyMarketEvents(
+  events: MarketEvent[],
+  herbDailyPrices: Record<HerbId, number>[],
+  potionDailyDemands: Record<PotionId, number>[]
+): void {
+  for (const event of events) {
+    for (let day = event.startDay; day <= event.endDay; day++) {
+      const prices = herbDailyPrices[day - 1];
+      for (const [herbId, mult] of Object.entries(
+        event.herbPriceMultipliers ?? {}
+      )) {
+        prices[herbId as HerbId] = Math.max(
+          1,
+          Math.round(prices[herbId as HerbId] * (mult ?? 1))
+        );
+      }
+      const demands = potionDailyDemands[day - 1];
+      for (const [potionId, mult] of Object.entries(
+        event.potionDemandMultipliers ?? {}
+      )) {
+        demands[potionId as PotionId] = Math.round(
+          demands[potionId as PotionId] * (mult ?? 1)
+        );
+      }
+    }
+  }
+}
+
+// One line per event for players and the AI prompt
+export function describeMarketEvent(event: MarketEvent): string {
+  const days =
+    event.startDay === event.endDay
+      ? `day ${event.startDay}`
+      : `days ${event.startDay}-${event.endDay}`;
+  return `${event.name} (${days}): ${event.description}`;
+}
+
@@ -0,0 +1,180 @@
+import { mapValues } from "lodash";
+import { DemandCurve, MarketMechanism, PotionOffer, Tier } from "./types";
+
+// How a day's potion offers are matched against demand. Every mechanism sees
+// one potion's offers sorted by ask price (ascending) and returns them with
+// actuallySold set, plus salePrice wherever a unit fetched something other
+// than its ask.
+
+export const DEFAULT_MARKET_MECHANISM: MarketMechanism = "cheapest-first";
+
+export type MarketMechanismDefinition = {
+  id: MarketMechanism;
+  name: string;
+  // Rules as explained to players (and to the AI in its system prompt)
+  description: string;
+  // demandAt(price) is how many units buyers take at that price (see
+  // lib/demand-curves.ts); maxPrice is the potion's price cap
+  clear: (
+    offers: PotionOffer[],
+    demandAt: (price: number) => number,
+    maxPrice: number
+  ) => PotionOffer[];
+  // Demand curve used when the game does not configure one
+  defaultDemandCurve?: (herbTierBasePrices: Record<Tier, number>) => DemandCurve;
+};
+
+/**
+ * Splits demand evenly among offers, respecting each offer's max qty.
+ * Remainder distributed by player index order.
+ * Returns array of [offer, soldQty] pairs.
+ */
+function allocateEvenSplit(
+  offers: PotionOffer[],
+  demand: number
+): { offer: PotionOffer; sold: number }[] {
+  // Sort by player index for deterministic remainder distribution
+  const sorted = [...offers].sort(
+    (a, b) => (a.playerIdx ?? 0) - (b.playerIdx ?? 0)
+  );
+  const result = sorted.map((offer) => ({ offer, sold: 0 }));
+  let left = demand;
+
+  while (left > 0) {
+    const active = result.filter((r) => r.sold < r.offer.qty);
+    if (active.length === 0) break;
+
+    const share = Math.floor(left / active.length);
+    let given = 0;
+
+    for (const r of active) {
+      const take = Math.min(share || 1, r.offer.qty - r.sold, left - given);
+      r.sold += take;
+      given += take;
+    }
+
+    left -= given;
+    if (given === 0) break;
+  }
+
+  return result;
+}
+
+/**
+ * Fill offers cheapest first, splitting evenly among offers at the same
+ * price. demandAt(price) is how many units buyers take in total when the
+ * price is at most `price`, so elastic demand can shrink as asks rise.
+ */
+function fillCheapestFirst(
+  offers: PotionOffer[],
+  demandAt: (price: number) => number
+): PotionOffer[] {
+  const filled: PotionOffer[] = [];
+  let sold = 0;
+
+  let i = 0;
+  while (i < offers.length) {
+    const currentPrice = offers[i].price;
+
+    // Collect all offers at this price level
+    const samePriceOffers: PotionOffer[] = [];
+    while (i < offers.length && offers[i].price === currentPrice) {
+      samePriceOffers.push(offers[i]);
+      i++;
+    }
+
+    const remaining = Math.max(0, demandAt(currentPrice) - sold);
+    const totalQtyAtPrice = samePriceOffers.reduce((s, o) => s + o.qty, 0);
+
+    if (totalQtyAtPrice <= remaining) {
+      // All offers fully satisfied
+      for (const offer of samePriceOffers) {
+        filled.push({ ...offer, actuallySold: offer.qty });
+      }
+      sold += totalQtyAtPrice;
+    } else {
+      // Split demand evenly among same-price offers
+      for (const { offer, sold: qty } of allocateEvenSplit(
+        samePriceOffers,
+        remaining
+      )) {
+        filled.push({ ...offer, actuallySold: qty });
+      }
+      sold += remaining;
+    }
+  }
+
+  return filled;
+}
+
+// Pay every sold unit the given price (unsold offers keep only their ask)
+function settleAt(offers: PotionOffer[], price: number): PotionOffer[] {
+  return offers.map((offer) =>
+    offer.actuallySold! > 0 && offer.price !== price
+      ? { ...offer, salePrice: price }
+      : offer
+  );
+}
+
+const cheapestFirst: MarketMechanismDefinition = {
+  id: "cheapest-first",
+  name: "Cheapest First",
+  description:
+    "All player offers are sorted by price (lowest first). Demand buys from cheapest offers until demand is exhausted; offers at the same price share demand evenly. Each sale is paid at its own asking price.",
+  clear: (offers, demandAt) => fillCheapestFirst(offers, demandAt),
+};
+
+const uniformPrice: MarketMechanismDefinition = {
+  id: "uniform-price",
+  name: "Uniform Price",
+  description:
+    "Demand buys from the cheapest offers first, exactly as in a cheapest-first market, but then EVERY sold potion is paid the same clearing price: the highest asking price that still sold. Undercutting wins you volume; the marginal seller sets everyone's price.",
+  clear: (offers, demandAt) => {
+    const filled = fillCheapestFirst(offers, demandAt);
+    const sold = filled.filter((o) => o.actuallySold! > 0);
+    if (sold.length === 0) return filled;
+    return settleAt(filled, Math.max(...sold.map((o) => o.price)));
+  },
+};
+
+const priceElastic: MarketMechanismDefinition = {
+  id: "price-elastic",
+  name: "Price-Elastic Demand",
+  description:
+    "Buyers purchase less at higher prices (see DEMAND). Offers are still filled cheapest first and each sale is paid at its own asking price.",
+  clear: (offers, demandAt) => fillCheapestFirst(offers, demandAt),
+  // Unless configured otherwise, about half the buyers remain at the price cap
+  // (5x the base cost of 2 herbs), i.e. reservation price = 2x the cap
+  defaultDemandCurve: (herbTierBasePrices) => ({
+    type: "linear",
+    reservationPrices: mapValues(herbTierBasePrices, (base) => 20 * base),
+  }),
+};
+
+const sealedBid: MarketMechanismDefinition = {
+  id: "sealed-bid",
+  name: "Sealed-Bid Auction",
+  description:
+    "Offers are sealed asks in a second-price auction. The cheapest offers win the demand (ties share evenly), and every winning potion is paid the price of the cheapest offer that did NOT fully sell - or the price cap if every offer sold. Your own ask only decides whether you win, not what you are paid, so ask what a potion is truly worth to you.",
+  clear: (offers, demandAt, maxPrice) => {
+    const filled = fillCheapestFirst(offers, demandAt);
+    const losing = filled.filter((o) => o.actuallySold! < o.qty);
+    const price =
+      losing.length > 0 ? Math.min(...losing.map((o) => o.price)) : maxPrice;
+    return settleAt(filled, price);
+  },
+};
+
+export const MARKET_MECHANISMS: Record<
+  MarketMechanism,
+  MarketMechanismDefinition
+> = {
+  "cheapest-first": cheapestFirst,
+  "uniform-price": uniformPrice,
+  "price-elastic": priceElastic,
+  "sealed-bid": sealedBid,
+};
+
+export function isMarketMechanism(id: unknown): id is MarketMechanism {
+  return typeof id === "string" && id in MARKET_MECHANISMS;
+}
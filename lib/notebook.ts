@@ -0,0 +1,34 @@
+import { NotebookConfig } from "./types";
+
+// A private notebook per player. Whatever a player writes in `notes` replaces
+// the notebook (cut off at the size limit) and is shown to them the next day;
+// days without notes keep the old ones. Nothing in it affects the game, it
+// only lets players carry plans from one day to the next.
+
+/**
+ * The notebook after a day's notes. Unset notes keep `previous`; notes over
+ * the limit are cut off with an error.
+ */
+export function writeNotes(
+  previous: string,
+  notes: string | undefined,
+  notebook: NotebookConfig
+): { notes: string; errors: string[] } {
+  if (notes === undefined) return { notes: previous, errors: [] };
+  if (notes.length <= notebook.maxChars) return { notes, errors: [] };
+  return {
+    notes: notes.slice(0, notebook.maxChars),
+    errors: [
+      `Notes are limited to ${notebook.maxChars} characters. Kept the first ${notebook.maxChars}.`,
+    ],
+  };
+}
+
+// Rules text for players and the AI prompt
+export function describeNotebook(notebook: NotebookConfig): string {
+  return `You have a private notebook of up to ${notebook.maxChars} characters that is shown to you every day. Notes you write replace what is in it; write none to keep it as it is. Only you can read it.`;
+}
+
+export function formatNotes(notes: string | undefined): string {
+  return notes ? notes : "Your notebook is empty.";
+}
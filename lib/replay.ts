@@ -0,0 +1,189 @@
+import { isEqual } from "lodash";
+import {
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "./game-engine";
+import {
+  DayRecord,
+  GameConfig,
+  GameState,
+  PlayerDayActions,
+  PlayerOutputs,
+} from "./types";
+
+// Re-simulates a recorded game from its config plus each player's requested
+// actions. setupGame is seeded and processGameDay is pure, so any difference
+// from the recording means the engine (or the recording) changed.
+
+export type ReplayDivergence = {
+  day: number;
+  playerIdx?: number; // Unset for day-level fields (prices, demand, market)
+  field: string;
+  recorded: unknown;
+  replayed: unknown;
+};
+
+export type ReplayReport = {
+  ok: boolean;
+  daysReplayed: number;
+  divergences: ReplayDivergence[];
+  replayedState: GameState;
+};
+
+// Per-player fields of a day record that the engine derives from the requests
+const DERIVED_PLAYER_FIELDS = [
+  "startInventory",
+  "actualBuyHerbs",
+  "actualMakePotions",
+  "actualOffers",
+  "herbFills",
+  "errors",
+  "endInventory",
+  "salesResults",
+  "spoiled",
+  "storageFee",
+  "trades",
+  "loan",
+  "orderReturns",
+  "herbSales",
+  "stallRent",
+  "notes",
+] as const satisfies readonly (keyof PlayerDayActions)[];
+
+// The orders a player submitted on a recorded day
+export function getRecordedOutputs(record: DayRecord): PlayerOutputs[] {
+  return record.playerActions.map((actions) => ({
+    buyHerbs: actions.requestedBuyHerbs,
+    makePotions: actions.requestedMakePotions,
+    potionOffers: actions.requestedOffers,
+    trades: actions.requestedTrades,
+    loan: actions.requestedLoan,
+    standingOrders: actions.requestedStandingOrders,
+    cancelOrders: actions.requestedCancels,
+    sellHerbs: actions.requestedSellHerbs,
+    notes: actions.requestedNotes,
+  }));
+}
+
+// Recordings usually went through JSON (stream, KV), which drops undefined
+// fields; normalize both sides the same way before comparing
+function sameAfterSerialization(a: unknown, b: unknown): boolean {
+  return isEqual(
+    a === undefined ? a : JSON.parse(JSON.stringify(a)),
+    b === undefined ? b : JSON.parse(JSON.stringify(b))
+  );
+}
+
+/**
+ * Replay the recorded requests through the engine and compare every derived
+ * value day by day. The replay always continues from its own state, so a
+ * single divergence may cascade into later days.
+ */
+export function verifyRecordedGame(
+  config: GameConfig,
+  recorded: Pick<GameState, "dayRecords"> &
+    Partial<Pick<GameState, "playerInventories" | "finalStandings">>
+): ReplayReport {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(
+    config.runtime,
+    config.generation.contentPack
+  );
+  const divergences: ReplayDivergence[] = [];
+  const playerCount = config.runtime.players.length;
+
+  const check = (
+    day: number,
+    field: string,
+    recordedValue: unknown,
+    replayedValue: unknown,
+    playerIdx?: number
+  ) => {
+    if (!sameAfterSerialization(recordedValue, replayedValue)) {
+      divergences.push({
+        day,
+        playerIdx,
+        field,
+        recorded: recordedValue,
+        replayed: replayedValue,
+      });
+    }
+  };
+
+  if (recorded.dayRecords.length > config.generation.days) {
+    check(0, "days", recorded.dayRecords.length, config.generation.days);
+  }
+
+  for (const record of recorded.dayRecords.slice(0, config.generation.days)) {
+    const day = state.currentDay;
+    check(day, "day", record.day, day);
+
+    if (record.playerActions.length !== playerCount) {
+      check(day, "playerCount", record.playerActions.length, playerCount);
+      break;
+    }
+
+    state = processGameDay(getRecordedOutputs(record), state, game);
+    const replayed = state.dayRecords[state.dayRecords.length - 1];
+
+    check(day, "herbPrices", record.herbPrices, replayed.herbPrices);
+    check(day, "herbSupplies", record.herbSupplies, replayed.herbSupplies);
+    check(
+      day,
+      "herbPurchasePrices",
+      record.herbPurchasePrices,
+      replayed.herbPurchasePrices
+    );
+    check(day, "potionDemands", record.potionDemands, replayed.potionDemands);
+    check(day, "events", record.events, replayed.events);
+    check(day, "marketSummary", record.marketSummary, replayed.marketSummary);
+    check(
+      day,
+      "standingOrderFills",
+      record.standingOrderFills,
+      replayed.standingOrderFills
+    );
+
+    record.playerActions.forEach((actions, playerIdx) => {
+      for (const field of DERIVED_PLAYER_FIELDS) {
+        check(
+          day,
+          field,
+          actions[field],
+          replayed.playerActions[playerIdx][field],
+          playerIdx
+        );
+      }
+    });
+  }
+
+  if (recorded.finalStandings) {
+    check(
+      state.currentDay - 1,
+      "finalStandings",
+      recorded.finalStandings,
+      state.finalStandings
+    );
+  }
+
+  // Final inventories are only present when a whole GameState was recorded
+  if (recorded.playerInventories) {
+    recorded.playerInventories.forEach((inventory, playerIdx) => {
+      check(
+        state.currentDay - 1,
+        "finalInventory",
+        inventory,
+        state.playerInventories[playerIdx],
+        playerIdx
+      );
+    });
+  }
+
+  return {
+    ok: divergences.length === 0,
+    daysReplayed: state.dayRecords.length,
+    divergences,
+    replayedState: state,
+  };
+}
@@ -0,0 +1,151 @@
+import { mapValues } from "lodash";
+import { Content, isHerbId } from "./content-packs";
+import { getNetWorth } from "./credit";
+import {
+  FinalScoring,
+  FinalStanding,
+  HerbId,
+  HerbSellBackConfig,
+  PlayerDayActions,
+  PlayerInventory,
+  PotionId,
+  StandingOrder,
+} from "./types";
+
+// Selling herbs back and final scoring. Herbs can be sold back (after
+// crafting) at the day's price minus a discount. At the end of the game
+// leftover stock is valued at liquidation prices: the last day's sell-back
+// price for herbs, and for potions the sell-back value of their ingredients.
+// Whether that value counts towards the score depends on the scoring mode.
+
+// Discount used to value stock when herbs cannot be sold back during the game
+export const DEFAULT_LIQUIDATION_DISCOUNT = 0.5;
+
+export function getSellBackPrices(
+  prices: Record<HerbId, number>,
+  discount: number
+): Record<HerbId, number> {
+  return mapValues(prices, (price) => Math.floor(price * (1 - discount)));
+}
+
+/**
+ * Sell herbs back at `prices`, limited by what is held. Mutates `inventory`.
+ */
+export function sellHerbsBack(
+  inventory: PlayerInventory,
+  orders: { herbId: HerbId; qty: number }[],
+  prices: Record<HerbId, number>,
+  content: Content
+): {
+  herbSales: NonNullable<PlayerDayActions["herbSales"]>;
+  errors: string[];
+} {
+  const herbSales: NonNullable<PlayerDayActions["herbSales"]> = [];
+  const errors: string[] = [];
+  for (const order of orders) {
+    if (!isHerbId(content, order.herbId)) {
+      errors.push(`Unknown herb ${order.herbId}. Sale ignored.`);
+      continue;
+    }
+    const qty = Math.min(order.qty, inventory.herbs[order.herbId]);
+    if (qty !== order.qty) {
+      errors.push(
+        `Not enough ${order.herbId} to sell back ${order.qty}. Sold ${qty} herbs.`
+      );
+    }
+    if (qty === 0) continue;
+    const price = prices[order.herbId];
+    inventory.herbs[order.herbId] -= qty;
+    inventory.gold += qty * price;
+    herbSales.push({ herbId: order.herbId, qty, price, revenue: qty * price });
+  }
+  return { herbSales, errors };
+}
+
+// What leftover stock fetches at the end: herbs at the last day's sell-back
+// price, potions at the sell-back value of one craft's herbs per potion made
+export function getLiquidationPrices(
+  lastDayPrices: Record<HerbId, number>,
+  discount: number,
+  content: Content
+): { herbs: Record<HerbId, number>; potions: Record<PotionId, number> } {
+  const herbs = getSellBackPrices(lastDayPrices, discount);
+  const potions = mapValues(content.recipes, (recipe) =>
+    Math.floor(
+      recipe.ingredients.reduce(
+        (sum, { herbId, qty }) => sum + herbs[herbId] * qty,
+        0
+      ) / recipe.yield
+    )
+  );
+  return { herbs, potions };
+}
+
+// Value of held stock, plus potions still reserved by open sell orders
+export function getInventoryValue(
+  inventory: PlayerInventory,
+  prices: ReturnType<typeof getLiquidationPrices>,
+  reserved: StandingOrder[] = []
+): number {
+  let value = 0;
+  for (const [herbId, qty] of Object.entries(inventory.herbs)) {
+    value += qty * (prices.herbs[herbId as HerbId] ?? 0);
+  }
+  for (const [potionId, qty] of Object.entries(inventory.potions)) {
+    value += qty * (prices.potions[potionId as PotionId] ?? 0);
+  }
+  for (const order of reserved) {
+    if (order.type === "sell-potion") {
+      value += order.remaining * (prices.potions[order.potionId] ?? 0);
+    }
+  }
+  return value;
+}
+
+// Standard competition ranking: 1 for the highest score, ties share a rank
+export function rankByScore(scores: number[]): number[] {
+  return scores.map((s) => 1 + scores.filter((other) => other > s).length);
+}
+
+/**
+ * Final standings by player index. Scores are gold minus debt, plus the
+ * liquidation value of leftover stock with "net-worth" scoring.
+ */
+export function getFinalStandings(
+  inventories: PlayerInventory[],
+  scoring: FinalScoring,
+  prices: ReturnType<typeof getLiquidationPrices>,
+  orderBook: StandingOrder[] = []
+): FinalStanding[] {
+  const standings = inventories.map((inventory, playerIdx) => {
+    const inventoryValue = getInventoryValue(
+      inventory,
+      prices,
+      orderBook.filter((order) => order.playerIdx === playerIdx)
+    );
+    return {
+      playerIdx,
+      rank: 0,
+      score:
+        getNetWorth(inventory) + (scoring === "net-worth" ? inventoryValue : 0),
+      gold: inventory.gold,
+      debt: inventory.debt ?? 0,
+      inventoryValue,
+    };
+  });
+  const ranks = rankByScore(standings.map((standing) => standing.score));
+  return standings.map((standing, idx) => ({ ...standing, rank: ranks[idx] }));
+}
+
+// Rules text for players and the AI prompt
+export function describeHerbSellBack(sellBack: HerbSellBackConfig): string {
+  return `After crafting you may sell herbs back to the herb market for ${Math.round(
+    (1 - sellBack.discount) * 100
+  )}% of the day's price (rounded down).`;
+}
+
+export function describeFinalScoring(scoring: FinalScoring): string {
+  return scoring === "net-worth"
+    ? "Final score: gold minus debt plus leftover stock at liquidation prices (herbs at the last day's sell-back price, potions at the sell-back value of their herbs)."
+    : "Final score: gold minus debt. Leftover herbs and potions are worth nothing.";
+}
@@ -0,0 +1,61 @@
+import { PlayerUsageStats, SpendLimits } from "./types";
+
+// Time and money limits of LLM players. A decision that runs past the call
+// timeout is aborted and either holds for the day or counts as a failed call.
+// Spend is checked after every priced call: once a player's budget, or the
+// game's, is spent, the players concerned hold (make no more calls) or are
+// disqualified for the rest of the game.
+
+/**
+ * Why `playerIdx` must stop spending, or undefined while within budget. The
+ * game budget covers everyone's spend so far.
+ */
+export function getBudgetBreach(
+  stats: PlayerUsageStats[],
+  playerIdx: number,
+  limits: SpendLimits
+): string | undefined {
+  const playerSpend = stats[playerIdx]?.costUsd ?? 0;
+  if (
+    limits.playerBudgetUsd !== undefined &&
+    playerSpend >= limits.playerBudgetUsd
+  ) {
+    return `Player budget of $${limits.playerBudgetUsd.toFixed(
+      2
+    )} spent ($${playerSpend.toFixed(4)})`;
+  }
+  const gameSpend = stats.reduce((sum, s) => sum + s.costUsd, 0);
+  if (limits.gameBudgetUsd !== undefined && gameSpend >= limits.gameBudgetUsd) {
+    return `Game budget of $${limits.gameBudgetUsd.toFixed(
+      2
+    )} spent ($${gameSpend.toFixed(4)})`;
+  }
+  return undefined;
+}
+
+// Whether an error came from aborting a call at its timeout (the SDK may
+// wrap the abort reason)
+export function isTimeoutError(error: unknown): boolean {
+  const err = error as { name?: string; cause?: unknown } | undefined;
+  return (
+    err?.name === "TimeoutError" ||
+    err?.name === "AbortError" ||
+    (err?.cause !== undefined && isTimeoutError(err.cause))
+  );
+}
+
+// Whether a request body holds usable spend limits
+export function isSpendLimits(value: unknown): value is SpendLimits {
+  const limits = value as SpendLimits;
+  const optionalPositive = (n: unknown) =>
+    n === undefined || (typeof n === "number" && n > 0);
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    optionalPositive(limits.callTimeoutMs) &&
+    (limits.onTimeout === "hold" || limits.onTimeout === "fail") &&
+    optionalPositive(limits.playerBudgetUsd) &&
+    optionalPositive(limits.gameBudgetUsd) &&
+    (limits.overBudget === "hold" || limits.overBudget === "disqualified")
+  );
+}
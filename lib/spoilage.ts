@@ -0,0 +1,228 @@
+import {
+  HerbId,
+  InventoryAges,
+  ItemQuantities,
+  PlayerInventory,
+  PotionId,
+  SpoilageConfig,
+} from "./types";
+
+// Spoilage and storage fees. PlayerInventory only holds counts, so the age of
+// each unit is tracked alongside it (GameState.inventoryAges) and reconciled
+// with the counts at the end of every day: new stock enters at age 0 and
+// whatever was used or sold is taken from the oldest units first (FIFO).
+// Potions reserved by standing sell orders take their ages along and come
+// back with them, aged by the days they were listed.
+
+export function createEmptyAges(): InventoryAges {
+  return { herbs: {}, potions: {} };
+}
+
+/**
+ * Add `added` fresh units, then drop units from the oldest end until the
+ * total matches `finalCount`.
+ */
+function reconcileAges(
+  ages: number[] | undefined,
+  added: number,
+  finalCount: number
+): number[] {
+  const result = [...(ages ?? [])];
+  result[0] = (result[0] ?? 0) + added;
+
+  let excess = result.reduce((sum, qty) => sum + qty, 0) - finalCount;
+  for (let age = result.length - 1; age >= 0 && excess > 0; age--) {
+    const take = Math.min(result[age], excess);
+    result[age] -= take;
+    excess -= take;
+  }
+  return result;
+}
+
+// Split off the `qty` oldest units
+function takeOldest(ages: number[], qty: number): number[] {
+  const taken = ages.map(() => 0);
+  for (let age = ages.length - 1; age >= 0 && qty > 0; age--) {
+    taken[age] = Math.min(ages[age], qty);
+    qty -= taken[age];
+  }
+  return trimAges(taken);
+}
+
+/**
+ * Ages of `qty` potions a standing sell order reserves once `added` fresh
+ * units are in and `held` are left: the oldest of them, as for sales.
+ */
+export function getReservedAges(
+  ages: number[] | undefined,
+  added: number,
+  held: number,
+  qty: number
+): number[] {
+  return takeOldest(reconcileAges(ages, added, held), qty);
+}
+
+/**
+ * Ages on `day` of the `remaining` unsold potions of an order placed on
+ * `placedDay`: the youngest it reserved (the oldest sell first), aged since.
+ * Orders without ages count their potions as fresh when placed.
+ */
+export function getReturnedAges(
+  reservedAges: number[] | undefined,
+  remaining: number,
+  placedDay: number,
+  day: number
+): number[] {
+  const ages = reservedAges ?? [remaining];
+  const total = ages.reduce((sum, qty) => sum + qty, 0);
+  const sold = takeOldest(ages, total - remaining);
+  const unsold = ages.map((qty, age) => qty - (sold[age] ?? 0));
+  return trimAges([...Array(day - placedDay).fill(0), ...unsold]);
+}
+
+// Units of two age lists together
+export function mergeAges(
+  a: number[] | undefined,
+  b: number[] | undefined
+): number[] {
+  return Array.from(
+    { length: Math.max(a?.length ?? 0, b?.length ?? 0) },
+    (_, age) => (a?.[age] ?? 0) + (b?.[age] ?? 0)
+  );
+}
+
+// Age everything by a day; units reaching their shelf life spoil
+function ageOvernight(
+  ages: number[],
+  shelfLife: number | undefined
+): { ages: number[]; spoiled: number } {
+  const aged = [0, ...ages];
+  if (shelfLife === undefined) return { ages: trimAges(aged), spoiled: 0 };
+
+  const spoiled = aged.slice(shelfLife).reduce((sum, qty) => sum + qty, 0);
+  return { ages: trimAges(aged.slice(0, shelfLife)), spoiled };
+}
+
+// Drop trailing empty ages so stored arrays stay short
+function trimAges(ages: number[]): number[] {
+  let end = ages.length;
+  while (end > 0 && !ages[end - 1]) end--;
+  return ages.slice(0, end);
+}
+
+// Units that spoil tonight if still held: those on the last day of their life
+function expiring(ages: number[] | undefined, shelfLife: number | undefined) {
+  if (!ages || shelfLife === undefined) return 0;
+  return ages.slice(shelfLife - 1).reduce((sum, qty) => sum + qty, 0);
+}
+
+export function getExpiringTonight(
+  ages: InventoryAges,
+  spoilage: SpoilageConfig
+): ItemQuantities {
+  const result: ItemQuantities = { herbs: {}, potions: {} };
+  for (const [herbId, herbAges] of Object.entries(ages.herbs)) {
+    const qty = expiring(herbAges, spoilage.herbShelfLife);
+    if (qty > 0) result.herbs[herbId as HerbId] = qty;
+  }
+  for (const [potionId, potionAges] of Object.entries(ages.potions)) {
+    const qty = expiring(potionAges, spoilage.potionShelfLife);
+    if (qty > 0) result.potions[potionId as PotionId] = qty;
+  }
+  return result;
+}
+
+/**
+ * End-of-day bookkeeping for one player. Mutates `inventory` (removes spoiled
+ * stock, deducts storage fees) and returns the new ages plus what was lost.
+ * `returned` holds the ages of potions back from standing sell orders.
+ * Fees are charged on stock kept overnight, never pushing gold below 0.
+ */
+export function applySpoilage(
+  startAges: InventoryAges,
+  inventory: PlayerInventory,
+  added: ItemQuantities,
+  spoilage: SpoilageConfig,
+  returned: Partial<Record<PotionId, number[]>> = {}
+): { ages: InventoryAges; spoiled: ItemQuantities; storageFee: number } {
+  const ages = createEmptyAges();
+  const spoiled: ItemQuantities = { herbs: {}, potions: {} };
+  let heldHerbs = 0;
+  let heldPotions = 0;
+
+  for (const herbId of Object.keys(inventory.herbs) as HerbId[]) {
+    const current = reconcileAges(
+      startAges.herbs[herbId],
+      added.herbs[herbId] ?? 0,
+      inventory.herbs[herbId]
+    );
+    const overnight = ageOvernight(current, spoilage.herbShelfLife);
+    if (overnight.spoiled > 0) {
+      spoiled.herbs[herbId] = overnight.spoiled;
+      inventory.herbs[herbId] -= overnight.spoiled;
+    }
+    if (overnight.ages.length > 0) ages.herbs[herbId] = overnight.ages;
+    heldHerbs += inventory.herbs[herbId];
+  }
+
+  for (const potionId of Object.keys(inventory.potions) as PotionId[]) {
+    const current = reconcileAges(
+      mergeAges(startAges.potions[potionId], returned[potionId]),
+      added.potions[potionId] ?? 0,
+      inventory.potions[potionId]
+    );
+    const overnight = ageOvernight(current, spoilage.potionShelfLife);
+    if (overnight.spoiled > 0) {
+      spoiled.potions[potionId] = overnight.spoiled;
+      inventory.potions[potionId] -= overnight.spoiled;
+    }
+    if (overnight.ages.length > 0) ages.potions[potionId] = overnight.ages;
+    heldPotions += inventory.potions[potionId];
+  }
+
+  const fee =
+    heldHerbs * (spoilage.herbStorageFee ?? 0) +
+    heldPotions * (spoilage.potionStorageFee ?? 0);
+  const storageFee = Math.min(Math.round(fee), inventory.gold);
+  inventory.gold -= storageFee;
+
+  return { ages, spoiled, storageFee };
+}
+
+// Rules text for players and the AI prompt
+export function describeSpoilage(spoilage: SpoilageConfig): string {
+  const lines: string[] = [];
+  const shelfLife = (label: string, days: number | undefined) => {
+    if (days === undefined) return `${label} never spoil.`;
+    return days === 1
+      ? `${label} spoil at the end of the day you get them - use or sell them the same day.`
+      : `${label} keep for ${days} days (the day you get them included) and spoil overnight after that. Oldest stock is used and sold first.`;
+  };
+  lines.push(shelfLife("Herbs", spoilage.herbShelfLife));
+  lines.push(shelfLife("Potions", spoilage.potionShelfLife));
+  if (spoilage.herbStorageFee || spoilage.potionStorageFee) {
+    lines.push(
+      `Storage fees are charged every night on what you still hold: ${
+        spoilage.herbStorageFee ?? 0
+      }g per herb, ${spoilage.potionStorageFee ?? 0}g per potion.`
+    );
+  }
+  return lines.join("\n");
+}
+
+// Compact "H01:3, P02:1" listing
+export function formatItemQuantities(items: ItemQuantities): string {
+  return [...Object.entries(items.herbs), ...Object.entries(items.potions)]
+    .filter(([, qty]) => (qty ?? 0) > 0)
+    .map(([id, qty]) => `${id}:${qty}`)
+    .join(", ");
+}
+
+// Total units in an ItemQuantities (for display)
+export function countItems(items: ItemQuantities | undefined): number {
+  if (!items) return 0;
+  return (
+    Object.values(items.herbs).reduce<number>((sum, qty) => sum + (qty ?? 0), 0) +
+    Object.values(items.potions).reduce<number>((sum, qty) => sum + (qty ?? 0), 0)
+  );
+}
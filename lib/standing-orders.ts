@@ -0,0 +1,250 @@
+import { Content, isHerbId, isPotionId } from "./content-packs";
+import { getReturnedAges, mergeAges } from "./spoilage";
+import {
+  HerbId,
+  PlayerInventory,
+  PotionId,
+  PotionOffer,
+  StandingOrder,
+  StandingOrderRequest,
+} from "./types";
+
+// Standing orders stay on the book (GameState.orderBook) for several days.
+// Herb buys are tried every morning after the player's own orders and fill
+// whenever the day's price is low enough. Potion sells take their potions out
+// of inventory when placed (after crafting) and join every day's market until
+// sold; cancelled or expired orders give back what is left. With spoilage the
+// reserved potions keep their ages and return as old as they would be at home.
+
+type HerbBuyOrder = Extract<StandingOrder, { type: "buy-herb" }>;
+
+// Potions given back by orders, with their ages on the day they return
+type ReturnedPotions = {
+  returned: Partial<Record<PotionId, number>>;
+  returnedAges: Partial<Record<PotionId, number[]>>;
+};
+
+/**
+ * Turn a player's requests into orders, dropping unknown items. Sell orders
+ * still need their potions (see reservePotions).
+ */
+export function createStandingOrders(
+  requests: StandingOrderRequest[],
+  playerIdx: number,
+  day: number,
+  content: Content
+): { orders: StandingOrder[]; errors: string[] } {
+  const orders: StandingOrder[] = [];
+  const errors: string[] = [];
+  requests.forEach((request, idx) => {
+    const itemId =
+      request.type === "buy-herb" ? request.herbId : request.potionId;
+    const known =
+      request.type === "buy-herb"
+        ? isHerbId(content, itemId)
+        : isPotionId(content, itemId);
+    if (!known) {
+      errors.push(`Unknown item ${itemId}. Standing order ignored.`);
+      return;
+    }
+    if (request.qty <= 0 || request.days <= 0) return;
+    orders.push({
+      ...request,
+      id: `o${day}-${playerIdx}-${idx}`,
+      playerIdx,
+      placedDay: day,
+      expiresDay: day + request.days - 1,
+      remaining: request.qty,
+    });
+  });
+  return { orders, errors };
+}
+
+/**
+ * Move the potions of new sell orders out of `inventory` (mutated), capping
+ * each order at what is held and charging the listing fee like any offer.
+ * Orders left with nothing, or that cannot pay the fee, are dropped.
+ * `reservedAges` (with spoilage) gives the ages of the potions taken.
+ */
+export function reservePotions(
+  orders: StandingOrder[],
+  inventory: PlayerInventory,
+  maxPrice: (potionId: PotionId) => number | undefined,
+  reservedAges?: (potionId: PotionId, held: number, qty: number) => number[],
+  listingFee = 0
+): { orders: StandingOrder[]; errors: string[] } {
+  const errors: string[] = [];
+  const placed = orders.flatMap((order): StandingOrder[] => {
+    if (order.type !== "sell-potion") return [order];
+    const held = inventory.potions[order.potionId];
+    const qty = Math.min(order.qty, held);
+    if (listingFee > 0 && qty > 0) {
+      if (inventory.gold < listingFee) {
+        errors.push(
+          `Not enough gold for the ${listingFee}g listing fee. Standing order to sell ${order.potionId} ignored.`
+        );
+        return [];
+      }
+      inventory.gold -= listingFee;
+    }
+    const ages = reservedAges?.(order.potionId, held, qty);
+    inventory.potions[order.potionId] -= qty;
+    if (qty !== order.qty) {
+      errors.push(
+        `Not enough potions for a standing order to sell ${order.qty} ${order.potionId}. Placed ${qty}.`
+      );
+    }
+    if (qty === 0) return [];
+    // Same silent price cap as daily offers
+    const cap = maxPrice(order.potionId);
+    const price = cap === undefined ? order.price : Math.min(order.price, cap);
+    return [
+      {
+        ...order,
+        price,
+        remaining: qty,
+        ...(ages && { ages }),
+        ...(listingFee > 0 && { listingFee }),
+      },
+    ];
+  });
+  return { orders: placed, errors };
+}
+
+/**
+ * Remove a player's cancelled orders from the book, returning reserved
+ * potions to `inventory` (mutated).
+ */
+export function cancelStandingOrders(
+  book: StandingOrder[],
+  playerIdx: number,
+  orderIds: string[],
+  inventory: PlayerInventory,
+  day: number
+): ReturnedPotions & { book: StandingOrder[]; errors: string[] } {
+  const errors: string[] = [];
+  const cancelled = new Set<string>();
+  for (const orderId of orderIds) {
+    const order = book.find(
+      (o) => o.id === orderId && o.playerIdx === playerIdx
+    );
+    if (!order) {
+      errors.push(`Unknown standing order ${orderId}. Cancel ignored.`);
+      continue;
+    }
+    cancelled.add(orderId);
+  }
+
+  return {
+    ...returnReserved(
+      book.filter((order) => cancelled.has(order.id)),
+      inventory,
+      day
+    ),
+    book: book.filter((order) => !cancelled.has(order.id)),
+    errors,
+  };
+}
+
+function returnReserved(
+  orders: StandingOrder[],
+  inventory: PlayerInventory,
+  day: number
+): ReturnedPotions {
+  const returned: Partial<Record<PotionId, number>> = {};
+  const returnedAges: Partial<Record<PotionId, number[]>> = {};
+  for (const order of orders) {
+    if (order.type !== "sell-potion" || order.remaining === 0) continue;
+    inventory.potions[order.potionId] += order.remaining;
+    returned[order.potionId] =
+      (returned[order.potionId] ?? 0) + order.remaining;
+    returnedAges[order.potionId] = mergeAges(
+      returnedAges[order.potionId],
+      getReturnedAges(order.ages, order.remaining, order.placedDay, day)
+    );
+  }
+  return { returned, returnedAges };
+}
+
+// A player's herb buy orders that trigger at today's prices
+export function getTriggeredHerbBuys(
+  book: StandingOrder[],
+  playerIdx: number,
+  prices: Record<HerbId, number>
+): HerbBuyOrder[] {
+  return book.filter(
+    (order): order is HerbBuyOrder =>
+      order.type === "buy-herb" &&
+      order.playerIdx === playerIdx &&
+      order.remaining > 0 &&
+      prices[order.herbId] <= order.maxPrice
+  );
+}
+
+// A player's sell orders as today's market offers; the listing fee shows on
+// the day an order was placed
+export function getStandingOffers(
+  book: StandingOrder[],
+  playerIdx: number,
+  day: number
+): PotionOffer[] {
+  return book.flatMap((order) =>
+    order.type === "sell-potion" &&
+    order.playerIdx === playerIdx &&
+    order.remaining > 0
+      ? [
+          {
+            potionId: order.potionId,
+            price: order.price,
+            qty: order.remaining,
+            orderId: order.id,
+            ...(order.placedDay === day &&
+              order.listingFee && { listingFee: order.listingFee }),
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * End of day: drop filled orders and those expiring today, giving unsold
+ * potions back (inventories are mutated, by player index).
+ */
+export function closeStandingOrders(
+  book: StandingOrder[],
+  day: number,
+  inventories: PlayerInventory[]
+): { book: StandingOrder[]; returned: ReturnedPotions[] } {
+  const returned = inventories.map((inventory, playerIdx) =>
+    returnReserved(
+      book.filter(
+        (order) => order.playerIdx === playerIdx && order.expiresDay <= day
+      ),
+      inventory,
+      day
+    )
+  );
+  return {
+    book: book.filter(
+      (order) => order.remaining > 0 && order.expiresDay > day
+    ),
+    returned,
+  };
+}
+
+// Rules text for players and the AI prompt
+export function describeStandingOrders(): string {
+  return "Standing orders stay active for several days. A standing herb buy fills every morning (after your normal purchases) while the herb's price is at most your max price, until the quantity is bought. A standing potion sell takes its potions out of your inventory (after crafting) and offers them in every day's market until they sell; cancelled or expired orders return unsold potions, which keep ageing while listed.";
+}
+
+// "o3-0-1: buy H05 ≤45g, 6/10 left, until day 7"
+export function formatStandingOrders(orders: StandingOrder[]): string {
+  if (orders.length === 0) return "No open standing orders.";
+  return orders
+    .map((order) =>
+      order.type === "buy-herb"
+        ? `${order.id}: buy ${order.herbId} ≤${order.maxPrice}g, ${order.remaining}/${order.qty} left, until day ${order.expiresDay}`
+        : `${order.id}: sell ${order.potionId} @${order.price}g, ${order.remaining}/${order.qty} left, until day ${order.expiresDay}`
+    )
+    .join("\n");
+}
@@ -0,0 +1,128 @@
+import { Random } from "random";
+import { TimeSeriesModel, Tier } from "./types";
+
+// Daily herb price / potion demand generators. Each returns unrounded values
+// per day and id; all randomness comes from the game's seeded Random, so a
+// seed still fully determines the game.
+
+// Persistent models are kept within these multiples of the base value
+const MIN_FACTOR = 0.2;
+const MAX_FACTOR = 5;
+
+function clampToBase(value: number, base: number): number {
+  return Math.min(base * MAX_FACTOR, Math.max(base * MIN_FACTOR, value));
+}
+
+/**
+ * Generate `days` daily values around `bases`. `spread` is the config's daily
+ * spread, used as the noise of the uniform, seasonal and correlated models.
+ * Without a model (or with "uniform") the draws match the original generator.
+ */
+export function generateDailySeries<K extends string>(
+  bases: Record<K, number>,
+  tierOf: (id: K) => Tier,
+  days: number,
+  spread: number,
+  model: TimeSeriesModel | undefined,
+  rng: Random
+): Record<K, number>[] {
+  const ids = Object.keys(bases) as K[];
+  const noise = (amount: number) => rng.float(-amount, amount);
+  const series = [] as Record<K, number>[];
+  const level = { ...bases };
+
+  // Drawn up front so every day uses the same number of draws
+  const phases = {} as Record<K, number>;
+  if (model?.type === "seasonal") {
+    for (const id of ids) phases[id] = rng.float(0, 2 * Math.PI);
+  }
+  let marketShock = 0;
+  const tierShocks: Record<Tier, number> = { T1: 0, T2: 0, T3: 0 };
+
+  for (let day = 0; day < days; day++) {
+    if (model?.type === "correlated-shocks") {
+      marketShock =
+        model.persistence * marketShock + noise(model.marketVolatility);
+      for (const tier of Object.keys(tierShocks) as Tier[]) {
+        tierShocks[tier] =
+          model.persistence * tierShocks[tier] + noise(model.tierVolatility);
+      }
+    }
+
+    const values = {} as Record<K, number>;
+    for (const id of ids) {
+      const base = bases[id];
+      switch (model?.type) {
+        case undefined:
+        case "uniform":
+          values[id] = base * (1 + noise(spread));
+          break;
+        case "random-walk":
+          level[id] = clampToBase(
+            level[id] * (1 + noise(model.volatility)),
+            base
+          );
+          values[id] = level[id];
+          break;
+        case "mean-reverting":
+          level[id] = clampToBase(
+            level[id] +
+              model.reversion * (base - level[id]) +
+              base * noise(model.volatility),
+            base
+          );
+          values[id] = level[id];
+          break;
+        case "seasonal": {
+          const cycle = Math.sin((2 * Math.PI * day) / model.period + phases[id]);
+          values[id] = clampToBase(
+            base * (1 + model.amplitude * cycle + noise(spread)),
+            base
+          );
+          break;
+        }
+        case "correlated-shocks":
+          values[id] = clampToBase(
+            base * (1 + marketShock + tierShocks[tierOf(id)] + noise(spread)),
+            base
+          );
+          break;
+      }
+    }
+    series.push(values);
+  }
+  return series;
+}
+
+// Rules text for players and the AI prompt
+export function describeTimeSeriesModel(
+  model: TimeSeriesModel,
+  subject: string
+): string {
+  switch (model.type) {
+    case "uniform":
+      return `${subject} vary randomly around a fixed base each day, independent of earlier days.`;
+    case "random-walk":
+      return `${subject} follow a random walk: each day moves up to ±${Math.round(
+        model.volatility * 100
+      )}% from the day before, with no pull back to a base.`;
+    case "mean-reverting":
+      return `${subject} drift randomly (±${Math.round(
+        model.volatility * 100
+      )}% of base per day) but are pulled back toward their base, closing ${Math.round(
+        model.reversion * 100
+      )}% of the gap each day. Unusually high or low values tend not to last.`;
+    case "seasonal":
+      return `${subject} follow a seasonal cycle of ${model.period} days (up to ±${Math.round(
+        model.amplitude * 100
+      )}% from base) plus daily noise. Each item has its own phase in the cycle.`;
+    case "correlated-shocks":
+      return `${subject} move together: market-wide shocks (±${Math.round(
+        model.marketVolatility * 100
+      )}%) and per-tier shocks (±${Math.round(
+        model.tierVolatility * 100
+      )}%) hit all items at once and ${Math.round(
+        model.persistence * 100
+      )}% of each shock carries over to the next day.`;
+  }
+}
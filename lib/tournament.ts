@@ -0,0 +1,213 @@
+import { cloneDeep } from "lodash";
+import { getWithDefaultConfig } from "./defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "./game-engine";
+import {
+  Game,
+  GameConfig,
+  GameState,
+  Player,
+  PlayerInputs,
+  PlayerOutputs,
+} from "./types";
+
+// Context handed to a decision function alongside its inputs
+export type DecisionContext = {
+  seed: string;
+  day: number;
+  playerIdx: number;
+  game: Game;
+};
+
+// Decides one player's actions for one day (scripted bot, LLM wrapper, ...)
+export type DecisionFn = (
+  inputs: PlayerInputs,
+  context: DecisionContext
+) => PlayerOutputs | Promise<PlayerOutputs>;
+
+export type TournamentEntrant = {
+  id: string;
+  decide: DecisionFn;
+  model?: string; // Shown as Player.model, defaults to "scripted"
+  strategyPrompt?: string;
+};
+
+export type TournamentOptions = {
+  entrants: TournamentEntrant[];
+  seeds: string[];
+  days?: number;
+  // "rotate" plays every seed once per rotation of the seating order so each
+  // entrant sits in every seat; "fixed" plays every seed once in entrant order
+  seatings?: "rotate" | "fixed";
+  // Override the game config (defaults to getWithDefaultConfig)
+  createConfig?: (seed: string, players: Player[], days: number) => GameConfig;
+  // Called after every finished game (progress reporting)
+  onGameComplete?: (result: TournamentGameResult) => void;
+};
+
+export type TournamentGameResult = {
+  seed: string;
+  seating: string[]; // Entrant ids by seat index
+  finalGold: number[]; // Final scores by seat index (see lib/scoring.ts)
+  ranks: number[]; // By seat index, 1 = best, ties share a rank
+  errorCount: number[]; // By seat index, sanitization errors over all days
+  finalState: GameState;
+};
+
+export type TournamentStanding = {
+  entrantId: string;
+  games: number;
+  meanFinalGold: number;
+  winRate: number; // Share of games finished at rank 1 (shared first counts)
+  meanRank: number;
+  rankDistribution: number[]; // rankDistribution[r - 1] = games finished at rank r
+  totalErrors: number;
+};
+
+export type TournamentResult = {
+  games: TournamentGameResult[];
+  standings: TournamentStanding[];
+};
+
+// Build the seat orders to play for every seed
+export function buildSeatings(
+  entrantCount: number,
+  mode: "rotate" | "fixed" = "rotate"
+): number[][] {
+  const base = Array.from({ length: entrantCount }, (_, i) => i);
+  if (mode === "fixed") return [base];
+  return base.map((shift) =>
+    base.map((_, seat) => (seat + shift) % entrantCount)
+  );
+}
+
+// Play one full game headlessly, driving the engine exactly like gameWorkflow
+export async function playHeadlessGame(
+  config: GameConfig,
+  deciders: DecisionFn[]
+): Promise<GameState> {
+  if (deciders.length !== config.runtime.players.length) {
+    throw new Error(
+      `Expected ${config.runtime.players.length} decision functions, got ${deciders.length}`
+    );
+  }
+
+  const game = setupGame(config.generation);
+  let gameState: GameState = {
+    ...initializeGameState(config.runtime, config.generation.contentPack),
+    playerNames: config.runtime.players.map((p) => p.name),
+  };
+
+  for (let day = 1; day <= config.generation.days; day++) {
+    const playerOutputs = await Promise.all(
+      deciders.map((decide, playerIdx) =>
+        // Clone inputs so a decision function can't mutate engine state
+        // (in the workflow the step boundary does this via serialization)
+        decide(
+          cloneDeep(getPlayerInputs(game, config, day, gameState, playerIdx)),
+          { seed: config.generation.seed, day, playerIdx, game }
+        )
+      )
+    );
+    gameState = processGameDay(playerOutputs, gameState, game);
+  }
+
+  return gameState;
+}
+
+export async function runTournament(
+  options: TournamentOptions
+): Promise<TournamentResult> {
+  const { entrants, seeds } = options;
+  const days = options.days ?? 5;
+  const createConfig = options.createConfig ?? getWithDefaultConfig;
+
+  if (entrants.length === 0) throw new Error("Tournament needs entrants");
+  if (new Set(entrants.map((e) => e.id)).size !== entrants.length) {
+    throw new Error("Tournament entrant ids must be unique");
+  }
+
+  const seatings = buildSeatings(entrants.length, options.seatings);
+  const games: TournamentGameResult[] = [];
+
+  for (const seed of seeds) {
+    for (const seating of seatings) {
+      const seated = seating.map((entrantIdx) => entrants[entrantIdx]);
+      const players: Player[] = seated.map((e) => ({
+        name: e.id,
+        model: e.model ?? "scripted",
+        strategyPrompt: e.strategyPrompt,
+      }));
+      const config = createConfig(seed, players, days);
+
+      const finalState = await playHeadlessGame(
+        config,
+        seated.map((e) => e.decide)
+      );
+
+      // The engine settles the standings on the last day
+      const standings = finalState.finalStandings!;
+      const result: TournamentGameResult = {
+        seed,
+        seating: seated.map((e) => e.id),
+        finalGold: standings.map((standing) => standing.score),
+        ranks: standings.map((standing) => standing.rank),
+        errorCount: seated.map((_, seatIdx) =>
+          finalState.dayRecords.reduce(
+            (sum, record) =>
+              sum + (record.playerActions[seatIdx]?.errors.length || 0),
+            0
+          )
+        ),
+        finalState,
+      };
+      games.push(result);
+      options.onGameComplete?.(result);
+    }
+  }
+
+  return { games, standings: computeStandings(entrants, games) };
+}
+
+// Aggregate per-game results into standings, best mean gold first
+export function computeStandings(
+  entrants: Pick<TournamentEntrant, "id">[],
+  games: TournamentGameResult[]
+): TournamentStanding[] {
+  return entrants
+    .map((entrant) => {
+      let played = 0;
+      let goldSum = 0;
+      let rankSum = 0;
+      let wins = 0;
+      let totalErrors = 0;
+      const rankDistribution = new Array(entrants.length).fill(0);
+
+      for (const game of games) {
+        const seatIdx = game.seating.indexOf(entrant.id);
+        if (seatIdx < 0) continue;
+        const rank = game.ranks[seatIdx];
+        played++;
+        goldSum += game.finalGold[seatIdx];
+        rankSum += rank;
+        totalErrors += game.errorCount[seatIdx];
+        rankDistribution[rank - 1]++;
+        if (rank === 1) wins++;
+      }
+
+      return {
+        entrantId: entrant.id,
+        games: played,
+        meanFinalGold: played > 0 ? goldSum / played : 0,
+        winRate: played > 0 ? wins / played : 0,
+        meanRank: played > 0 ? rankSum / played : 0,
+        rankDistribution,
+        totalErrors,
+      };
+    })
+    .sort((a, b) => b.meanFinalGold - a.meanFinalGold);
+}
@@ -0,0 +1,165 @@
+import { Content, isHerbId, isPotionId } from "./content-packs";
+import { PlayerInventory, TradeOrder } from "./types";
+
+// Private player-to-player trades. Every player may address sell and buy
+// orders to other players; they are matched before anyone buys herbs. What an
+// order leaves unmatched stays open one more day (GameState.openTrades), so
+// the player it names can accept it, and then lapses.
+
+function holdings(inventory: PlayerInventory, itemId: string) {
+  return Object.hasOwn(inventory.herbs, itemId)
+    ? inventory.herbs
+    : inventory.potions;
+}
+
+function describeOrder(order: TradeOrder): string {
+  return order.side === "sell"
+    ? `sell ${order.qty} ${order.itemId} to player #${order.playerIdx}`
+    : `buy ${order.qty} ${order.itemId} from player #${order.playerIdx}`;
+}
+
+/**
+ * Match every player's trade orders and move the goods and gold. Mutates
+ * `inventories`. A seller's orders (yesterday's open ones first) are matched
+ * in the order given against the buyer's orders for the same item, each deal
+ * at the seller's price and limited by what the seller holds and the buyer
+ * can pay. Returns what today's orders left open for tomorrow.
+ */
+export function settleTrades(
+  orders: (TradeOrder[] | undefined)[],
+  inventories: PlayerInventory[],
+  content: Content,
+  openTrades: TradeOrder[][] = []
+): { trades: TradeOrder[][]; errors: string[][]; open: TradeOrder[][] } {
+  const trades = inventories.map(() => [] as TradeOrder[]);
+  const errors = inventories.map(() => [] as string[]);
+
+  // Validate, keeping how much of each order is still open. Yesterday's
+  // orders were validated when placed.
+  const open = orders.map((playerOrders, idx) => [
+    ...(openTrades[idx] ?? []).map((order) => ({
+      order,
+      left: order.qty,
+      carried: true,
+    })),
+    ...(playerOrders ?? []).flatMap((order) => {
+      const partner = inventories[order.playerIdx];
+      if (!partner || order.playerIdx === idx) {
+        errors[idx].push(
+          `Unknown trade partner #${order.playerIdx}. Trade ignored.`
+        );
+        return [];
+      }
+      if (
+        !isHerbId(content, order.itemId) &&
+        !isPotionId(content, order.itemId)
+      ) {
+        errors[idx].push(`Unknown item ${order.itemId}. Trade ignored.`);
+        return [];
+      }
+      return order.qty > 0 ? [{ order, left: order.qty, carried: false }] : [];
+    }),
+  ]);
+
+  open.forEach((sellerOrders, sellerIdx) => {
+    for (const sell of sellerOrders) {
+      if (sell.order.side !== "sell") continue;
+      const buyerIdx = sell.order.playerIdx;
+      const seller = inventories[sellerIdx];
+      const buyer = inventories[buyerIdx];
+
+      for (const buy of open[buyerIdx]) {
+        if (
+          sell.left === 0 ||
+          buy.left === 0 ||
+          buy.order.side !== "buy" ||
+          buy.order.playerIdx !== sellerIdx ||
+          buy.order.itemId !== sell.order.itemId ||
+          buy.order.price < sell.order.price
+        ) {
+          continue;
+        }
+
+        const { itemId, price } = sell.order;
+        const qty = Math.min(
+          sell.left,
+          buy.left,
+          holdings(seller, itemId)[itemId],
+          price > 0 ? Math.floor(buyer.gold / price) : Number.POSITIVE_INFINITY
+        );
+        if (qty <= 0) continue;
+
+        holdings(seller, itemId)[itemId] -= qty;
+        holdings(buyer, itemId)[itemId] += qty;
+        seller.gold += qty * price;
+        buyer.gold -= qty * price;
+        sell.left -= qty;
+        buy.left -= qty;
+
+        trades[sellerIdx].push({
+          side: "sell",
+          playerIdx: buyerIdx,
+          itemId,
+          qty,
+          price,
+        });
+        trades[buyerIdx].push({
+          side: "buy",
+          playerIdx: sellerIdx,
+          itemId,
+          qty,
+          price,
+        });
+      }
+    }
+  });
+
+  open.forEach((playerOrders, idx) => {
+    for (const { order, left, carried } of playerOrders) {
+      if (left === 0) continue;
+      if (carried) {
+        errors[idx].push(
+          `Trade lapsed: ${describeOrder({ ...order, qty: left })} at ${
+            order.price
+          }g.`
+        );
+        continue;
+      }
+      errors[idx].push(
+        left === order.qty
+          ? `Trade not matched: ${describeOrder(order)} at ${
+              order.price
+            }g. Open until tomorrow.`
+          : `Trade partly matched: ${describeOrder(order)} at ${
+              order.price
+            }g. Traded ${order.qty - left}, the rest is open until tomorrow.`
+      );
+    }
+  });
+
+  return {
+    trades,
+    errors,
+    open: open.map((playerOrders) =>
+      playerOrders
+        .filter(({ left, carried }) => left > 0 && !carried)
+        .map(({ order, left }) => ({ ...order, qty: left }))
+    ),
+  };
+}
+
+// Rules text for players and the AI prompt
+export function describePlayerTrading(): string {
+  return "Before herbs are bought each day, players can trade herbs and potions privately. A sell order and a buy order match when they name each other and the same item and the buyer's price is at least the seller's; the deal happens at the seller's price, limited by the seller's stock and the buyer's gold. What an order leaves unmatched stays open one more day, so the other player can accept it, then lapses.";
+}
+
+// Compact "sold H01:3 to #1 @12g" listing
+export function formatTrades(trades: TradeOrder[]): string {
+  return trades
+    .map(({ side, playerIdx, itemId, qty, price }) =>
+      side === "sell"
+        ? `sold ${itemId}:${qty} to #${playerIdx} @${price}g`
+        : `bought ${itemId}:${qty} from #${playerIdx} @${price}g`
+    )
+    .join(", ");
+}
@@ -10,11 +10,224 @@ export type GenerationConfig = {
   potionTierBaseDemands: Record<Tier, number>;
   potionTierBaseDemandSpread: Record<Tier, number>;
   potionDailyDemandSpread: number;
+  marketMechanism?: MarketMechanism; // Defaults to "cheapest-first"
+  demandCurve?: DemandCurve; // Omit for fixed demand (price-insensitive buyers)
+  herbSupply?: HerbSupplyConfig; // Omit for unlimited herbs
+  spoilage?: SpoilageConfig; // Omit to keep stock forever for free
+  dynamicDemand?: DynamicDemandConfig; // Omit for demand fixed up front
+  marketEvents?: MarketEventsConfig; // Omit for no random events
+  // Omit for independent daily noise around the base (the *DailySpread fields)
+  herbPriceModel?: TimeSeriesModel;
+  potionDemandModel?: TimeSeriesModel;
+  contentPack?: ContentPack; // Omit for the classic herbs and potions
+  playerTrading?: boolean; // Let players trade privately (see lib/trading.ts)
+  credit?: CreditConfig; // Omit to forbid borrowing
+  standingOrders?: boolean; // Allow orders that last several days
+  herbSellBack?: HerbSellBackConfig; // Omit to forbid selling herbs back
+  finalScoring?: FinalScoring; // Defaults to "gold"
+  fees?: FeeConfig; // Omit for a frictionless market
+  notebook?: NotebookConfig; // Omit to give players no memory across days
+};
+
+// A private scratchpad each player rewrites daily (see lib/notebook.ts)
+export type NotebookConfig = {
+  maxChars: number; // Longer notes are cut off
+};
+
+// Market fees (see lib/fees.ts). Every part is optional and defaults to 0.
+export type FeeConfig = {
+  listingFee?: number; // Gold per potion offer posted
+  salesTax?: number; // Fraction of sales revenue, 0-1
+  stallRent?: number; // Gold per day with anything on the market
+};
+
+// Selling herbs back to the herb market (see lib/scoring.ts)
+export type HerbSellBackConfig = {
+  discount: number; // Fraction taken off the day's herb price, 0-1
+};
+
+// How final standings are scored. "gold" counts gold minus debt only;
+// "net-worth" also values leftover herbs and potions at liquidation prices.
+export type FinalScoring = "gold" | "net-worth";
+
+// A player's result once the last day is processed (see lib/scoring.ts)
+export type FinalStanding = {
+  playerIdx: number;
+  rank: number; // 1 = best, ties share a rank
+  score: number;
+  gold: number;
+  debt: number;
+  inventoryValue: number; // Only counted in the score with "net-worth"
+};
+
+// Borrowing gold (see lib/credit.ts). Debt counts against final scores.
+export type CreditConfig = {
+  limit: number; // Most gold a player may owe when borrowing
+  dailyInterestRate: number; // Fraction of the debt added every night
+};
+
+// How daily herb prices / potion demand evolve around their base values (see
+// lib/time-series.ts). Volatilities are fractions of the base value.
+export type TimeSeriesModel =
+  | { type: "uniform" } // Independent noise of the config's daily spread
+  | { type: "random-walk"; volatility: number }
+  | {
+      type: "mean-reverting"; // Discrete Ornstein-Uhlenbeck
+      reversion: number; // 0-1, share of the gap to base closed each day
+      volatility: number;
+    }
+  | {
+      type: "seasonal";
+      amplitude: number; // Peak deviation from base
+      period: number; // Days per cycle
+    }
+  | {
+      type: "correlated-shocks"; // Market-wide and per-tier shocks
+      marketVolatility: number;
+      tierVolatility: number;
+      persistence: number; // 0-1, share of yesterday's shock carried over
+    };
+
+// Seeded random events (see lib/market-events.ts)
+export type MarketEventsConfig = {
+  dailyChance: number; // 0-1, chance that a new event starts on a given day
+  forecast?: boolean; // Tell players about events starting tomorrow
+};
+
+export type MarketEventKind =
+  | "herb-blight"
+  | "bumper-harvest"
+  | "plague"
+  | "festival";
+
+// An event and its effect on the generated prices and demand
+export type MarketEvent = {
+  kind: MarketEventKind;
+  name: string;
+  description: string;
+  startDay: number; // 1-based, inclusive
+  endDay: number; // 1-based, inclusive
+  herbPriceMultipliers?: Partial<Record<HerbId, number>>;
+  potionDemandMultipliers?: Partial<Record<PotionId, number>>;
+};
+
+// Demand that reacts to earlier days (see lib/dynamic-demand.ts)
+export type DynamicDemandConfig = {
+  saturation: number; // Demand lost per fully flooded day (offered >= 2x demand)
+  pentUp: number; // Demand gained per fully starved day (nothing sold)
+  memory: number; // 0-1, weight of each older day relative to the next
+};
+
+// Optional decay of held stock (see lib/spoilage.ts). Items age by one day
+// each night; shelf life N means an item can be used on N days in total.
+export type SpoilageConfig = {
+  herbShelfLife?: number;
+  potionShelfLife?: number;
+  herbStorageFee?: number; // Gold per herb held overnight
+  potionStorageFee?: number; // Gold per potion held overnight
+};
+
+// Quantity held per age in days (index 0 = acquired today), per item
+export type InventoryAges = {
+  herbs: Partial<Record<HerbId, number[]>>;
+  potions: Partial<Record<PotionId, number[]>>;
+};
+
+// Limited daily herb stock shared by all players
+export type HerbSupplyConfig = {
+  // Units per herb per day, scaled by 0.5 * playerCount like potion demand
+  tierBaseSupplies: Record<Tier, number>;
+  dailySupplySpread: number;
+  // Herb price rises by this fraction of the day's price when orders take the
+  // whole supply (linear in volume bought, same price for every buyer)
+  priceImpact?: number;
+};
+
+// How potion offers are matched against demand (see lib/market-mechanisms.ts)
+export type MarketMechanism =
+  | "cheapest-first"
+  | "uniform-price"
+  | "price-elastic"
+  | "sealed-bid";
+
+// Price sensitivity of potion buyers (see lib/demand-curves.ts). Reservation
+// prices are per potion tier; nobody buys at or above them.
+export type DemandCurve =
+  | { type: "linear"; reservationPrices: Record<Tier, number> }
+  | {
+      type: "constant-elasticity";
+      elasticity: number;
+      referencePrices: Record<Tier, number>; // Full demand up to this price
+      reservationPrices: Record<Tier, number>;
+    };
+
+// Per-game rules that players (and the AI prompt) need to be told about
+export type GameRules = {
+  marketMechanism: MarketMechanism;
+  demandCurve?: DemandCurve;
+  herbPriceImpact?: number; // Only set when herb supply is limited
+  spoilage?: SpoilageConfig;
+  dynamicDemand?: DynamicDemandConfig;
+  herbPriceModel?: TimeSeriesModel;
+  potionDemandModel?: TimeSeriesModel;
+  contentPack?: ContentPack; // Only set for games not using the classic pack
+  playerTrading?: boolean;
+  credit?: CreditConfig;
+  standingOrders?: boolean;
+  herbSellBack?: HerbSellBackConfig;
+  finalScoring?: FinalScoring;
+  fees?: FeeConfig;
+  notebook?: NotebookConfig;
 };
 
 export type RuntimeConfig = {
   players: Player[];
   startingGold: number;
+  failurePolicy?: FailurePolicy; // Without one, a failed LLM call disqualifies
+  spendLimits?: SpendLimits; // Without them, calls may take and cost anything
+};
+
+// Time and money limits of LLM players (see lib/spend-limits.ts)
+export type SpendLimits = {
+  callTimeoutMs?: number; // Per decision, including revisions and tool calls
+  onTimeout: "hold" | "fail"; // Hold for the day, or fail under the failure policy
+  playerBudgetUsd?: number; // Spend per player over the whole game
+  gameBudgetUsd?: number; // Spend of all players together
+  overBudget: "hold" | "disqualified"; // What happens to players once spent
+};
+
+// An LLM player stopped for the rest of the game by a spend limit
+export type BudgetStop = {
+  day: number; // 0 for the name phase
+  playerIdx: number;
+  reason: string;
+  outcome: SpendLimits["overBudget"];
+};
+
+// How the workflow handles failed LLM calls (see lib/failure-policy.ts)
+export type FailurePolicy = {
+  retries: number; // Extra attempts per call, with exponential backoff
+  backoffMs: number; // Wait before the first retry; doubles with every retry
+  repairJson: boolean; // Try to salvage a plan from malformed JSON output
+  fallbackModel?: string; // Model asked once retries are used up
+  maxStrikes: number; // Failed days until disqualification; earlier ones hold
+};
+
+// What became of a failed call: retried, repaired from its raw text, handed
+// to the fallback model, skipped with a "hold" day, or disqualified
+export type FailureRecovery =
+  | "retry"
+  | "repaired"
+  | "fallback"
+  | "hold"
+  | "disqualified";
+
+export type PlayerFailure = {
+  day: number; // 0 for the name phase
+  playerIdx: number;
+  model: string;
+  error: string;
+  recovery: FailureRecovery;
 };
 
 export type GameConfig = {
@@ -26,19 +239,70 @@ export type PlayerInventory = {
   herbs: Record<HerbId, number>;
   potions: Record<PotionId, number>;
   gold: number;
+  debt?: number; // Gold owed, including interest (only with credit)
 };
 
+// How a seat makes its decisions: an LLM call, a human via UI, or a built-in bot
+export type PlayerAgentType = "llm" | "human" | "bot";
+
 export type Player = {
   name: string;
   model: string;
   isHuman?: boolean; // If true, this player is controlled by a human via UI
+  agent?: PlayerAgentType; // Defaults to "human" if isHuman, otherwise "llm"
+  botId?: string; // Built-in bot id (see lib/agents.ts) when agent is "bot"
   strategyPrompt?: string; // Custom strategy prompt to guide AI decision-making
+  llmMode?: LlmMode; // How an LLM player decides; defaults to "one-shot"
+  toolCallBudget?: number; // Tool calls per day in "tools" mode
+  maxRevisions?: number; // "one-shot" retries of a plan the dry run rejects (0-2)
+};
+
+// "one-shot" answers one prompt with a JSON plan; "tools" lets the model call
+// game-aware tools (see lib/agent-tools.ts) before submitting its plan
+export type LlmMode = "one-shot" | "tools";
+
+// One tool call of an LLM player in "tools" mode, with what it returned
+export type ToolCallRecord = {
+  tool: string;
+  input: unknown;
+  output: unknown;
+};
+
+// A plan an LLM player revised before submitting, and the dry-run errors
+// that sent it back
+export type PlanRevision = {
+  outputs: PlayerOutputs;
+  errors: string[];
 };
 
 export type Game = {
+  seed?: string; // For randomness during play (crafting failures)
   herbDailyPrices: Record<HerbId, number>[];
   potionDailyDemands: Record<PotionId, number>[];
   herbTierBasePrices: Record<Tier, number>; // Used for price capping
+  marketMechanism?: MarketMechanism;
+  demandCurve?: DemandCurve;
+  herbDailySupplies?: Record<HerbId, number>[]; // Unlimited when missing
+  herbPriceImpact?: number;
+  spoilage?: SpoilageConfig;
+  dynamicDemand?: DynamicDemandConfig;
+  marketEvents?: MarketEvent[]; // Already applied to prices and demand
+  forecastEvents?: boolean;
+  herbPriceModel?: TimeSeriesModel;
+  potionDemandModel?: TimeSeriesModel;
+  contentPack?: ContentPack; // Classic pack when missing
+  playerTrading?: boolean;
+  credit?: CreditConfig;
+  standingOrders?: boolean;
+  herbSellBack?: HerbSellBackConfig;
+  finalScoring?: FinalScoring;
+  fees?: FeeConfig;
+  notebook?: NotebookConfig;
+};
+
+export type ItemQuantities = {
+  herbs: Partial<Record<HerbId, number>>;
+  potions: Partial<Record<PotionId, number>>;
 };
 
 // Detailed record of what happened in a day for each player
@@ -49,30 +313,80 @@ export type PlayerDayActions = {
   requestedBuyHerbs: { herbId: HerbId; qty: number }[];
   requestedMakePotions: { potionId: PotionId; qty: number }[];
   requestedOffers: PotionOffer[];
+  // Always with player trading, otherwise only if the player sent it anyway
+  requestedTrades?: TradeOrder[];
+  requestedLoan?: LoanRequest; // Always with credit, otherwise only if sent
+  // Always with standing orders, otherwise only if the player sent them anyway
+  requestedStandingOrders?: StandingOrderRequest[];
+  requestedCancels?: string[];
+  // Always with sell-back, otherwise only if the player sent it anyway
+  requestedSellHerbs?: { herbId: HerbId; qty: number }[];
+  requestedNotes?: string; // Unset keeps the old notes
   // What actually happened (after validation)
+  // Executed trades, each at the seller's price (only with player trading)
+  trades?: TradeOrder[];
   actualBuyHerbs: { herbId: HerbId; qty: number; cost: number }[];
-  actualMakePotions: { potionId: PotionId; qty: number }[];
+  // qty is potions gained; crafts (only set when different) is how many
+  // crafts used herbs, failed how many of those produced nothing
+  actualMakePotions: {
+    potionId: PotionId;
+    qty: number;
+    crafts?: number;
+    failed?: number;
+  }[];
   actualOffers: PotionOffer[];
+  // Herbs sold back after crafting, at the discounted price (only with sell-back)
+  herbSales?: { herbId: HerbId; qty: number; price: number; revenue: number }[];
+  // Herb orders vs. what the limited supply allowed (only with herb supply)
+  herbFills?: {
+    herbId: HerbId;
+    requested: number;
+    allocated: number; // This player's share of the day's supply
+    bought: number;
+  }[];
   // Errors during validation
   errors: string[];
-  // Inventory at end of day (after market)
+  // The notebook after today's notes (only with the notebook)
+  notes?: string;
+  // Inventory at end of day (after market, spoilage and storage fees)
   endInventory: PlayerInventory;
+  // Potions back in inventory from cancelled or expired sell orders
+  orderReturns?: Partial<Record<PotionId, number>>;
+  // Gold borrowed in the morning, repaid in the evening and interest added
+  // to the debt overnight (only with credit)
+  loan?: { borrowed: number; repaid: number; interest: number };
+  // Stock that spoiled overnight and gold paid for storage (only with spoilage)
+  spoiled?: ItemQuantities;
+  storageFee?: number;
   // Market results for this player
+  // revenue is before fees; listingFee and tax are only set with fees
   salesResults: {
     potionId: PotionId;
     offered: number;
     sold: number;
     price: number;
     revenue: number;
+    listingFee?: number;
+    tax?: number;
   }[];
+  // Stall rent paid in the evening (only with fees)
+  stallRent?: number;
   // AI reasoning (if available) - shows the model's thought process
   reasoning?: string;
+  // Tool calls made before submitting (LLM players in "tools" mode)
+  toolTranscript?: ToolCallRecord[];
+  // Earlier plans of this day that failed the dry run, oldest first
+  planRevisions?: PlanRevision[];
 };
 
 export type DayRecord = {
   day: number;
   herbPrices: Record<HerbId, number>;
+  herbSupplies?: Record<HerbId, number>; // Only with limited herb supply
+  herbPurchasePrices?: Record<HerbId, number>; // Prices after volume impact
   potionDemands: Record<PotionId, number>;
+  events?: MarketEvent[]; // Market events active this day
+  standingOrderFills?: StandingOrderFill[]; // Only with standing orders
   playerActions: PlayerDayActions[];
   marketSummary: ProcessedMarket;
 };
@@ -86,11 +400,13 @@ export type PlayerUsageStats = {
   costUsd: number;
   totalTimeMs: number;
   callCount: number;
+  failedCalls?: number; // Calls that failed, recovered or not
 };
 
 export type GameState = {
   currentDay: number;
   playerInventories: PlayerInventory[];
+  // Realized potion demand per day (after dynamic demand, if enabled)
   historicDemands: Record<PotionId, number>[];
   lastDayErrorsByPlayer: string[][];
   unprocessedOffersByDay: PotionOffer[][];
@@ -99,8 +415,24 @@ export type GameState = {
   dayRecords: DayRecord[];
   // AI-chosen player names (set at game start)
   playerNames?: string[];
+  // Set once the last day is processed, by player index
+  finalStandings?: FinalStanding[];
+  // Open standing orders of all players (only with standing orders)
+  orderBook?: StandingOrder[];
+  // Yesterday's unmatched trade orders by player, open today (only with trading)
+  openTrades?: TradeOrder[][];
+  // Each player's notebook (only with the notebook)
+  playerNotes?: string[];
+  // Age of every held item per player (only with spoilage)
+  inventoryAges?: InventoryAges[];
+  // Herbs and potions the game is played with (unset for the classic pack)
+  contentPack?: ContentPack;
   // Players that have been disqualified due to errors (by index)
   disqualifiedPlayers?: { playerIdx: number; reason: string }[];
+  // Failed LLM calls and how each was handled
+  playerFailures?: PlayerFailure[];
+  // Players stopped by a spend limit (held ones keep playing "hold" days)
+  budgetStops?: BudgetStop[];
   // Token usage and cost tracking per player (by index)
   playerUsageStats?: PlayerUsageStats[];
   // Human player support
@@ -114,6 +446,7 @@ export type GameState = {
 };
 
 export type ProcessedMarket = {
+  mechanism?: MarketMechanism; // Missing on games recorded before mechanisms existed
   processedOffers: PotionOffer[];
   potionInformation: Record<
     PotionId,
@@ -131,36 +464,161 @@ export type PotionOffer = {
   price: number;
   qty: number;
   actuallySold?: number;
+  salePrice?: number; // Price each sold unit fetched, when it differs from the ask
   playerIdx?: number;
+  orderId?: string; // Set when the offer comes from a standing order
+  listingFee?: number; // Paid when posted (only with fees)
+};
+
+// An order that stays active for several days (see lib/standing-orders.ts).
+// Herb buys fill whenever the day's price is at most maxPrice; potion sells
+// hold their potions on the market until sold, cancelled or expired.
+export type StandingOrderRequest =
+  | {
+      type: "buy-herb";
+      herbId: HerbId;
+      maxPrice: number;
+      qty: number;
+      days: number;
+    }
+  | {
+      type: "sell-potion";
+      potionId: PotionId;
+      price: number;
+      qty: number;
+      days: number;
+    };
+
+export type StandingOrder = StandingOrderRequest & {
+  id: string;
+  playerIdx: number;
+  placedDay: number;
+  expiresDay: number; // Last day the order is active
+  remaining: number;
+  ages?: number[]; // Sell orders with spoilage: ages of the reserved potions when placed
+  listingFee?: number; // Sell orders with fees: paid once, when placed
 };
 
+export type StandingOrderFill = {
+  orderId: string;
+  playerIdx: number;
+  itemId: HerbId | PotionId;
+  qty: number;
+  price: number; // Gold per unit paid or received
+};
+
+// A private offer to one other player, settled before herbs are bought.
+// A sell and a buy order match when they name each other and the same item
+// and the buyer's price is at least the seller's (see lib/trading.ts).
+export type TradeOrder = {
+  side: "sell" | "buy";
+  playerIdx: number; // The other player
+  itemId: HerbId | PotionId;
+  qty: number;
+  price: number; // Gold per unit: minimum when selling, maximum when buying
+};
+
+// Borrowing happens before anything else on a day, repaying after the
+// market has paid out
+export type LoanRequest = { borrow?: number; repay?: number };
+
 export type PlayerOutputs = {
   buyHerbs: { herbId: HerbId; qty: number }[];
   makePotions: { potionId: PotionId; qty: number }[];
   potionOffers: PotionOffer[];
+  trades?: TradeOrder[]; // Only used with player trading
+  loan?: LoanRequest; // Only used with credit
+  // Only used with standing orders
+  standingOrders?: StandingOrderRequest[];
+  cancelOrders?: string[]; // Ids of this player's open orders
+  sellHerbs?: { herbId: HerbId; qty: number }[]; // Only used with sell-back
+  notes?: string; // Replaces the notebook (only used with the notebook)
 };
 
-export const playerOutputsSchema = z.object({
-  buyHerbs: z.array(
-    z.object({
-      herbId: z.string().regex(/^H(0[1-9]|1[0-2])$/),
-      qty: z.number().int().nonnegative(),
-    })
-  ),
-  makePotions: z.array(
-    z.object({
-      potionId: z.string().regex(/^P(0[1-9]|1[0-8])$/),
-      qty: z.number().int().nonnegative(),
-    })
-  ),
-  potionOffers: z.array(
-    z.object({
-      potionId: z.string().regex(/^P(0[1-9]|1[0-8])$/),
-      price: z.number().int().positive(),
-      qty: z.number().int().nonnegative(),
-    })
-  ),
-});
+function idSchema(ids?: string[]) {
+  return ids ? z.enum(ids as [string, ...string[]]) : z.string().min(1);
+}
+
+// Pass the content pack's ids to restrict orders to them up front (e.g. for
+// the AI); without them any id passes and the engine rejects unknown ones
+export function createPlayerOutputsSchema(
+  herbIds?: HerbId[],
+  potionIds?: PotionId[]
+) {
+  return z.object({
+    buyHerbs: z.array(
+      z.object({
+        herbId: idSchema(herbIds),
+        qty: z.number().int().nonnegative(),
+      })
+    ),
+    makePotions: z.array(
+      z.object({
+        potionId: idSchema(potionIds),
+        qty: z.number().int().nonnegative(),
+      })
+    ),
+    potionOffers: z.array(
+      z.object({
+        potionId: idSchema(potionIds),
+        price: z.number().int().positive(),
+        qty: z.number().int().nonnegative(),
+      })
+    ),
+    trades: z
+      .array(
+        z.object({
+          side: z.enum(["sell", "buy"]),
+          playerIdx: z.number().int().nonnegative(),
+          itemId:
+            herbIds && potionIds
+              ? idSchema([...herbIds, ...potionIds])
+              : z.string().min(1),
+          qty: z.number().int().nonnegative(),
+          price: z.number().int().nonnegative(),
+        })
+      )
+      .optional(),
+    loan: z
+      .object({
+        borrow: z.number().int().nonnegative().optional(),
+        repay: z.number().int().nonnegative().optional(),
+      })
+      .optional(),
+    standingOrders: z
+      .array(
+        z.discriminatedUnion("type", [
+          z.object({
+            type: z.literal("buy-herb"),
+            herbId: idSchema(herbIds),
+            maxPrice: z.number().int().positive(),
+            qty: z.number().int().positive(),
+            days: z.number().int().positive(),
+          }),
+          z.object({
+            type: z.literal("sell-potion"),
+            potionId: idSchema(potionIds),
+            price: z.number().int().positive(),
+            qty: z.number().int().positive(),
+            days: z.number().int().positive(),
+          }),
+        ])
+      )
+      .optional(),
+    cancelOrders: z.array(z.string()).optional(),
+    sellHerbs: z
+      .array(
+        z.object({
+          herbId: idSchema(herbIds),
+          qty: z.number().int().nonnegative(),
+        })
+      )
+      .optional(),
+    notes: z.string().optional(),
+  });
+}
+
+export const playerOutputsSchema = createPlayerOutputsSchema();
 
 export type PlayerOutputsSchema = z.infer<typeof playerOutputsSchema>;
 
@@ -171,14 +629,14 @@ export type PlayerDayHistory = {
   goldStart: number;
   goldEnd: number;
   herbsBought: { herbId: HerbId; qty: number; cost: number }[];
-  potionsMade: { potionId: PotionId; qty: number }[];
-  sales: {
-    potionId: PotionId;
-    offered: number;
-    sold: number;
-    price: number;
-    revenue: number;
-  }[];
+  potionsMade: PlayerDayActions["actualMakePotions"];
+  sales: PlayerDayActions["salesResults"];
+  stallRent?: number;
+  spoiled?: ItemQuantities;
+  storageFee?: number;
+  trades?: TradeOrder[];
+  loan?: PlayerDayActions["loan"];
+  herbSales?: PlayerDayActions["herbSales"];
   errors: string[];
 };
 
@@ -193,8 +651,26 @@ export type PotionMarketData = {
 export type PlayerInputs = {
   inventory: PlayerInventory;
   dailyPrices: Record<HerbId, number>;
+  // Units of each herb for sale today, shared by all players (if limited)
+  dailySupplies?: Record<HerbId, number>;
+  // Held stock that spoils tonight unless used or sold (only with spoilage)
+  expiringTonight?: ItemQuantities;
+  // Market events active today, and those starting tomorrow if forecast
+  activeEvents?: MarketEvent[];
+  upcomingEvents?: MarketEvent[];
   // Market data for each day (what happened in the market)
   historicMarkets: Record<PotionId, PotionMarketData>[];
+  // Realized potion demand for each previous day
+  historicDemands: Record<PotionId, number>[];
+  // Other players to trade with, and the orders they addressed to this
+  // player yesterday that are still open today (playerIdx = who posted; only
+  // with player trading)
+  tradePartners?: { playerIdx: number; name: string }[];
+  tradeOffersToYou?: TradeOrder[];
+  // This player's open standing orders (only with standing orders)
+  openOrders?: StandingOrder[];
+  // What this player wrote in their notebook so far (only with the notebook)
+  notes?: string;
   // Player's own action history (all previous days)
   actionHistory: PlayerDayHistory[];
   meta: {
@@ -202,150 +678,30 @@ export type PlayerInputs = {
     totalDays: number;
     currentDay: number;
   };
+  rules: GameRules;
 };
 
 export type Tier = "T1" | "T2" | "T3";
 
-export type HerbId =
-  | "H01"
-  | "H02"
-  | "H03"
-  | "H04"
-  | "H05"
-  | "H06"
-  | "H07"
-  | "H08"
-  | "H09"
-  | "H10"
-  | "H11"
-  | "H12";
-
-export type PotionId =
-  | "P01"
-  | "P02"
-  | "P03"
-  | "P04"
-  | "P05"
-  | "P06"
-  | "P07"
-  | "P08"
-  | "P09"
-  | "P10"
-  | "P11"
-  | "P12"
-  | "P13"
-  | "P14"
-  | "P15"
-  | "P16"
-  | "P17"
-  | "P18";
-
-export const HERB_NAMES: Record<HerbId, string> = {
-  H01: "Dreamleaf",
-  H02: "Stormvine",
-  H03: "Ashen Thistle",
-  H04: "Moonpetal",
-
-  H05: "Ironbark Needles",
-  H06: "Starbloom",
-  H07: "Embermoss",
-  H08: "Marrowmint",
-
-  H09: "Whispering Tansy",
-  H10: "Frostcap Fern",
-  H11: "Silverdew Grass",
-  H12: "Crystalline Sage",
-};
-
-export const HERB_TIERS: Record<Tier, HerbId[]> = {
-  T1: ["H01", "H02", "H03", "H04"],
-  T2: ["H05", "H06", "H07", "H08"],
-  T3: ["H09", "H10", "H11", "H12"],
-} as const;
-
-export const POTION_NAMES: Record<PotionId, string> = {
-  P01: "Minor Potion of Healing",
-  P02: "Potion of Healing",
-  P03: "Greater Potion of Healing",
-
-  P04: "Minor Potion of Strength",
-  P05: "Potion of Strength",
-  P06: "Greater Potion of Strength",
-
-  P07: "Minor Potion of Agility",
-  P08: "Potion of Agility",
-  P09: "Greater Potion of Agility",
-
-  P10: "Minor Potion of Intelligence",
-  P11: "Potion of Intelligence",
-  P12: "Greater Potion of Intelligence",
-
-  P13: "Minor Potion of Endurance",
-  P14: "Potion of Endurance",
-  P15: "Greater Potion of Endurance",
-
-  P16: "Minor Potion of Willpower",
-  P17: "Potion of Willpower",
-  P18: "Greater Potion of Willpower",
-};
-
-export const POTION_TIERS: Record<Tier, PotionId[]> = {
-  T1: ["P01", "P04", "P07", "P10", "P13", "P16"],
-  T2: ["P02", "P05", "P08", "P11", "P14", "P17"],
-  T3: ["P03", "P06", "P09", "P12", "P15", "P18"],
-} as const;
-
-export const POTION_TIER_LOOKUP: Record<PotionId, Tier> = {
-  P01: "T1",
-  P02: "T2",
-  P03: "T3",
-  P04: "T1",
-  P05: "T2",
-  P06: "T3",
-  P07: "T1",
-  P08: "T2",
-  P09: "T3",
-  P10: "T1",
-  P11: "T2",
-  P12: "T3",
-  P13: "T1",
-  P14: "T2",
-  P15: "T3",
-  P16: "T1",
-  P17: "T2",
-  P18: "T3",
-} as const;
-
-// === Recipes: each potion uses exactly two herbs of same tier ===
-
-export const RECIPES: Record<PotionId, HerbId[]> = {
-  // Healing
-  P01: ["H01", "H02"], // T1: Dreamleaf + Stormvine
-  P02: ["H05", "H06"], // T2: Ironbark + Starbloom
-  P03: ["H09", "H10"], // T3: Tansy + Frostcap
-
-  // Strength
-  P04: ["H02", "H03"], // T1
-  P05: ["H06", "H07"], // T2
-  P06: ["H10", "H11"], // T3
-
-  // Agility
-  P07: ["H03", "H04"], // T1
-  P08: ["H07", "H08"], // T2
-  P09: ["H11", "H12"], // T3
-
-  // Intelligence
-  P10: ["H04", "H01"], // T1
-  P11: ["H08", "H05"], // T2
-  P12: ["H12", "H09"], // T3
-
-  // Endurance
-  P13: ["H01", "H03"], // T1
-  P14: ["H05", "H07"], // T2
-  P15: ["H09", "H11"], // T3
-
-  // Willpower
-  P16: ["H02", "H04"], // T1
-  P17: ["H06", "H08"], // T2
-  P18: ["H10", "H12"], // T3
-} as const;
+// Herb and potion ids are defined by the game's content pack (see
+// lib/content-packs.ts); the classic pack uses H01-H12 and P01-P18
+export type HerbId = string;
+export type PotionId = string;
+
+// A data-driven set of herbs, potions and recipes, usually loaded from JSON
+// and validated with contentPackSchema. A recipe lists each herb once, either
+// as a plain id (1 unit) or with a quantity; herbs may come from any tier.
+export type ContentPack = {
+  id: string;
+  name: string;
+  herbs: { id: HerbId; name: string; tier: Tier }[];
+  potions: {
+    id: PotionId;
+    name: string;
+    tier: Tier;
+    family?: string; // e.g. "Healing"; some market events target a family
+    recipe: (HerbId | { herbId: HerbId; qty: number })[];
+    yield?: number; // Potions per successful craft, default 1
+    failureChance?: number; // 0-1, chance a craft uses its herbs but fails
+  }[];
+};
@@ -0,0 +1,89 @@
+import { AccessCode, checkGameAgainstCode } from "@/lib/access-control";
+import { createBotPlayer } from "@/lib/agents";
+import { Player } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const accessCode: AccessCode = {
+  code: "ABCD-EFGH",
+  maxGames: 3,
+  maxModelTier: 2,
+  maxDays: 10,
+  maxPlayers: 3,
+  usedGames: 0,
+  createdAt: 0,
+};
+
+const cheap: Player = { name: "nano", model: "openai/gpt-5-nano" };
+const human: Player = { name: "me", model: "human", isHuman: true };
+
+describe("access code limits", () => {
+  it("accepts games within every limit", () => {
+    expect(
+      checkGameAgainstCode(accessCode, { players: [human, cheap], days: 10 })
+    ).toBeNull();
+  });
+
+  it("rejects too many players and days", () => {
+    expect(
+      checkGameAgainstCode(accessCode, {
+        players: [human, cheap, cheap, cheap],
+        days: 5,
+      })
+    ).toMatchObject({ code: "too_many_players", limit: 3, requested: 4 });
+    expect(
+      checkGameAgainstCode(accessCode, { players: [cheap], days: 11 })
+    ).toMatchObject({ code: "too_many_days", limit: 10, requested: 11 });
+  });
+
+  it("rejects models above the tier and unknown models", () => {
+    expect(
+      checkGameAgainstCode(accessCode, {
+        players: [{ name: "opus", model: "anthropic/claude-opus-4.5" }],
+        days: 5,
+      })
+    ).toMatchObject({ code: "model_tier_exceeded", limit: 2 });
+    expect(
+      checkGameAgainstCode(accessCode, {
+        players: [{ name: "x", model: "someone/unlisted" }],
+        days: 5,
+      })
+    ).toMatchObject({ code: "unknown_model" });
+  });
+
+  it("holds a failure policy's fallback model to the tier limit", () => {
+    expect(
+      checkGameAgainstCode(accessCode, {
+        players: [cheap],
+        days: 5,
+        fallbackModel: "anthropic/claude-opus-4.5",
+      })
+    ).toMatchObject({
+      code: "model_tier_exceeded",
+      requested: "anthropic/claude-opus-4.5",
+    });
+  });
+
+  it("never charges tiers for humans or bots", () => {
+    expect(
+      checkGameAgainstCode(accessCode, {
+        players: [human, createBotPlayer("greedy-margin")],
+        days: 5,
+      })
+    ).toBeNull();
+  });
+
+  it("checks seats of unknown agent types as LLM seats", () => {
+    expect(
+      checkGameAgainstCode(accessCode, {
+        players: [
+          {
+            name: "sneaky",
+            model: "anthropic/claude-opus-4.5",
+            agent: "robot" as Player["agent"],
+          },
+        ],
+        days: 5,
+      })
+    ).toMatchObject({ code: "model_tier_exceeded" });
+  });
+});
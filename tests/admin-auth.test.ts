@@ -0,0 +1,22 @@
+import { getClientIp, hashSessionToken } from "@/lib/admin-auth";
+import { describe, expect, it } from "vitest";
+
+describe("admin auth helpers", () => {
+  it("hashes session tokens to a stable hex id", async () => {
+    const token = "a".repeat(64);
+    const id = await hashSessionToken(token);
+    expect(id).toMatch(/^[0-9a-f]{64}$/);
+    expect(id).not.toBe(token);
+    expect(await hashSessionToken(token)).toBe(id);
+  });
+
+  it("takes the first forwarded IP, then x-real-ip", () => {
+    const forwarded = new Request("http://x", {
+      headers: { "x-forwarded-for": "1.2.3.4, 10.0.0.1", "x-real-ip": "5.6.7.8" },
+    });
+    expect(getClientIp(forwarded)).toBe("1.2.3.4");
+    const realIp = new Request("http://x", { headers: { "x-real-ip": "5.6.7.8" } });
+    expect(getClientIp(realIp)).toBe("5.6.7.8");
+    expect(getClientIp(new Request("http://x"))).toBe("unknown");
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  createAgentToolbox,
+  dryRunPlan,
+  getPriceHistory,
+  getRecipeMargins,
+} from "@/lib/agent-tools";
+import { getContent } from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+const herbId = getContent().herbIds[0];
+
+// Inputs of the only player on day 3, after two idle days
+function dayThreeInputs() {
+  const config = getWithDefaultConfig(
+    "agent-tools-seed",
+    [{ name: "a", model: "scripted", llmMode: "tools" }],
+    5
+  );
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  state = processGameDay([idle], state, game);
+  state = processGameDay([idle], state, game);
+  return { game, inputs: getPlayerInputs(game, config, 3, state, 0) };
+}
+
+describe("agent tools", () => {
+  it("returns the price history of every day so far, today last", () => {
+    const { game, inputs } = dayThreeInputs();
+    const history = getPriceHistory(inputs, herbId);
+
+    expect(history.map(({ day }) => day)).toEqual([1, 2, 3]);
+    expect(history.map(({ prices }) => prices[herbId])).toEqual(
+      game.herbDailyPrices.slice(0, 3).map((prices) => prices[herbId])
+    );
+  });
+
+  it("computes today's herb cost per potion", () => {
+    const { inputs } = dayThreeInputs();
+    const content = getContent();
+    const [margin] = getRecipeMargins(inputs);
+    const recipe = content.recipes[margin.potionId];
+    const cost =
+      recipe.ingredients.reduce(
+        (sum, { herbId, qty }) => sum + qty * inputs.dailyPrices[herbId],
+        0
+      ) / recipe.yield;
+
+    expect(margin.herbCost).toBeCloseTo(cost, 1);
+    // Nothing has sold yet, so there is no margin to report
+    expect(margin.margin).toBeUndefined();
+  });
+
+  it("dry-runs a plan without touching the player's inventory", () => {
+    const { inputs } = dayThreeInputs();
+    const gold = inputs.inventory.gold;
+    const result = dryRunPlan(inputs, {
+      ...idle,
+      buyHerbs: [{ herbId, qty: 1 }],
+      potionOffers: [{ potionId: getContent().potionIds[0], price: 50, qty: 1 }],
+    });
+
+    expect(result.inventory.gold).toBe(gold - inputs.dailyPrices[herbId]);
+    expect(result.errors.length).toBeGreaterThan(0);
+    expect(result.offers.every(({ qty }) => qty === 0)).toBe(true);
+    expect(inputs.inventory.gold).toBe(gold);
+  });
+
+  it("dry-runs today's loan, standing orders and listing fees", () => {
+    const { inputs } = dayThreeInputs();
+    const [, otherHerbId] = getContent().herbIds;
+    const potionId = getContent().potionIds[0];
+    inputs.rules = {
+      ...inputs.rules,
+      credit: { limit: 500, dailyInterestRate: 0.1 },
+      standingOrders: true,
+      fees: { listingFee: 2 },
+    };
+    inputs.inventory.potions[potionId] = 2;
+    const { gold } = inputs.inventory;
+    const price = inputs.dailyPrices[herbId];
+    const qty = Math.floor((gold + 100) / price);
+    const result = dryRunPlan(inputs, {
+      buyHerbs: [{ herbId, qty }],
+      makePotions: [],
+      potionOffers: [{ potionId, price: 50, qty: 1 }],
+      loan: { borrow: 200 },
+      standingOrders: [
+        { type: "buy-herb", herbId: otherHerbId, maxPrice: 1000, qty: 1, days: 2 },
+        { type: "sell-potion", potionId, price: 60, qty: 1, days: 2 },
+      ],
+    });
+
+    expect(qty * price).toBeGreaterThan(gold);
+    expect(result.errors).toEqual([]);
+    expect(result.inventory.herbs[herbId]).toBe(qty);
+    expect(result.inventory.herbs[otherHerbId]).toBe(1);
+    expect(result.inventory.potions[potionId]).toBe(0);
+    expect(result.inventory.gold).toBe(
+      gold + 200 - qty * price - inputs.dailyPrices[otherHerbId] - 2 * 2
+    );
+  });
+
+  it("enforces the call budget and records every call", () => {
+    const { inputs } = dayThreeInputs();
+    const toolbox = createAgentToolbox(inputs, 2);
+
+    toolbox.getRecipeMargins({});
+    toolbox.getPriceHistory({ herbId });
+    expect(toolbox.getMarketHistory({})).toEqual({
+      error: "Tool budget of 2 calls used up. Submit your plan now.",
+    });
+    toolbox.submitPlan(idle);
+
+    expect(toolbox.transcript.map(({ tool }) => tool)).toEqual([
+      "getRecipeMargins",
+      "getPriceHistory",
+      "getMarketHistory",
+      "submitPlan",
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  BUILT_IN_BOTS,
+  createBotPlayer,
+  getPlayerAgentType,
+} from "@/lib/agents";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  sanitizePlayerOutputs,
+  setupGame,
+} from "@/lib/game-engine";
+import { runTournament } from "@/lib/tournament";
+import { describe, expect, it } from "vitest";
+
+const bots = Object.values(BUILT_IN_BOTS);
+
+describe("player agents", () => {
+  it("resolves agent type from legacy and explicit players", () => {
+    expect(getPlayerAgentType({ name: "a", model: "x" })).toBe("llm");
+    expect(
+      getPlayerAgentType({ name: "a", model: "human", isHuman: true })
+    ).toBe("human");
+    expect(getPlayerAgentType(createBotPlayer("market-maker"))).toBe("bot");
+  });
+
+  it.each(bots.map((bot) => [bot.id, bot] as const))(
+    "%s produces executable day-1 orders deterministically",
+    (_, bot) => {
+      const config = getWithDefaultConfig("bots", [
+        createBotPlayer(bot.id),
+      ]);
+      const game = setupGame(config.generation);
+      const state = initializeGameState(config.runtime);
+      const inputs = getPlayerInputs(game, config, 1, state, 0);
+
+      const outputs = bot.decide(inputs);
+      expect(bot.decide(inputs)).toEqual(outputs);
+      expect(outputs.makePotions.length).toBeGreaterThan(0);
+
+      const { errors, inventory } = sanitizePlayerOutputs(
+        structuredClone(inputs.inventory),
+        outputs,
+        inputs.dailyPrices
+      );
+      expect(errors).toEqual([]);
+      expect(inventory.gold).toBeGreaterThanOrEqual(0);
+    }
+  );
+
+  it("bots play full games offline through the tournament runner", async () => {
+    const result = await runTournament({
+      entrants: bots.map((bot) => ({ id: bot.id, decide: bot.decide })),
+      seeds: ["bot-league"],
+      days: 5,
+    });
+
+    expect(result.games).toHaveLength(bots.length);
+    result.standings.forEach((standing) => {
+      expect(standing.games).toBe(bots.length);
+      expect(standing.totalErrors).toBe(0);
+    });
+  });
+});
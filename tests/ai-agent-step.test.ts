@@ -0,0 +1,93 @@
+import { getContent } from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  setupGame,
+} from "@/lib/game-engine";
+import { aiAgentStep } from "@/workflows/ai-agent-step";
+import { generateText } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateText: vi.fn(),
+}));
+
+const herbId = getContent().herbIds[0];
+const plan = {
+  buyHerbs: [{ herbId, qty: 2 }],
+  makePotions: [],
+  potionOffers: [],
+};
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+
+function dayOneInputs() {
+  const config = getWithDefaultConfig(
+    "agent-step-seed",
+    [{ name: "a", model: "scripted", llmMode: "tools" }],
+    3
+  );
+  const game = setupGame(config.generation);
+  const state = initializeGameState(config.runtime);
+  return getPlayerInputs(game, config, 1, state, 0);
+}
+
+// Let the mocked model answer with these tool calls, one step each
+function answerWith(...toolCalls: object[]) {
+  vi.mocked(generateText).mockResolvedValue({
+    steps: toolCalls.map((call) => ({ toolCalls: [call] })),
+    totalUsage: usage,
+  } as unknown as Awaited<ReturnType<typeof generateText>>);
+}
+
+describe("agent step", () => {
+  beforeEach(() => {
+    vi.mocked(generateText).mockReset();
+  });
+
+  it("skips submitPlan calls the SDK marked invalid", async () => {
+    answerWith(
+      { toolName: "submitPlan", input: { buyHerbs: "lots" }, invalid: true },
+      { toolName: "submitPlan", input: plan }
+    );
+    const result = await aiAgentStep(dayOneInputs(), "scripted", false);
+
+    expect(result.success).toBe(true);
+    expect(result.outputs.buyHerbs).toEqual(plan.buyHerbs);
+
+    const [{ stopWhen }] = vi.mocked(generateText).mock.calls[0];
+    const [submittedPlan] = stopWhen as ((options: object) => boolean)[];
+    const stepWith = (call: object) => ({ steps: [{ toolCalls: [call] }] });
+    expect(
+      submittedPlan(stepWith({ toolName: "submitPlan", invalid: true }))
+    ).toBe(false);
+    expect(submittedPlan(stepWith({ toolName: "submitPlan" }))).toBe(true);
+  });
+
+  it("fails when no submitted plan matches the schema", async () => {
+    answerWith(
+      { toolName: "submitPlan", input: { buyHerbs: "lots" }, invalid: true },
+      { toolName: "submitPlan", input: { ...plan, makePotions: "none" } }
+    );
+    const result = await aiAgentStep(dayOneInputs(), "scripted", false);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^invalid plan: /);
+    expect(result.usage?.totalTokens).toBe(15);
+  });
+
+  it("reports the usage and cost of steps finished before a failure", async () => {
+    vi.mocked(generateText).mockImplementation(async ({ onStepFinish }) => {
+      await onStepFinish?.({
+        usage,
+        providerMetadata: { gateway: { cost: "0.002" } },
+      } as never);
+      throw new Error("provider went away");
+    });
+    const result = await aiAgentStep(dayOneInputs(), "scripted", false);
+
+    expect(result.success).toBe(false);
+    expect(result.usage).toMatchObject({ totalTokens: 15, costUsd: 0.002 });
+  });
+});
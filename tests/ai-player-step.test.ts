@@ -0,0 +1,123 @@
+import { getContent } from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  setupGame,
+} from "@/lib/game-engine";
+import { GenerationConfig, PlayerOutputs } from "@/lib/types";
+import { aiPlayerStep } from "@/workflows/ai-player-step";
+import { generateObject } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateObject: vi.fn(),
+}));
+
+const herbId = getContent().herbIds[0];
+const plan = (qty: number): PlayerOutputs => ({
+  buyHerbs: [{ herbId, qty }],
+  makePotions: [],
+  potionOffers: [],
+});
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+
+function dayOneInputs(rules: Partial<GenerationConfig> = {}) {
+  const config = getWithDefaultConfig(
+    "player-step-seed",
+    [{ name: "a", model: "scripted", maxRevisions: 2 }],
+    3
+  );
+  Object.assign(config.generation, rules);
+  const game = setupGame(config.generation);
+  const state = initializeGameState(config.runtime);
+  return getPlayerInputs(game, config, 1, state, 0);
+}
+
+// A model response with the given plan, billed by the gateway
+function response(object: PlayerOutputs) {
+  return {
+    object,
+    usage,
+    providerMetadata: { gateway: { cost: "0.001" } },
+  } as unknown as Awaited<ReturnType<typeof generateObject>>;
+}
+
+describe("revise loop", () => {
+  beforeEach(() => {
+    vi.mocked(generateObject).mockReset();
+  });
+
+  it("sends a plan the dry run rejects back with its errors", async () => {
+    vi.mocked(generateObject)
+      .mockResolvedValueOnce(response(plan(1000)))
+      .mockResolvedValueOnce(response(plan(2)));
+    const result = await aiPlayerStep(dayOneInputs(), "scripted", false, "", {
+      maxRevisions: 2,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.outputs).toEqual(plan(2));
+    expect(result.planRevisions).toHaveLength(1);
+    expect(result.planRevisions?.[0].outputs).toEqual(plan(1000));
+    expect(result.usage).toMatchObject({ totalTokens: 30, costUsd: 0.002 });
+
+    const [, [revision]] = vi.mocked(generateObject).mock.calls;
+    const messages = (revision as { messages: { content: string }[] })
+      .messages;
+    expect(messages[2].content).toContain(
+      result.planRevisions?.[0].errors[0]
+    );
+  });
+
+  it("keeps the last plan and its usage when a revision fails", async () => {
+    vi.mocked(generateObject)
+      .mockResolvedValueOnce(response(plan(1000)))
+      .mockRejectedValueOnce(new Error("provider went away"));
+    const result = await aiPlayerStep(dayOneInputs(), "scripted", false, "", {
+      maxRevisions: 2,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.outputs).toEqual(plan(1000));
+    expect(result.planRevisions).toHaveLength(1);
+    expect(result.usage).toMatchObject({ totalTokens: 15, costUsd: 0.001 });
+  });
+
+  it("accepts a plan funded by today's loan without revising it", async () => {
+    const inputs = dayOneInputs({
+      credit: { limit: 500, dailyInterestRate: 0.1 },
+    });
+    const { gold } = inputs.inventory;
+    const qty = Math.floor((gold + 100) / inputs.dailyPrices[herbId]);
+    const borrowed = { ...plan(qty), loan: { borrow: 200, repay: 0 } };
+    vi.mocked(generateObject).mockResolvedValueOnce(response(borrowed));
+    const result = await aiPlayerStep(inputs, "scripted", false, "", {
+      maxRevisions: 2,
+    });
+
+    expect(qty * inputs.dailyPrices[herbId]).toBeGreaterThan(gold);
+    expect(result.outputs).toEqual(borrowed);
+    expect(result.planRevisions).toBeUndefined();
+    expect(generateObject).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves plans with trades to the engine", async () => {
+    const traded: PlayerOutputs = {
+      ...plan(1000),
+      trades: [{ side: "buy", playerIdx: 1, itemId: herbId, qty: 5, price: 1 }],
+    };
+    vi.mocked(generateObject).mockResolvedValueOnce(response(traded));
+    const result = await aiPlayerStep(
+      dayOneInputs({ playerTrading: true }),
+      "scripted",
+      false,
+      "",
+      { maxRevisions: 2 }
+    );
+
+    expect(result.outputs).toEqual(traded);
+    expect(generateObject).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  CLASSIC_CONTENT_PACK,
+  contentPackSchema,
+  getContent,
+} from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import { verifyRecordedGame } from "@/lib/replay";
+import { parseErrorString } from "@/lib/format-utils";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { ContentPack, createPlayerOutputsSchema } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const brewery: ContentPack = {
+  id: "brewery",
+  name: "Brewery",
+  herbs: [
+    { id: "barley", name: "Barley", tier: "T1" },
+    { id: "hops", name: "Hops", tier: "T1" },
+    { id: "wheat", name: "Wheat", tier: "T2" },
+    { id: "honey", name: "Honey", tier: "T2" },
+  ],
+  potions: [
+    { id: "ale", name: "Pale Ale", tier: "T1", recipe: ["barley", "hops"] },
+    { id: "mead", name: "Mead", tier: "T2", recipe: ["wheat", "honey"] },
+  ],
+};
+
+function breweryConfig() {
+  const config = getWithDefaultConfig(
+    "brew-seed",
+    [{ name: "a", model: "scripted" }],
+    3
+  );
+  config.generation.contentPack = brewery;
+  return config;
+}
+
+describe("content packs", () => {
+  it("describes the classic economy", () => {
+    const content = getContent();
+    expect(content.pack).toBe(CLASSIC_CONTENT_PACK);
+    expect(content.herbIds).toHaveLength(12);
+    expect(content.potionIds).toHaveLength(18);
+    expect(content.recipes.P01).toEqual({
+      ingredients: [
+        { herbId: "H01", qty: 1 },
+        { herbId: "H02", qty: 1 },
+      ],
+      yield: 1,
+      failureChance: 0,
+    });
+    expect(content.potionTiers.T3).toEqual([
+      "P03",
+      "P06",
+      "P09",
+      "P12",
+      "P15",
+      "P18",
+    ]);
+  });
+
+  it("rejects inconsistent packs", () => {
+    const invalid = (pack: unknown) => {
+      const result = contentPackSchema.safeParse(pack);
+      return result.success ? [] : result.error.issues.map((i) => i.message);
+    };
+
+    expect(invalid(brewery)).toEqual([]);
+    expect(
+      invalid({
+        ...brewery,
+        potions: [
+          { id: "ale", name: "Ale", tier: "T1", recipe: ["barley", "rye"] },
+        ],
+      })
+    ).toEqual(["ale uses unknown herb rye"]);
+    expect(
+      invalid({
+        ...brewery,
+        potions: [
+          {
+            id: "ale",
+            name: "Ale",
+            tier: "T1",
+            recipe: ["barley", { herbId: "barley", qty: 2 }],
+          },
+        ],
+      })
+    ).toEqual(["ale lists barley more than once (use a quantity)"]);
+    expect(
+      invalid({ ...brewery, herbs: [...brewery.herbs, brewery.herbs[0]] })
+    ).toEqual(["Duplicate id barley"]);
+    expect(
+      invalid({
+        ...brewery,
+        herbs: [...brewery.herbs, { id: "__proto__", name: "Proto", tier: "T1" }],
+      })
+    ).toEqual(["Reserved id"]);
+  });
+
+  it("plays a game with the active pack", () => {
+    const config = breweryConfig();
+    const game = setupGame(config.generation);
+    expect(Object.keys(game.herbDailyPrices[0])).toEqual([
+      "barley",
+      "hops",
+      "wheat",
+      "honey",
+    ]);
+
+    let state = initializeGameState(config.runtime, brewery);
+    expect(state.playerInventories[0].potions).toEqual({ ale: 0, mead: 0 });
+
+    state = processGameDay(
+      [
+        {
+          buyHerbs: [
+            { herbId: "barley", qty: 2 },
+            { herbId: "hops", qty: 2 },
+            { herbId: "H01", qty: 1 },
+          ],
+          makePotions: [{ potionId: "ale", qty: 2 }],
+          potionOffers: [{ potionId: "ale", price: 1, qty: 2 }],
+        },
+      ],
+      state,
+      game
+    );
+
+    const actions = state.dayRecords[0].playerActions[0];
+    expect(actions.actualMakePotions).toEqual([{ potionId: "ale", qty: 2 }]);
+    expect(actions.salesResults[0]).toMatchObject({ potionId: "ale", sold: 2 });
+    expect(actions.errors).toEqual(["Unknown herb H01. Order ignored."]);
+
+    const inputs = getPlayerInputs(game, config, 2, state, 0);
+    expect(inputs.rules.contentPack).toBe(brewery);
+  });
+
+  it("ignores ids inherited from Object.prototype", () => {
+    const config = breweryConfig();
+    const game = setupGame(config.generation);
+    const state = processGameDay(
+      [
+        {
+          buyHerbs: [{ herbId: "constructor", qty: 1 }],
+          makePotions: [{ potionId: "toString", qty: 1 }],
+          potionOffers: [{ potionId: "valueOf", price: 10, qty: 1 }],
+        },
+      ],
+      initializeGameState(config.runtime, brewery),
+      game
+    );
+
+    expect(state.dayRecords[0].playerActions[0].errors).toEqual([
+      "Unknown herb constructor. Order ignored.",
+      "Unknown potion toString. Order ignored.",
+      "Unknown potion valueOf. Offer ignored.",
+    ]);
+  });
+
+  it("restricts order ids and names them from the pack", () => {
+    const content = getContent(brewery);
+    const schema = createPlayerOutputsSchema(
+      content.herbIds,
+      content.potionIds
+    );
+    const order = (herbId: string) => ({
+      buyHerbs: [{ herbId, qty: 1 }],
+      makePotions: [],
+      potionOffers: [],
+    });
+    expect(schema.safeParse(order("hops")).success).toBe(true);
+    expect(schema.safeParse(order("H01")).success).toBe(false);
+
+    expect(
+      parseErrorString("Not enough herbs to make 2 mead. Made 0 potions.", content)
+    ).toBe("Not enough herbs to make 2 Mead. Made 0 potions.");
+    expect(parseErrorString("Not enough gold to buy 3 H10.")).toBe(
+      "Not enough gold to buy 3 Frostcap Fern."
+    );
+  });
+});
+
+describe("variable recipes", () => {
+  // Stout mixes tiers, needs 2 barley per craft and makes 3 bottles
+  const stout = (failureChance?: number): ContentPack => ({
+    ...brewery,
+    potions: [
+      ...brewery.potions,
+      {
+        id: "stout",
+        name: "Stout",
+        tier: "T2",
+        recipe: [{ herbId: "barley", qty: 2 }, "hops", "wheat"],
+        yield: 3,
+        failureChance,
+      },
+    ],
+  });
+
+  function playDay(pack: ContentPack, crafts: number, seed = "brew-seed") {
+    const config = breweryConfig();
+    config.generation.seed = seed;
+    config.generation.contentPack = pack;
+    const game = setupGame(config.generation);
+    const state = processGameDay(
+      [
+        {
+          buyHerbs: [
+            { herbId: "barley", qty: 4 },
+            { herbId: "hops", qty: 2 },
+            { herbId: "wheat", qty: 1 },
+          ],
+          makePotions: [{ potionId: "stout", qty: crafts }],
+          potionOffers: [{ potionId: "stout", price: 1000, qty: 1 }],
+        },
+      ],
+      initializeGameState(config.runtime, pack),
+      game
+    );
+    return { config, state, actions: state.dayRecords[0].playerActions[0] };
+  }
+
+  it("consumes quantities, applies yields and caps prices per potion", () => {
+    const pack = stout();
+    expect(contentPackSchema.safeParse(pack).success).toBe(true);
+
+    const { actions } = playDay(pack, 2);
+    expect(actions.actualMakePotions).toEqual([
+      { potionId: "stout", qty: 3, crafts: 1 },
+    ]);
+    expect(actions.errors).toEqual([
+      "Not enough herbs for 2 crafts of stout. Crafted 1 times.",
+    ]);
+    expect(actions.startInventory.potions.stout).toBe(0);
+    expect(actions.endInventory.herbs).toMatchObject({
+      barley: 2,
+      hops: 1,
+      wheat: 0,
+    });
+    // (2×10 + 10 + 50) × 5 / 3 bottles
+    expect(actions.actualOffers[0].price).toBe(133);
+  });
+
+  it("never caps prices below 1g", () => {
+    const pack: ContentPack = {
+      ...brewery,
+      potions: [
+        ...brewery.potions,
+        { id: "foam", name: "Foam", tier: "T1", recipe: ["barley"], yield: 200 },
+      ],
+    };
+    const config = breweryConfig();
+    config.generation.contentPack = pack;
+    const state = processGameDay(
+      [
+        {
+          buyHerbs: [{ herbId: "barley", qty: 1 }],
+          makePotions: [{ potionId: "foam", qty: 1 }],
+          potionOffers: [{ potionId: "foam", price: 5, qty: 10 }],
+        },
+      ],
+      initializeGameState(config.runtime, pack),
+      setupGame(config.generation)
+    );
+    // 10 × 5 / 200 bottles rounds to 0
+    expect(state.dayRecords[0].playerActions[0].actualOffers[0]).toMatchObject({
+      price: 1,
+      qty: 10,
+    });
+  });
+
+  it("records failed crafts, deterministically per seed", () => {
+    const { actions } = playDay(stout(1), 1);
+    expect(actions.actualMakePotions).toEqual([
+      { potionId: "stout", qty: 0, crafts: 1, failed: 1 },
+    ]);
+    expect(actions.endInventory.herbs.barley).toBe(2);
+
+    const outcomes = ["a", "b", "c", "d", "e", "f"].map((seed) => {
+      const { config, state, actions } = playDay(stout(0.5), 1, seed);
+      expect(verifyRecordedGame(config, state).ok).toBe(true);
+      return actions.actualMakePotions[0].failed ?? 0;
+    });
+    expect(outcomes).toContain(0);
+    expect(outcomes).toContain(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { verifyRecordedGame } from "@/lib/replay";
+import { runTournament } from "@/lib/tournament";
+import { GameConfig, GameState, Player, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+function creditConfig(seed = "credit-seed", players?: Player[], days = 3) {
+  const config = getWithDefaultConfig(
+    seed,
+    players ?? [{ name: "a", model: "scripted" }],
+    days
+  );
+  config.generation.credit = { limit: 500, dailyInterestRate: 0.1 };
+  return config;
+}
+
+function play(config: GameConfig, days: PlayerOutputs[]): GameState {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  for (const outputs of days) {
+    state = processGameDay([outputs], state, game);
+  }
+  return state;
+}
+
+describe("credit", () => {
+  it("borrows up to the limit, accrues interest and repays in the evening", () => {
+    const config = creditConfig();
+    const state = play(config, [
+      { ...idle, loan: { borrow: 300 } },
+      { ...idle, loan: { borrow: 300, repay: 100 } },
+      { ...idle, loan: { repay: 1000 } },
+    ]);
+
+    const [day1, day2, day3] = state.dayRecords.map((r) => r.playerActions[0]);
+    expect(day1.loan).toEqual({ borrowed: 300, repaid: 0, interest: 30 });
+    expect(day1.endInventory).toMatchObject({ gold: 1300, debt: 330 });
+
+    // 330 owed leaves room for 170 more
+    expect(day2.loan).toEqual({ borrowed: 170, repaid: 100, interest: 40 });
+    expect(day2.errors).toEqual([
+      "Credit limit is 500g and you owe 330g. Borrowed 170g.",
+    ]);
+    expect(day2.endInventory).toMatchObject({ gold: 1370, debt: 440 });
+
+    expect(day3.loan).toEqual({ borrowed: 0, repaid: 440, interest: 0 });
+    expect(day3.errors).toEqual(["Only 440g owed. Repaid 440g."]);
+    expect(state.playerInventories[0]).toMatchObject({ gold: 930, debt: 0 });
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("ignores loans unless the game offers credit", () => {
+    const config = creditConfig();
+    config.generation.credit = undefined;
+    const state = play(config, [{ ...idle, loan: { borrow: 100 } }]);
+    const actions = state.dayRecords[0].playerActions[0];
+    expect(actions.loan).toBeUndefined();
+    expect(actions.errors).toEqual(["Borrowing is not enabled. Loan ignored."]);
+    expect(state.playerInventories[0].gold).toBe(1000);
+  });
+
+  it("scores players by gold minus debt", async () => {
+    const result = await runTournament({
+      entrants: [
+        { id: "borrower", decide: () => ({ ...idle, loan: { borrow: 200 } }) },
+        { id: "idle", decide: () => idle },
+      ],
+      seeds: ["credit-league"],
+      days: 2,
+      seatings: "fixed",
+      createConfig: (seed, players, days) => creditConfig(seed, players, days),
+    });
+
+    // Borrowed 400 in total; owes 400 plus two nights of interest
+    expect(result.games[0].finalGold).toEqual([1000 - 20 - 42, 1000]);
+    expect(result.games[0].ranks).toEqual([2, 1]);
+  });
+});
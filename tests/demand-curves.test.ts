@@ -0,0 +1,49 @@
+import { demandAtPrice } from "@/lib/demand-curves";
+import { MARKET_MECHANISMS } from "@/lib/market-mechanisms";
+import { DemandCurve } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const linear: DemandCurve = {
+  type: "linear",
+  reservationPrices: { T1: 100, T2: 400, T3: 1000 },
+};
+
+const elastic: DemandCurve = {
+  type: "constant-elasticity",
+  elasticity: 2,
+  referencePrices: { T1: 20, T2: 80, T3: 200 },
+  reservationPrices: { T1: 100, T2: 400, T3: 1000 },
+};
+
+describe("demand curves", () => {
+  it("keeps demand fixed without a curve", () => {
+    expect(demandAtPrice(undefined, 12, "T1", 99)).toBe(12);
+  });
+
+  it("linear demand falls to zero at the reservation price", () => {
+    expect(demandAtPrice(linear, 20, "T1", 1)).toBe(20);
+    expect(demandAtPrice(linear, 20, "T1", 25)).toBe(15);
+    expect(demandAtPrice(linear, 20, "T1", 50)).toBe(10);
+    expect(demandAtPrice(linear, 20, "T1", 100)).toBe(0);
+    expect(demandAtPrice(linear, 20, "T2", 100)).toBe(15);
+  });
+
+  it("constant-elasticity demand is full up to the reference price", () => {
+    expect(demandAtPrice(elastic, 20, "T1", 20)).toBe(20);
+    expect(demandAtPrice(elastic, 20, "T1", 40)).toBe(5);
+    expect(demandAtPrice(elastic, 20, "T1", 100)).toBe(0);
+  });
+
+  it("makes undercutting the cap sell more under every mechanism", () => {
+    const offers = [
+      { potionId: "P01" as const, price: 30, qty: 10, playerIdx: 0 },
+      { potionId: "P01" as const, price: 60, qty: 10, playerIdx: 1 },
+    ];
+    const demandAt = (price: number) => demandAtPrice(linear, 20, "T1", price);
+    const sold = MARKET_MECHANISMS["cheapest-first"]
+      .clear(offers, demandAt, 100)
+      .map((o) => o.actuallySold);
+    // 14 buyers at 30g, only 8 at 60g - and the cheap seller took 10 of them
+    expect(sold).toEqual([10, 0]);
+  });
+});
@@ -0,0 +1,93 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import { getDemandMultiplier } from "@/lib/dynamic-demand";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { GameConfig, GameState, PlayerOutputs, PotionId } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const dynamicDemand = { saturation: 0.4, pentUp: 0.2, memory: 0.5 };
+
+function dynamicConfig(): GameConfig {
+  const config = getWithDefaultConfig(
+    "dynamic-seed",
+    [{ name: "a", model: "scripted" }],
+    3
+  );
+  config.generation.dynamicDemand = dynamicDemand;
+  return config;
+}
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+function play(config: GameConfig, days: PlayerOutputs[]): GameState {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  for (const outputs of days) {
+    state = processGameDay([outputs], state, game);
+  }
+  return state;
+}
+
+describe("getDemandMultiplier", () => {
+  it("raises demand after starved days and lowers it after flooded ones", () => {
+    const starved = { demand: 10, offered: 0, unmet: 10 };
+    const flooded = { demand: 10, offered: 20, unmet: 0 };
+    const balanced = { demand: 10, offered: 10, unmet: 0 };
+
+    expect(getDemandMultiplier([], dynamicDemand)).toBe(1);
+    expect(getDemandMultiplier([balanced], dynamicDemand)).toBe(1);
+    expect(getDemandMultiplier([starved], dynamicDemand)).toBeCloseTo(1.2);
+    expect(getDemandMultiplier([flooded], dynamicDemand)).toBeCloseTo(0.6);
+    // Older days fade with memory
+    expect(
+      getDemandMultiplier([flooded, balanced], dynamicDemand)
+    ).toBeCloseTo(0.8);
+  });
+
+  it("keeps demand within bounds", () => {
+    const flooded = { demand: 10, offered: 100, unmet: 0 };
+    expect(
+      getDemandMultiplier([flooded, flooded, flooded], {
+        ...dynamicDemand,
+        memory: 1,
+      })
+    ).toBe(0.25);
+  });
+});
+
+describe("dynamic demand in the engine", () => {
+  it("leaves generated demand untouched when disabled", () => {
+    const config = dynamicConfig();
+    delete config.generation.dynamicDemand;
+    const game = setupGame(config.generation);
+    const state = play(config, [idle, idle]);
+
+    expect(state.historicDemands).toEqual(game.potionDailyDemands.slice(0, 2));
+    expect(state.dayRecords[1].potionDemands).toEqual(
+      game.potionDailyDemands[1]
+    );
+  });
+
+  it("builds pent-up demand for potions nobody sold", () => {
+    const config = dynamicConfig();
+    const game = setupGame(config.generation);
+    const state = play(config, [idle, idle]);
+
+    const [day1, day2] = state.historicDemands;
+    expect(day1).toEqual(game.potionDailyDemands[0]);
+    for (const [potionId, base] of Object.entries(game.potionDailyDemands[1])) {
+      const expected =
+        day1[potionId as PotionId] > 0 ? Math.round(base * 1.2) : base;
+      expect(day2[potionId as PotionId]).toBe(expected);
+    }
+    expect(state.dayRecords[1].potionDemands).toEqual(day2);
+
+    const inputs = getPlayerInputs(game, config, 3, state, 0);
+    expect(inputs.historicDemands).toEqual(state.historicDemands);
+    expect(inputs.rules.dynamicDemand).toEqual(dynamicDemand);
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  getBackoffMs,
+  getStrikeOutcome,
+  isFailurePolicy,
+  NO_FAILURE_POLICY,
+  repairJson,
+} from "@/lib/failure-policy";
+import { FailurePolicy } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const policy: FailurePolicy = {
+  retries: 2,
+  backoffMs: 500,
+  repairJson: true,
+  maxStrikes: 3,
+};
+
+describe("failure policy", () => {
+  it("doubles the backoff with every retry", () => {
+    expect([0, 1, 2].map((retry) => getBackoffMs(policy, retry))).toEqual([
+      500, 1000, 2000,
+    ]);
+  });
+
+  it("holds until the strikes run out, and disqualifies at once without a policy", () => {
+    expect(getStrikeOutcome(policy, 2)).toBe("hold");
+    expect(getStrikeOutcome(policy, 3)).toBe("disqualified");
+    expect(getStrikeOutcome(NO_FAILURE_POLICY, 1)).toBe("disqualified");
+  });
+
+  it("repairs fenced, trailing-comma and truncated JSON", () => {
+    expect(
+      repairJson('Here is my plan:\n```json\n{"buyHerbs": [], "makePotions": [],}\n```')
+    ).toEqual({ buyHerbs: [], makePotions: [] });
+    expect(
+      repairJson('{"buyHerbs": [{"herbId": "H01", "qty": 3}], "potionOffers": [')
+    ).toEqual({ buyHerbs: [{ herbId: "H01", qty: 3 }], potionOffers: [] });
+    expect(repairJson("I cannot decide today.")).toBeUndefined();
+  });
+
+  it("validates policies from request bodies", () => {
+    expect(isFailurePolicy(policy)).toBe(true);
+    expect(isFailurePolicy({ ...policy, maxStrikes: 0 })).toBe(false);
+    expect(isFailurePolicy({ ...policy, retries: -1 })).toBe(false);
+    expect(isFailurePolicy("retry")).toBe(false);
+  });
+});
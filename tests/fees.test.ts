@@ -0,0 +1,111 @@
+import { getContent } from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { verifyRecordedGame } from "@/lib/replay";
+import { FeeConfig, GameConfig, GameState, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+const potionId = getContent().potionIds[0];
+
+function feesConfig(fees: FeeConfig, days = 2): GameConfig {
+  const config = getWithDefaultConfig(
+    "fees-seed",
+    [{ name: "a", model: "scripted" }],
+    days
+  );
+  config.generation.fees = fees;
+  return config;
+}
+
+function play(config: GameConfig, days: PlayerOutputs[]): GameState {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  for (const outputs of days) {
+    state = processGameDay([outputs], state, game);
+  }
+  return state;
+}
+
+// Craft two of the first potion and offer them cheaply enough to sell
+const craftAndSell: PlayerOutputs = {
+  buyHerbs: getContent().recipes[potionId].ingredients.map(({ herbId }) => ({
+    herbId,
+    qty: 2,
+  })),
+  makePotions: [{ potionId, qty: 2 }],
+  potionOffers: [{ potionId, price: 40, qty: 2 }],
+};
+
+describe("market fees", () => {
+  it("charges listing fees, sales tax and stall rent", () => {
+    const config = feesConfig({ listingFee: 5, salesTax: 0.1, stallRent: 7 });
+    const state = play(config, [craftAndSell, idle]);
+    const [day1, day2] = state.dayRecords.map((r) => r.playerActions[0]);
+
+    const [sale] = day1.salesResults;
+    expect(sale).toMatchObject({ sold: 2, listingFee: 5 });
+    expect(sale.tax).toBe(Math.round(sale.revenue * 0.1));
+    expect(day1.stallRent).toBe(7);
+    const herbCost = day1.actualBuyHerbs.reduce((sum, b) => sum + b.cost, 0);
+    expect(day1.endInventory.gold).toBe(
+      1000 - herbCost - 5 + sale.revenue - sale.tax! - 7
+    );
+
+    // Nothing on the market, no rent
+    expect(day2.stallRent).toBe(0);
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("does not post offers that cannot pay the listing fee", () => {
+    const config = feesConfig({ listingFee: 2000 }, 1);
+    const state = play(config, [craftAndSell]);
+    const actions = state.dayRecords[0].playerActions[0];
+
+    expect(actions.actualOffers).toEqual([]);
+    expect(actions.errors).toEqual([
+      `Not enough gold for the 2000g listing fee. Offer of ${potionId} ignored.`,
+    ]);
+    expect(state.playerInventories[0].potions[potionId]).toBe(2);
+    expect(actions.stallRent).toBe(0);
+  });
+
+  it("charges standing sell orders the listing fee once, when placed", () => {
+    const config = feesConfig({ listingFee: 5 });
+    config.generation.standingOrders = true;
+    const state = play(config, [
+      {
+        ...craftAndSell,
+        potionOffers: [],
+        standingOrders: [
+          { type: "sell-potion", potionId, price: 1000, qty: 2, days: 2 },
+        ],
+      },
+      idle,
+    ]);
+    const [day1, day2] = state.dayRecords.map((r) => r.playerActions[0]);
+
+    expect(day1.salesResults).toMatchObject([{ offered: 2, listingFee: 5 }]);
+    const herbCost = day1.actualBuyHerbs.reduce((sum, b) => sum + b.cost, 0);
+    expect(day1.endInventory.gold).toBe(
+      1000 - herbCost - 5 + day1.salesResults[0].revenue
+    );
+    expect(day2.salesResults.every((sale) => sale.listingFee === 0)).toBe(
+      true
+    );
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("leaves sales untouched without fees", () => {
+    const config = feesConfig({}, 1);
+    config.generation.fees = undefined;
+    const state = play(config, [craftAndSell]);
+    const actions = state.dayRecords[0].playerActions[0];
+    expect(actions.salesResults[0].tax).toBeUndefined();
+    expect(actions.stallRent).toBeUndefined();
+  });
+});
@@ -1,3 +1,4 @@
+import { getContent } from "@/lib/content-packs";
 import {
   buildMarket,
   getPlayerInputs,
@@ -10,7 +11,6 @@ import {
   Game,
   GameConfig,
   PlayerOutputs,
-  POTION_NAMES,
   PotionId,
 } from "@/lib/types";
 import { beforeEach, describe, expect, it } from "vitest";
@@ -151,7 +151,7 @@ describe("game engine", () => {
 
   it("getPlayerInputs returns previous day data on later days", () => {
     const state = initializeGameState(config.runtime);
-    const basePotionInfo = Object.keys(POTION_NAMES).reduce((acc, potionId) => {
+    const basePotionInfo = getContent().potionIds.reduce((acc, potionId) => {
       acc[potionId as PotionId] = {
         fulfilled: 0,
         remaining: 0,
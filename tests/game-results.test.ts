@@ -0,0 +1,116 @@
+import { GET } from "@/app/api/game/[runId]/result/route";
+import { BUILT_IN_BOTS, createBotPlayer } from "@/lib/agents";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getGameResult,
+  getGameResultKey,
+  StoredGameResult,
+} from "@/lib/game-results";
+import { playHeadlessGame } from "@/lib/tournament";
+import { GameState } from "@/lib/types";
+import { persistGameResult } from "@/workflows/game-workflow";
+import { kv } from "@vercel/kv";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@vercel/kv", () => ({ kv: { get: vi.fn(), set: vi.fn() } }));
+vi.mock("workflow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("workflow")>()),
+  getWorkflowMetadata: () => ({ workflowRunId: "wrun_1" }),
+}));
+
+const bots = Object.values(BUILT_IN_BOTS).slice(0, 2);
+const config = getWithDefaultConfig(
+  "result-seed",
+  bots.map((bot) => createBotPlayer(bot.id)),
+  2
+);
+
+let finalState: GameState;
+beforeAll(async () => {
+  const state = await playHeadlessGame(
+    config,
+    bots.map((bot) => bot.decide)
+  );
+  finalState = {
+    ...state,
+    playerUsageStats: bots.map(() => ({
+      inputTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      totalTimeMs: 0,
+      callCount: 0,
+    })),
+  };
+});
+
+function getResult(runId: string) {
+  return GET(new Request(`http://x/api/game/${runId}/result`), {
+    params: Promise.resolve({ runId }),
+  });
+}
+
+describe("game results", () => {
+  beforeEach(() => {
+    vi.mocked(kv.get).mockReset();
+    vi.mocked(kv.set).mockReset();
+  });
+
+  it("keys results by runId under the app prefix", async () => {
+    expect(getGameResultKey("wrun_1")).toBe("thealchemist:game_result:wrun_1");
+    await getGameResult("wrun_1");
+    expect(kv.get).toHaveBeenCalledWith("thealchemist:game_result:wrun_1");
+  });
+
+  it("persists the final state with its records, usage and names", async () => {
+    await persistGameResult(config, finalState);
+
+    const [key, stored] = vi.mocked(kv.set).mock.calls[0] as [
+      string,
+      StoredGameResult,
+    ];
+    expect(key).toBe(getGameResultKey("wrun_1"));
+    expect(stored).toMatchObject({ runId: "wrun_1", config });
+    expect(stored.finalState.dayRecords).toHaveLength(2);
+    expect(stored.finalState.playerUsageStats).toHaveLength(2);
+    expect(stored.finalState.playerNames).toEqual(
+      config.runtime.players.map((p) => p.name)
+    );
+  });
+
+  it("logs a storage outage instead of failing the game", async () => {
+    vi.mocked(kv.set).mockRejectedValue(new Error("kv down"));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(persistGameResult(config, finalState)).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it("serves a stored result", async () => {
+    const result: StoredGameResult = {
+      runId: "wrun_1",
+      config,
+      finalState,
+      completedAt: 1,
+    };
+    vi.mocked(kv.get).mockResolvedValue(result);
+
+    const response = await getResult("wrun_1");
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(JSON.parse(JSON.stringify(result)));
+  });
+
+  it("answers 404 for an unknown run and 500 when KV fails", async () => {
+    vi.mocked(kv.get).mockResolvedValue(null);
+    expect((await getResult("missing")).status).toBe(404);
+
+    vi.mocked(kv.get).mockRejectedValue(new Error("kv down"));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const response = await getResult("wrun_1");
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Failed to fetch result" });
+    error.mockRestore();
+  });
+});
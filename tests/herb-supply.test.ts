@@ -0,0 +1,112 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { GameConfig, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const players = [
+  { name: "a", model: "scripted" },
+  { name: "b", model: "scripted" },
+];
+
+function configWithSupply(priceImpact?: number): GameConfig {
+  const config = getWithDefaultConfig("supply-seed", players, 2);
+  config.generation.herbSupply = {
+    tierBaseSupplies: { T1: 10, T2: 6, T3: 4 },
+    dailySupplySpread: 0,
+    priceImpact,
+  };
+  return config;
+}
+
+const buy = (qty: number): PlayerOutputs => ({
+  buyHerbs: [{ herbId: "H01", qty }],
+  makePotions: [],
+  potionOffers: [],
+});
+
+describe("herb supply", () => {
+  it("leaves prices and demand unchanged when enabled", () => {
+    const plain = setupGame(
+      getWithDefaultConfig("supply-seed", players, 2).generation
+    );
+    const limited = setupGame(configWithSupply().generation);
+    expect(limited.herbDailyPrices).toEqual(plain.herbDailyPrices);
+    expect(limited.potionDailyDemands).toEqual(plain.potionDailyDemands);
+    // 2 players scale base supply by 1.0
+    expect(limited.herbDailySupplies![0].H01).toBe(10);
+    expect(limited.herbDailySupplies![0].H12).toBe(4);
+  });
+
+  it("splits an oversubscribed herb evenly and records partial fills", () => {
+    const config = configWithSupply();
+    const game = setupGame(config.generation);
+    const state = processGameDay(
+      [buy(8), buy(8)],
+      initializeGameState(config.runtime),
+      game
+    );
+
+    const [a, b] = state.dayRecords[0].playerActions;
+    expect(a.herbFills).toEqual([
+      { herbId: "H01", requested: 8, allocated: 5, bought: 5 },
+    ]);
+    expect(b.endInventory.herbs.H01).toBe(5);
+    expect(b.errors[0]).toMatch(/^Only 5 H01 available/);
+    expect(state.dayRecords[0].herbSupplies!.H01).toBe(10);
+  });
+
+  it("gives unclaimed supply to players who asked for more", () => {
+    const config = configWithSupply();
+    const game = setupGame(config.generation);
+    const state = processGameDay(
+      [buy(2), buy(20)],
+      initializeGameState(config.runtime),
+      game
+    );
+    const [a, b] = state.dayRecords[0].playerActions;
+    expect(a.herbFills![0].bought).toBe(2);
+    expect(b.herbFills![0].allocated).toBe(8);
+  });
+
+  it("raises the price for everyone with volume ordered", () => {
+    const config = configWithSupply(0.5);
+    const game = setupGame(config.generation);
+    const state = processGameDay(
+      [buy(5), buy(5)],
+      initializeGameState(config.runtime),
+      game
+    );
+    const record = state.dayRecords[0];
+    const listed = record.herbPrices.H01;
+    expect(record.herbPurchasePrices!.H01).toBe(Math.round(listed * 1.5));
+    expect(record.playerActions[0].actualBuyHerbs[0].cost).toBe(
+      5 * record.herbPurchasePrices!.H01
+    );
+  });
+
+  it("only lets players claim and move the price with what they can pay", () => {
+    const config = configWithSupply(0.5);
+    const game = setupGame(config.generation);
+    const start = initializeGameState(config.runtime);
+    start.playerInventories[0].gold = 0;
+    const state = processGameDay([buy(8), buy(8)], start, game);
+
+    const record = state.dayRecords[0];
+    const [a, b] = record.playerActions;
+    expect(a.herbFills).toEqual([
+      { herbId: "H01", requested: 8, allocated: 0, bought: 0 },
+    ]);
+    expect(a.errors[0]).toMatch(/^Not enough gold to buy 8 H01/);
+    expect(b.herbFills).toEqual([
+      { herbId: "H01", requested: 8, allocated: 8, bought: 8 },
+    ]);
+    // Only B's 8 of 10 units count towards the price
+    expect(record.herbPurchasePrices!.H01).toBe(
+      Math.round(record.herbPrices.H01 * 1.4)
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { getActiveEvents } from "@/lib/market-events";
+import { GameConfig, HerbId, PlayerOutputs, PotionId } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+function eventfulConfig(): GameConfig {
+  const config = getWithDefaultConfig(
+    "event-seed",
+    [{ name: "a", model: "scripted" }],
+    10
+  );
+  config.generation.marketEvents = { dailyChance: 0.5, forecast: true };
+  return config;
+}
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+describe("market events", () => {
+  it("schedules seeded events and applies them to prices and demand", () => {
+    const config = eventfulConfig();
+    const game = setupGame(config.generation);
+    const events = game.marketEvents!;
+    expect(events.length).toBeGreaterThan(0);
+    expect(setupGame(config.generation).marketEvents).toEqual(events);
+
+    const calm = setupGame({ ...config.generation, marketEvents: undefined });
+    for (let day = 1; day <= config.generation.days; day++) {
+      const herbMult = {} as Record<string, number>;
+      const demandMult = {} as Record<string, number>;
+      for (const event of getActiveEvents(events, day)) {
+        for (const [id, m] of Object.entries(event.herbPriceMultipliers ?? {})) {
+          herbMult[id] = (herbMult[id] ?? 1) * m!;
+        }
+        for (const [id, m] of Object.entries(
+          event.potionDemandMultipliers ?? {}
+        )) {
+          demandMult[id] = (demandMult[id] ?? 1) * m!;
+        }
+      }
+
+      const prices = game.herbDailyPrices[day - 1];
+      const calmPrices = calm.herbDailyPrices[day - 1];
+      for (const herbId of Object.keys(prices) as HerbId[]) {
+        if (herbMult[herbId] === undefined) {
+          expect(prices[herbId]).toBe(calmPrices[herbId]);
+        } else if (herbMult[herbId] > 1) {
+          expect(prices[herbId]).toBeGreaterThan(calmPrices[herbId]);
+        } else {
+          expect(prices[herbId]).toBeLessThanOrEqual(calmPrices[herbId]);
+        }
+      }
+
+      const demands = game.potionDailyDemands[day - 1];
+      const calmDemands = calm.potionDailyDemands[day - 1];
+      for (const potionId of Object.keys(demands) as PotionId[]) {
+        if (demandMult[potionId] === undefined) {
+          expect(demands[potionId]).toBe(calmDemands[potionId]);
+        } else {
+          expect(demands[potionId]).toBeGreaterThanOrEqual(
+            calmDemands[potionId]
+          );
+        }
+      }
+    }
+  });
+
+  it("announces events in day records and forecasts them to players", () => {
+    const config = eventfulConfig();
+    const game = setupGame(config.generation);
+    const event = game.marketEvents![0];
+
+    let state = initializeGameState(config.runtime);
+    while (state.currentDay < event.startDay) {
+      state = processGameDay([idle], state, game);
+    }
+
+    const dayBefore = state.currentDay - 1;
+    if (dayBefore >= 1) {
+      const inputs = getPlayerInputs(game, config, dayBefore, state, 0);
+      expect(inputs.upcomingEvents).toContainEqual(event);
+    }
+
+    const inputs = getPlayerInputs(game, config, event.startDay, state, 0);
+    expect(inputs.activeEvents).toContainEqual(event);
+
+    state = processGameDay([idle], state, game);
+    expect(state.dayRecords[event.startDay - 1].events).toContainEqual(event);
+  });
+
+  it("leaves games without events unchanged", () => {
+    const config = eventfulConfig();
+    delete config.generation.marketEvents;
+    const game = setupGame(config.generation);
+    const state = processGameDay(
+      [idle],
+      initializeGameState(config.runtime),
+      game
+    );
+    expect(game.marketEvents).toBeUndefined();
+    expect(state.dayRecords[0].events).toBeUndefined();
+    expect(getPlayerInputs(game, config, 1, state, 0).activeEvents).toBeUndefined();
+  });
+});
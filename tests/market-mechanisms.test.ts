@@ -0,0 +1,66 @@
+import { demandAtPrice } from "@/lib/demand-curves";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import { getGameRules, setupGame } from "@/lib/game-engine";
+import { MARKET_MECHANISMS } from "@/lib/market-mechanisms";
+import { PotionOffer } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+// Asks sorted ascending, as buildMarket hands them over
+const offers: PotionOffer[] = [
+  { potionId: "P01", price: 10, qty: 3, playerIdx: 0 },
+  { potionId: "P01", price: 20, qty: 3, playerIdx: 1 },
+  { potionId: "P01", price: 40, qty: 3, playerIdx: 2 },
+];
+
+const summarize = (processed: PotionOffer[]) =>
+  processed.map((o) => [o.playerIdx, o.actuallySold, o.salePrice ?? o.price]);
+
+describe("market mechanisms", () => {
+  it("cheapest-first pays each seller their own ask", () => {
+    expect(
+      summarize(MARKET_MECHANISMS["cheapest-first"].clear(offers, () => 5, 100))
+    ).toEqual([
+      [0, 3, 10],
+      [1, 2, 20],
+      [2, 0, 40],
+    ]);
+  });
+
+  it("uniform-price pays every sale the marginal ask", () => {
+    expect(
+      summarize(MARKET_MECHANISMS["uniform-price"].clear(offers, () => 5, 100))
+    ).toEqual([
+      [0, 3, 20],
+      [1, 2, 20],
+      [2, 0, 40],
+    ]);
+  });
+
+  it("sealed-bid pays winners the cheapest losing ask, or the cap", () => {
+    expect(
+      summarize(MARKET_MECHANISMS["sealed-bid"].clear(offers, () => 3, 100))
+    ).toEqual([
+      [0, 3, 20],
+      [1, 0, 20],
+      [2, 0, 40],
+    ]);
+    expect(
+      summarize(MARKET_MECHANISMS["sealed-bid"].clear(offers, () => 20, 100))
+    ).toEqual([
+      [0, 3, 100],
+      [1, 3, 100],
+      [2, 3, 100],
+    ]);
+  });
+
+  it("price-elastic defaults to half the buyers at the price cap", () => {
+    const game = setupGame({
+      ...getWithDefaultConfig("elastic", []).generation,
+      marketMechanism: "price-elastic",
+    });
+    const { demandCurve } = getGameRules(game);
+    // T1 cap = 5 * (10 + 10) = 100g
+    expect(demandAtPrice(demandCurve, 10, "T1", 1)).toBe(10);
+    expect(demandAtPrice(demandCurve, 10, "T1", 100)).toBe(5);
+  });
+});
@@ -0,0 +1,81 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { verifyRecordedGame } from "@/lib/replay";
+import { GameConfig, GameState, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+function notebookConfig(maxChars?: number): GameConfig {
+  const config = getWithDefaultConfig(
+    "notebook-seed",
+    [{ name: "a", model: "scripted" }],
+    3
+  );
+  if (maxChars) config.generation.notebook = { maxChars };
+  return config;
+}
+
+function play(config: GameConfig, days: PlayerOutputs[]): GameState {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  for (const outputs of days) {
+    state = processGameDay([outputs], state, game);
+  }
+  return state;
+}
+
+describe("notebook", () => {
+  it("feeds notes into the next day's inputs and keeps them until rewritten", () => {
+    const config = notebookConfig(100);
+    const game = setupGame(config.generation);
+    const state = play(config, [{ ...idle, notes: "Buy H03 on day 3" }, idle]);
+
+    expect(state.playerNotes).toEqual(["Buy H03 on day 3"]);
+    expect(state.dayRecords[1].playerActions[0]).toMatchObject({
+      requestedNotes: undefined,
+      notes: "Buy H03 on day 3",
+    });
+    expect(getPlayerInputs(game, config, 3, state, 0).notes).toBe(
+      "Buy H03 on day 3"
+    );
+  });
+
+  it("cuts notes off at the size limit", () => {
+    const state = play(notebookConfig(10), [{ ...idle, notes: "x".repeat(25) }]);
+
+    expect(state.playerNotes).toEqual(["x".repeat(10)]);
+    expect(state.dayRecords[0].playerActions[0].errors).toContain(
+      "Notes are limited to 10 characters. Kept the first 10."
+    );
+  });
+
+  it("ignores notes without the notebook", () => {
+    const config = notebookConfig();
+    const state = play(config, [{ ...idle, notes: "remember me" }]);
+
+    expect(state.playerNotes).toBeUndefined();
+    expect(state.dayRecords[0].playerActions[0].errors).toContain(
+      "The notebook is not enabled. Notes ignored."
+    );
+    expect(
+      getPlayerInputs(setupGame(config.generation), config, 2, state, 0).notes
+    ).toBeUndefined();
+  });
+
+  it("replays recorded notes", () => {
+    const config = notebookConfig(10);
+    const state = play(config, [
+      { ...idle, notes: "plan: hold" },
+      idle,
+      { ...idle, notes: "x".repeat(25) },
+    ]);
+
+    expect(verifyRecordedGame(config, state).divergences).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import { BUILT_IN_BOTS, createBotPlayer } from "@/lib/agents";
+import { getContent } from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import { verifyRecordedGame } from "@/lib/replay";
+import { DecisionFn, playHeadlessGame } from "@/lib/tournament";
+import { GameState, PlayerOutputs } from "@/lib/types";
+import { beforeAll, describe, expect, it } from "vitest";
+
+const bots = Object.values(BUILT_IN_BOTS);
+const config = getWithDefaultConfig(
+  "replay-seed",
+  bots.map((bot) => createBotPlayer(bot.id)),
+  4
+);
+
+// Round-trip through JSON like a streamed or KV-stored recording
+let recorded: GameState;
+beforeAll(async () => {
+  const state = await playHeadlessGame(
+    config,
+    bots.map((bot) => bot.decide)
+  );
+  recorded = JSON.parse(JSON.stringify(state));
+});
+
+describe("replay verification", () => {
+  it("reproduces a recorded game exactly", () => {
+    const report = verifyRecordedGame(config, recorded);
+    expect(report.divergences).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(report.daysReplayed).toBe(4);
+  });
+
+  it("reports tampered results", () => {
+    const tampered: GameState = structuredClone(recorded);
+    tampered.dayRecords[1].playerActions[0].endInventory.gold += 100;
+    tampered.playerInventories[0].gold += 100;
+
+    const report = verifyRecordedGame(config, tampered);
+    expect(report.ok).toBe(false);
+    expect(report.divergences.map((d) => [d.day, d.playerIdx, d.field])).toEqual([
+      [2, 0, "endInventory"],
+      [4, 0, "finalInventory"],
+    ]);
+  });
+
+  it("reports a recording made under a different seed", () => {
+    const report = verifyRecordedGame(
+      { ...config, generation: { ...config.generation, seed: "other" } },
+      recorded
+    );
+    expect(report.divergences[0]).toMatchObject({ day: 1, field: "herbPrices" });
+  });
+
+  it("reproduces submissions for features the game leaves off", async () => {
+    const herbId = getContent().herbIds[0];
+    const extras: Partial<PlayerOutputs> = {
+      sellHerbs: [{ herbId, qty: 1 }],
+      notes: "Sell everything on the last day",
+      trades: [{ side: "buy", playerIdx: 0, itemId: herbId, qty: 1, price: 1 }],
+      loan: { borrow: 50 },
+      standingOrders: [
+        { type: "buy-herb", herbId, maxPrice: 5, qty: 1, days: 2 },
+      ],
+      cancelOrders: ["o1-0-0"],
+    };
+    const deciders: DecisionFn[] = bots.map((bot) => (inputs) => ({
+      ...bot.decide(inputs),
+      ...extras,
+    }));
+    const state = await playHeadlessGame(config, deciders);
+    const recording: GameState = JSON.parse(JSON.stringify(state));
+
+    expect(recording.dayRecords[0].playerActions[0].errors).toEqual(
+      expect.arrayContaining([
+        "Selling herbs back is not enabled. Sales ignored.",
+        "The notebook is not enabled. Notes ignored.",
+        "Player trading is not enabled. Trades ignored.",
+        "Borrowing is not enabled. Loan ignored.",
+        "Standing orders are not enabled. Orders ignored.",
+      ])
+    );
+    expect(verifyRecordedGame(config, recording).divergences).toEqual([]);
+  });
+
+  it("reproduces a game with every optional rule on", async () => {
+    const rulesConfig = getWithDefaultConfig(
+      "replay-rules-seed",
+      bots.map((bot) => createBotPlayer(bot.id)),
+      4
+    );
+    Object.assign(rulesConfig.generation, {
+      herbSupply: {
+        tierBaseSupplies: { T1: 10, T2: 6, T3: 4 },
+        dailySupplySpread: 0.2,
+        priceImpact: 0.5,
+      },
+      spoilage: { potionShelfLife: 2, herbStorageFee: 1 },
+      playerTrading: true,
+      credit: { limit: 500, dailyInterestRate: 0.1 },
+      standingOrders: true,
+      herbSellBack: { discount: 0.2 },
+      fees: { listingFee: 1, salesTax: 0.1, stallRent: 2 },
+      notebook: { maxChars: 100 },
+    });
+    const { herbIds, potionIds } = getContent();
+    // Player 1 sells a herb to player 0, who buys it; everyone borrows,
+    // leaves orders, sells herbs back and keeps notes
+    const deciders: DecisionFn[] = bots.map(
+      (bot, playerIdx) => (inputs, context) => ({
+        ...bot.decide(inputs),
+        trades:
+          playerIdx < 2
+            ? [
+                {
+                  side: playerIdx === 1 ? "sell" : "buy",
+                  playerIdx: 1 - playerIdx,
+                  itemId: herbIds[0],
+                  qty: 1,
+                  price: 5,
+                },
+              ]
+            : [],
+        loan: context.day === 1 ? { borrow: 100 } : { repay: 20 },
+        standingOrders:
+          context.day === 1
+            ? [
+                {
+                  type: "buy-herb",
+                  herbId: herbIds[1],
+                  maxPrice: 100,
+                  qty: 2,
+                  days: 3,
+                },
+                {
+                  type: "sell-potion",
+                  potionId: potionIds[0],
+                  price: 40,
+                  qty: 1,
+                  days: 2,
+                },
+              ]
+            : [],
+        cancelOrders: context.day === 3 ? [`o1-${playerIdx}-0`] : [],
+        sellHerbs: [{ herbId: herbIds[1], qty: 1 }],
+        notes: `Day ${context.day} done`,
+      })
+    );
+    const state = await playHeadlessGame(rulesConfig, deciders);
+    const recording: GameState = JSON.parse(JSON.stringify(state));
+
+    const actions = recording.dayRecords.flatMap((r) => r.playerActions);
+    expect(actions.some((a) => a.trades?.length)).toBe(true);
+    expect(actions.some((a) => a.loan)).toBe(true);
+    expect(actions.some((a) => a.herbSales?.length)).toBe(true);
+    expect(recording.dayRecords.some((r) => r.standingOrderFills?.length)).toBe(
+      true
+    );
+    expect(recording.finalStandings).toBeDefined();
+
+    const report = verifyRecordedGame(rulesConfig, recording);
+    expect(report.divergences).toEqual([]);
+    expect(report.daysReplayed).toBe(4);
+  });
+});
@@ -0,0 +1,125 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { verifyRecordedGame } from "@/lib/replay";
+import { GameConfig, GameState, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+function scoringConfig(days = 2): GameConfig {
+  const config = getWithDefaultConfig(
+    "scoring-seed",
+    [
+      { name: "a", model: "scripted" },
+      { name: "b", model: "scripted" },
+    ],
+    days
+  );
+  config.generation.herbSellBack = { discount: 0.2 };
+  return config;
+}
+
+function play(config: GameConfig, days: PlayerOutputs[][]): GameState {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  for (const outputs of days) {
+    state = processGameDay(outputs, state, game);
+  }
+  return state;
+}
+
+describe("herb sell-back", () => {
+  it("sells held herbs back at the discounted price", () => {
+    const config = scoringConfig(1);
+    const price = setupGame(config.generation).herbDailyPrices[0].H01;
+    const state = play(config, [
+      [
+        {
+          ...idle,
+          buyHerbs: [{ herbId: "H01", qty: 5 }],
+          sellHerbs: [{ herbId: "H01", qty: 8 }],
+        },
+        idle,
+      ],
+    ]);
+
+    const actions = state.dayRecords[0].playerActions[0];
+    const sellPrice = Math.floor(price * 0.8);
+    expect(actions.herbSales).toEqual([
+      { herbId: "H01", qty: 5, price: sellPrice, revenue: 5 * sellPrice },
+    ]);
+    expect(actions.errors).toEqual([
+      "Not enough H01 to sell back 8. Sold 5 herbs.",
+    ]);
+    expect(state.playerInventories[0]).toMatchObject({
+      gold: 1000 - 5 * price + 5 * sellPrice,
+      herbs: { H01: 0 },
+    });
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("ignores sales unless the game allows them", () => {
+    const config = scoringConfig(1);
+    config.generation.herbSellBack = undefined;
+    const state = play(config, [
+      [{ ...idle, sellHerbs: [{ herbId: "H01", qty: 1 }] }, idle],
+    ]);
+    expect(state.dayRecords[0].playerActions[0].errors).toEqual([
+      "Selling herbs back is not enabled. Sales ignored.",
+    ]);
+  });
+});
+
+describe("final standings", () => {
+  const hoard: PlayerOutputs = {
+    ...idle,
+    buyHerbs: [{ herbId: "H01", qty: 10 }],
+  };
+
+  it("are settled on the last day only", () => {
+    const config = scoringConfig(2);
+    const game = setupGame(config.generation);
+    const afterDay1 = processGameDay(
+      [idle, idle],
+      initializeGameState(config.runtime),
+      game
+    );
+    expect(afterDay1.finalStandings).toBeUndefined();
+    const afterDay2 = processGameDay([idle, idle], afterDay1, game);
+    expect(afterDay2.finalStandings?.map((s) => s.rank)).toEqual([1, 1]);
+  });
+
+  it("count only gold by default", () => {
+    const config = scoringConfig(1);
+    const state = play(config, [[hoard, idle]]);
+    const lastPrice = setupGame(config.generation).herbDailyPrices[0].H01;
+    const [hoarder, saver] = state.finalStandings!;
+
+    expect(hoarder).toEqual({
+      playerIdx: 0,
+      rank: 2,
+      score: 1000 - 10 * lastPrice,
+      gold: 1000 - 10 * lastPrice,
+      debt: 0,
+      inventoryValue: 10 * Math.floor(lastPrice * 0.8),
+    });
+    expect(saver).toMatchObject({ rank: 1, score: 1000, inventoryValue: 0 });
+  });
+
+  it("add leftover stock at liquidation prices with net-worth scoring", () => {
+    const config = scoringConfig(1);
+    config.generation.finalScoring = "net-worth";
+    const state = play(config, [[hoard, idle]]);
+    const lastPrice = setupGame(config.generation).herbDailyPrices[0].H01;
+    const [hoarder] = state.finalStandings!;
+
+    expect(hoarder.score).toBe(
+      1000 - 10 * lastPrice + 10 * Math.floor(lastPrice * 0.8)
+    );
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  getBudgetBreach,
+  isSpendLimits,
+  isTimeoutError,
+} from "@/lib/spend-limits";
+import { PlayerUsageStats, SpendLimits } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const limits: SpendLimits = {
+  callTimeoutMs: 30_000,
+  onTimeout: "hold",
+  playerBudgetUsd: 0.5,
+  gameBudgetUsd: 1,
+  overBudget: "hold",
+};
+
+function spent(costUsd: number): PlayerUsageStats {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    costUsd,
+    totalTimeMs: 0,
+    callCount: 1,
+  };
+}
+
+describe("spend limits", () => {
+  it("stops a player once their own budget is spent", () => {
+    const stats = [spent(0.5), spent(0.1)];
+    expect(getBudgetBreach(stats, 0, limits)).toMatch(/^Player budget of \$0\.50/);
+    expect(getBudgetBreach(stats, 1, limits)).toBeUndefined();
+  });
+
+  it("stops everyone once the game budget is spent", () => {
+    const stats = [spent(0.4), spent(0.4), spent(0.3)];
+    expect(getBudgetBreach(stats, 1, limits)).toMatch(/^Game budget of \$1\.00/);
+    expect(
+      getBudgetBreach(stats, 1, { ...limits, gameBudgetUsd: undefined })
+    ).toBeUndefined();
+  });
+
+  it("recognizes aborted calls, also when wrapped", () => {
+    const timeout = new DOMException("signal timed out", "TimeoutError");
+    expect(isTimeoutError(timeout)).toBe(true);
+    expect(isTimeoutError({ name: "AI_APICallError", cause: timeout })).toBe(
+      true
+    );
+    expect(isTimeoutError(new Error("schema mismatch"))).toBe(false);
+  });
+
+  it("validates limits from request bodies", () => {
+    expect(isSpendLimits(limits)).toBe(true);
+    expect(isSpendLimits({ onTimeout: "fail", overBudget: "disqualified" })).toBe(
+      true
+    );
+    expect(isSpendLimits({ ...limits, gameBudgetUsd: 0 })).toBe(false);
+    expect(isSpendLimits({ ...limits, overBudget: "ignore" })).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { GameConfig, GameState, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+function spoilingConfig(): GameConfig {
+  const config = getWithDefaultConfig(
+    "spoil-seed",
+    [{ name: "a", model: "scripted" }],
+    4
+  );
+  config.generation.spoilage = {
+    herbShelfLife: 2,
+    potionShelfLife: 1,
+    herbStorageFee: 1,
+  };
+  return config;
+}
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+function play(config: GameConfig, days: PlayerOutputs[]): GameState {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  for (const outputs of days) {
+    state = processGameDay([outputs], state, game);
+  }
+  return state;
+}
+
+describe("spoilage", () => {
+  it("spoils herbs after their shelf life and charges storage meanwhile", () => {
+    const config = spoilingConfig();
+    const state = play(config, [
+      { ...idle, buyHerbs: [{ herbId: "H01", qty: 4 }] },
+      idle,
+    ]);
+
+    const [day1, day2] = state.dayRecords.map((r) => r.playerActions[0]);
+    expect(day1.spoiled).toEqual({ herbs: {}, potions: {} });
+    expect(day1.storageFee).toBe(4);
+    expect(day2.spoiled!.herbs).toEqual({ H01: 4 });
+    expect(day2.storageFee).toBe(0);
+    expect(state.playerInventories[0].herbs.H01).toBe(0);
+  });
+
+  it("uses the oldest stock first and warns about expiring items", () => {
+    const config = spoilingConfig();
+    const game = setupGame(config.generation);
+    let state = play(config, [
+      { ...idle, buyHerbs: [{ herbId: "H01", qty: 2 }] },
+    ]);
+
+    // Day 2: the two day-1 herbs are on their last day
+    const inputs = getPlayerInputs(game, config, 2, state, 0);
+    expect(inputs.expiringTonight).toEqual({ herbs: { H01: 2 }, potions: {} });
+
+    // Buy 2 fresh, use 2: the old ones go into the potions, fresh ones survive
+    state = processGameDay(
+      [
+        {
+          buyHerbs: [
+            { herbId: "H01", qty: 2 },
+            { herbId: "H02", qty: 2 },
+          ],
+          makePotions: [{ potionId: "P01", qty: 2 }],
+          potionOffers: [],
+        },
+      ],
+      state,
+      game
+    );
+    const day2 = state.dayRecords[1].playerActions[0];
+    expect(day2.spoiled!.herbs).toEqual({});
+    // Unsold potions have a shelf life of 1 day
+    expect(day2.spoiled!.potions).toEqual({ P01: 2 });
+    expect(state.playerInventories[0].herbs.H01).toBe(2);
+    expect(state.inventoryAges![0].herbs.H01).toEqual([0, 2]);
+  });
+
+  it("is off by default", () => {
+    const config = getWithDefaultConfig("plain", [{ name: "a", model: "x" }]);
+    const state = play(config, [
+      { ...idle, buyHerbs: [{ herbId: "H01", qty: 1 }] },
+    ]);
+    expect(state.dayRecords[0].playerActions[0].spoiled).toBeUndefined();
+    expect(state.inventoryAges).toBeUndefined();
+  });
+});
@@ -0,0 +1,180 @@
+import { getContent } from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { verifyRecordedGame } from "@/lib/replay";
+import { GameConfig, GameState, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+function ordersConfig(days = 3): GameConfig {
+  const config = getWithDefaultConfig(
+    "orders-seed",
+    [{ name: "a", model: "scripted" }],
+    days
+  );
+  config.generation.standingOrders = true;
+  return config;
+}
+
+function play(config: GameConfig, days: PlayerOutputs[]): GameState {
+  const game = setupGame(config.generation);
+  let state = initializeGameState(config.runtime);
+  for (const outputs of days) {
+    state = processGameDay([outputs], state, game);
+  }
+  return state;
+}
+
+// Buy the herbs for and craft `qty` of the first potion
+function craft(qty: number): PlayerOutputs {
+  const potionId = getContent().potionIds[0];
+  return {
+    buyHerbs: getContent().recipes[potionId].ingredients.map(
+      ({ herbId }) => ({ herbId, qty })
+    ),
+    makePotions: [{ potionId, qty }],
+    potionOffers: [],
+  };
+}
+
+describe("standing orders", () => {
+  it("fills herb buys on days the price is low enough", () => {
+    const config = ordersConfig(3);
+    const prices = setupGame(config.generation).herbDailyPrices;
+    const cheapest = Math.min(prices[0].H01, prices[1].H01, prices[2].H01);
+    const state = play(config, [
+      {
+        ...idle,
+        standingOrders: [
+          { type: "buy-herb", herbId: "H01", maxPrice: cheapest, qty: 5, days: 3 },
+        ],
+      },
+      idle,
+      idle,
+    ]);
+
+    // Filled in full on the first cheap enough day, then off the book
+    const fillDay = prices.findIndex((dayPrices) => dayPrices.H01 <= cheapest);
+    state.dayRecords.forEach((record, idx) => {
+      expect(record.standingOrderFills).toEqual(
+        idx === fillDay
+          ? [{ orderId: "o1-0-0", playerIdx: 0, itemId: "H01", qty: 5, price: cheapest }]
+          : []
+      );
+    });
+    expect(state.playerInventories[0].herbs.H01).toBe(5);
+    expect(state.orderBook).toEqual([]);
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("keeps unsold potions on the book and returns them on expiry", () => {
+    const config = ordersConfig(2);
+    const potionId = getContent().potionIds[0];
+    const state = play(config, [
+      {
+        ...craft(40),
+        standingOrders: [
+          { type: "sell-potion", potionId, price: 1000, qty: 40, days: 2 },
+        ],
+      },
+      idle,
+    ]);
+
+    const [day1, day2] = state.dayRecords;
+    const sold = (day: typeof day1) =>
+      day.standingOrderFills!.reduce((sum, fill) => sum + fill.qty, 0);
+    // Reserved potions are off the inventory while the order is open
+    expect(day1.playerActions[0].endInventory.potions[potionId]).toBe(0);
+    expect(sold(day1)).toBeGreaterThan(0);
+    expect(sold(day1)).toBeLessThan(40);
+    expect(day2.playerActions[0].salesResults[0].offered).toBe(40 - sold(day1));
+
+    const returned = day2.playerActions[0].orderReturns![potionId]!;
+    expect(sold(day1) + sold(day2) + returned).toBe(40);
+    expect(state.playerInventories[0].potions[potionId]).toBe(returned);
+    expect(state.orderBook).toEqual([]);
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("returns potions as old as they would be at home", () => {
+    const config = ordersConfig(2);
+    config.generation.spoilage = { potionShelfLife: 2 };
+    const potionId = getContent().potionIds[0];
+    const state = play(config, [
+      {
+        ...craft(40),
+        standingOrders: [
+          { type: "sell-potion", potionId, price: 1000, qty: 40, days: 2 },
+        ],
+      },
+      idle,
+    ]);
+
+    // Crafted on day 1, so what comes back on day 2 spoils that night
+    const actions = state.dayRecords[1].playerActions[0];
+    const returned = actions.orderReturns![potionId]!;
+    expect(returned).toBeGreaterThan(0);
+    expect(actions.spoiled?.potions[potionId]).toBe(returned);
+    expect(state.playerInventories[0].potions[potionId]).toBe(0);
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("cancels open orders and lists them in the player's inputs", () => {
+    const config = ordersConfig(2);
+    const game = setupGame(config.generation);
+    const potionId = getContent().potionIds[0];
+    let state = processGameDay(
+      [
+        {
+          ...craft(40),
+          standingOrders: [
+            { type: "sell-potion", potionId, price: 1000, qty: 40, days: 5 },
+          ],
+        },
+      ],
+      initializeGameState(config.runtime),
+      game
+    );
+    const [open] = getPlayerInputs(game, config, 2, state, 0).openOrders!;
+    expect(open).toMatchObject({ id: "o1-0-0", expiresDay: 5 });
+
+    state = processGameDay(
+      [{ ...idle, cancelOrders: ["o1-0-0", "o9-9-9"] }],
+      state,
+      game
+    );
+    const actions = state.dayRecords[1].playerActions[0];
+    expect(actions.orderReturns).toEqual({ [potionId]: open.remaining });
+    expect(actions.salesResults).toEqual([]);
+    expect(actions.errors).toEqual([
+      "Unknown standing order o9-9-9. Cancel ignored.",
+    ]);
+    expect(state.playerInventories[0].potions[potionId]).toBe(open.remaining);
+    expect(state.orderBook).toEqual([]);
+  });
+
+  it("ignores standing orders unless the game allows them", () => {
+    const config = ordersConfig(1);
+    config.generation.standingOrders = undefined;
+    const state = play(config, [
+      {
+        ...idle,
+        standingOrders: [
+          { type: "buy-herb", herbId: "H01", maxPrice: 1000, qty: 5, days: 2 },
+        ],
+      },
+    ]);
+    const actions = state.dayRecords[0].playerActions[0];
+    expect(actions.errors).toEqual([
+      "Standing orders are not enabled. Orders ignored.",
+    ]);
+    expect(actions.actualBuyHerbs).toEqual([]);
+    expect(state.orderBook).toBeUndefined();
+  });
+});
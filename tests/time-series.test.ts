@@ -0,0 +1,84 @@
+import { getWithDefaultConfig } from "@/lib/defaults";
+import { setupGame } from "@/lib/game-engine";
+import { generateDailySeries } from "@/lib/time-series";
+import { GenerationConfig, TimeSeriesModel } from "@/lib/types";
+import { Random } from "random";
+import { describe, expect, it } from "vitest";
+
+function generationConfig(): GenerationConfig {
+  return getWithDefaultConfig(
+    "series-seed",
+    [{ name: "a", model: "scripted" }],
+    30
+  ).generation;
+}
+
+const bases = { A: 100, B: 100, C: 100 };
+const tierOf = (id: string) => (id === "C" ? "T2" : "T1");
+
+function series(model: TimeSeriesModel, spread = 0) {
+  return generateDailySeries(bases, tierOf, 40, spread, model, new Random("x"));
+}
+
+describe("time-series models", () => {
+  it("keeps the original generator as the uniform default", () => {
+    const config = generationConfig();
+    const plain = setupGame(config);
+    const uniform = setupGame({
+      ...config,
+      herbPriceModel: { type: "uniform" },
+      potionDemandModel: { type: "uniform" },
+    });
+    expect(uniform.herbDailyPrices).toEqual(plain.herbDailyPrices);
+    expect(uniform.potionDailyDemands).toEqual(plain.potionDailyDemands);
+  });
+
+  it("is deterministic from the seed", () => {
+    const config = {
+      ...generationConfig(),
+      herbPriceModel: { type: "random-walk", volatility: 0.1 } as const,
+    };
+    expect(setupGame(config).herbDailyPrices).toEqual(
+      setupGame(config).herbDailyPrices
+    );
+  });
+
+  it("moves a random walk by at most its volatility per day", () => {
+    const days = series({ type: "random-walk", volatility: 0.1 });
+    for (let day = 1; day < days.length; day++) {
+      const ratio = days[day].A / days[day - 1].A;
+      expect(ratio).toBeGreaterThanOrEqual(0.9 - 1e-9);
+      expect(ratio).toBeLessThanOrEqual(1.1 + 1e-9);
+    }
+  });
+
+  it("pulls mean-reverting values back toward the base", () => {
+    const days = series({ type: "mean-reverting", reversion: 0.5, volatility: 0.1 });
+    // Deviation after reversion is bounded by volatility / reversion
+    for (const values of days) {
+      expect(Math.abs(values.A - 100)).toBeLessThanOrEqual(20 + 1e-9);
+    }
+  });
+
+  it("follows the seasonal cycle", () => {
+    const days = series({ type: "seasonal", amplitude: 0.3, period: 10 });
+    for (let day = 10; day < days.length; day++) {
+      expect(days[day].A).toBeCloseTo(days[day - 10].A);
+    }
+    const values = days.map((d) => d.A);
+    expect(Math.max(...values) - Math.min(...values)).toBeGreaterThan(40);
+  });
+
+  it("moves items of the same tier together under correlated shocks", () => {
+    const days = series({
+      type: "correlated-shocks",
+      marketVolatility: 0.1,
+      tierVolatility: 0.1,
+      persistence: 0.8,
+    });
+    for (const values of days) {
+      expect(values.A).toBeCloseTo(values.B);
+    }
+    expect(days.some((values) => Math.abs(values.A - values.C) > 1)).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { rankByScore } from "@/lib/scoring";
+import {
+  buildSeatings,
+  computeStandings,
+  DecisionFn,
+  runTournament,
+} from "@/lib/tournament";
+import { describe, expect, it } from "vitest";
+
+const idle: DecisionFn = () => ({
+  buyHerbs: [],
+  makePotions: [],
+  potionOffers: [],
+});
+
+// Buys a few T1 herbs, crafts the cheapest healing potion and sells it at a markup
+const healer: DecisionFn = (inputs) => {
+  const cost = inputs.dailyPrices.H01 + inputs.dailyPrices.H02;
+  return {
+    buyHerbs: [
+      { herbId: "H01", qty: 3 },
+      { herbId: "H02", qty: 3 },
+    ],
+    makePotions: [{ potionId: "P01", qty: 3 }],
+    potionOffers: [{ potionId: "P01", price: cost * 2, qty: 3 }],
+  };
+};
+
+describe("tournament", () => {
+  it("buildSeatings rotates every entrant through every seat", () => {
+    expect(buildSeatings(3)).toEqual([
+      [0, 1, 2],
+      [1, 2, 0],
+      [2, 0, 1],
+    ]);
+    expect(buildSeatings(3, "fixed")).toEqual([[0, 1, 2]]);
+  });
+
+  it("rankByScore shares ranks on ties", () => {
+    expect(rankByScore([100, 300, 100, 50])).toEqual([2, 1, 2, 4]);
+  });
+
+  it("runs seeds x seatings offline and aggregates standings", async () => {
+    const completed: string[] = [];
+    const result = await runTournament({
+      entrants: [
+        { id: "idle", decide: idle },
+        { id: "healer", decide: healer },
+      ],
+      seeds: ["s1", "s2"],
+      days: 3,
+      onGameComplete: (game) => completed.push(game.seed),
+    });
+
+    expect(result.games).toHaveLength(4);
+    expect(completed).toEqual(["s1", "s1", "s2", "s2"]);
+    result.games.forEach((game) => {
+      expect(game.finalState.currentDay).toBe(4);
+      expect(game.finalState.dayRecords).toHaveLength(3);
+    });
+
+    const idleStanding = result.standings.find((s) => s.entrantId === "idle")!;
+    const healerStanding = result.standings.find(
+      (s) => s.entrantId === "healer"
+    )!;
+    expect(idleStanding.games).toBe(4);
+    expect(idleStanding.meanFinalGold).toBe(1000);
+    expect(healerStanding.meanFinalGold).toBeGreaterThan(1000);
+    expect(healerStanding.winRate).toBe(1);
+    expect(healerStanding.rankDistribution).toEqual([4, 0]);
+    expect(result.standings[0].entrantId).toBe("healer");
+  });
+
+  it("is deterministic for the same seeds", async () => {
+    const options = {
+      entrants: [
+        { id: "a", decide: healer },
+        { id: "b", decide: healer },
+      ],
+      seeds: ["repeat"],
+      days: 2,
+    };
+    const first = await runTournament(options);
+    const second = await runTournament(options);
+    expect(first.games.map((g) => g.finalGold)).toEqual(
+      second.games.map((g) => g.finalGold)
+    );
+  });
+
+  it("computeStandings counts shared first place as a win", () => {
+    const standings = computeStandings(
+      [{ id: "a" }, { id: "b" }],
+      [
+        {
+          seed: "x",
+          seating: ["a", "b"],
+          finalGold: [500, 500],
+          ranks: [1, 1],
+          errorCount: [0, 2],
+          finalState: {} as never,
+        },
+      ]
+    );
+    expect(standings.map((s) => s.winRate)).toEqual([1, 1]);
+    expect(standings.find((s) => s.entrantId === "b")!.totalErrors).toBe(2);
+  });
+});
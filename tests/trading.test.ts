@@ -0,0 +1,175 @@
+import { getContent } from "@/lib/content-packs";
+import { getWithDefaultConfig } from "@/lib/defaults";
+import {
+  getPlayerInputs,
+  initializeGameState,
+  processGameDay,
+  setupGame,
+} from "@/lib/game-engine";
+import { verifyRecordedGame } from "@/lib/replay";
+import { settleTrades } from "@/lib/trading";
+import { GameConfig, PlayerInventory, PlayerOutputs } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const idle: PlayerOutputs = { buyHerbs: [], makePotions: [], potionOffers: [] };
+
+function tradingConfig(): GameConfig {
+  const config = getWithDefaultConfig(
+    "trade-seed",
+    [
+      { name: "a", model: "scripted" },
+      { name: "b", model: "scripted" },
+    ],
+    3
+  );
+  config.generation.playerTrading = true;
+  return config;
+}
+
+function inventory(gold: number, h01 = 0): PlayerInventory {
+  const state = initializeGameState(tradingConfig().runtime);
+  const result = structuredClone(state.playerInventories[0]);
+  result.gold = gold;
+  result.herbs.H01 = h01;
+  return result;
+}
+
+describe("player trading", () => {
+  it("matches orders at the seller's price within stock and gold", () => {
+    const inventories = [inventory(0, 5), inventory(30), inventory(100)];
+    const { trades, errors } = settleTrades(
+      [
+        [
+          { side: "sell", playerIdx: 1, itemId: "H01", qty: 4, price: 10 },
+          { side: "sell", playerIdx: 2, itemId: "H01", qty: 2, price: 20 },
+        ],
+        [{ side: "buy", playerIdx: 0, itemId: "H01", qty: 4, price: 12 }],
+        [
+          { side: "buy", playerIdx: 0, itemId: "H01", qty: 2, price: 15 },
+          { side: "buy", playerIdx: 2, itemId: "H02", qty: 1, price: 1 },
+        ],
+      ],
+      inventories,
+      getContent()
+    );
+
+    // Player 1 can only afford 3; player 2 bids below the ask
+    expect(trades[0]).toEqual([
+      { side: "sell", playerIdx: 1, itemId: "H01", qty: 3, price: 10 },
+    ]);
+    expect(trades[1]).toEqual([
+      { side: "buy", playerIdx: 0, itemId: "H01", qty: 3, price: 10 },
+    ]);
+    expect(inventories.map((inv) => [inv.gold, inv.herbs.H01])).toEqual([
+      [30, 2],
+      [0, 3],
+      [100, 0],
+    ]);
+    expect(errors[0]).toEqual([
+      "Trade partly matched: sell 4 H01 to player #1 at 10g. Traded 3, the rest is open until tomorrow.",
+      "Trade not matched: sell 2 H01 to player #2 at 20g. Open until tomorrow.",
+    ]);
+    expect(errors[2]).toEqual([
+      "Unknown trade partner #2. Trade ignored.",
+      "Trade not matched: buy 2 H01 from player #0 at 15g. Open until tomorrow.",
+    ]);
+  });
+
+  it("keeps what orders leave open for one more day", () => {
+    const inventories = [inventory(0, 5), inventory(100)];
+    const sell = { side: "sell", playerIdx: 1, itemId: "H01", price: 10 } as const;
+    const { open } = settleTrades(
+      [[{ ...sell, qty: 4 }], []],
+      inventories,
+      getContent()
+    );
+    expect(open).toEqual([[{ ...sell, qty: 4 }], []]);
+
+    // The buyer takes 1 today; the rest lapses instead of carrying on
+    const next = settleTrades(
+      [[], [{ side: "buy", playerIdx: 0, itemId: "H01", qty: 1, price: 10 }]],
+      inventories,
+      getContent(),
+      open
+    );
+    expect(next.trades[0]).toEqual([{ ...sell, qty: 1 }]);
+    expect(next.open).toEqual([[], []]);
+    expect(next.errors[0]).toEqual([
+      "Trade lapsed: sell 3 H01 to player #1 at 10g.",
+    ]);
+  });
+
+  it("settles trades before buying and shows offers to the partner", () => {
+    const config = tradingConfig();
+    const game = setupGame(config.generation);
+    let state = initializeGameState(config.runtime);
+
+    const sell: PlayerOutputs = {
+      ...idle,
+      trades: [{ side: "sell", playerIdx: 1, itemId: "H01", qty: 3, price: 12 }],
+    };
+    // Day 1: A has no H01 yet when trades settle, so the offer stays open
+    state = processGameDay(
+      [{ ...sell, buyHerbs: [{ herbId: "H01", qty: 3 }] }, idle],
+      state,
+      game
+    );
+    expect(state.dayRecords[0].playerActions[0].trades).toEqual([]);
+
+    const inputs = getPlayerInputs(game, config, 2, state, 1);
+    expect(inputs.tradePartners).toEqual([{ playerIdx: 0, name: "a" }]);
+    expect(inputs.tradeOffersToYou).toEqual([
+      { side: "sell", playerIdx: 0, itemId: "H01", qty: 3, price: 12 },
+    ]);
+
+    // Day 2: B accepts without A posting again, and can craft with the
+    // traded herbs the same day
+    state = processGameDay(
+      [
+        idle,
+        {
+          ...idle,
+          trades: [{ side: "buy", playerIdx: 0, itemId: "H01", qty: 3, price: 12 }],
+        },
+      ],
+      state,
+      game
+    );
+    const [a, b] = state.dayRecords[1].playerActions;
+    expect(b.trades).toEqual([
+      { side: "buy", playerIdx: 0, itemId: "H01", qty: 3, price: 12 },
+    ]);
+    expect(a.endInventory.gold - a.startInventory.gold).toBe(36);
+    expect(b.endInventory.herbs.H01).toBe(3);
+    expect(getPlayerInputs(game, config, 3, state, 1).tradeOffersToYou).toEqual(
+      []
+    );
+    expect(verifyRecordedGame(config, state).ok).toBe(true);
+  });
+
+  it("ignores trades unless the game enables them", () => {
+    const config = tradingConfig();
+    config.generation.playerTrading = undefined;
+    const game = setupGame(config.generation);
+    const state = processGameDay(
+      [
+        {
+          ...idle,
+          trades: [{ side: "buy", playerIdx: 1, itemId: "H01", qty: 1, price: 1 }],
+        },
+        idle,
+      ],
+      initializeGameState(config.runtime),
+      game
+    );
+    const actions = state.dayRecords[0].playerActions[0];
+    expect(actions.requestedTrades).toEqual([
+      { side: "buy", playerIdx: 1, itemId: "H01", qty: 1, price: 1 },
+    ]);
+    expect(actions.trades).toBeUndefined();
+    expect(actions.errors).toEqual([
+      "Player trading is not enabled. Trades ignored.",
+    ]);
+    expect(getPlayerInputs(game, config, 2, state, 0).tradePartners).toBeUndefined();
+  });
+});
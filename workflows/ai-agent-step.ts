@@ -0,0 +1,204 @@
+import {
+  createAgentToolbox,
+  DEFAULT_TOOL_CALL_BUDGET,
+} from "@/lib/agent-tools";
+import { getContent } from "@/lib/content-packs";
+import { isTimeoutError } from "@/lib/spend-limits";
+import { createPlayerOutputsSchema, PlayerInputs } from "@/lib/types";
+import { generateText, LanguageModelUsage, stepCountIs, tool } from "ai";
+import { z } from "zod";
+import {
+  buildDayPrompt,
+  EMPTY_OUTPUTS,
+  getBilledAmount,
+  PlayerStepOptions,
+  PlayerStepResult,
+  sanitizeAIResponse,
+  sumUsage,
+} from "./ai-player-step";
+import { buildSystemPrompt } from "./prompts";
+
+// A submitPlan call the SDK couldn't match to the plan schema is no
+// submission: the model sees the error and may try again
+function isPlanSubmission(call: { toolName: string; invalid?: boolean }) {
+  return call.toolName === "submitPlan" && !call.invalid;
+}
+
+// "tools" mode: instead of answering in one shot, the model may look up
+// history, compute margins and dry-run plans before calling submitPlan.
+export async function aiAgentStep(
+  inputs: PlayerInputs,
+  modelId: string,
+  isDisqualified: boolean,
+  strategyPrompt?: string,
+  {
+    toolCallBudget = DEFAULT_TOOL_CALL_BUDGET,
+    timeoutMs,
+  }: PlayerStepOptions = {}
+): Promise<PlayerStepResult> {
+  "use step";
+
+  // Skip disqualified players - return empty outputs with no usage
+  if (isDisqualified) {
+    return { outputs: EMPTY_OUTPUTS, success: true };
+  }
+
+  const content = getContent(inputs.rules.contentPack);
+  const systemPrompt = buildSystemPrompt(strategyPrompt, inputs.rules);
+  const planSchema = createPlayerOutputsSchema(
+    content.herbIds,
+    content.potionIds
+  );
+
+  const userPrompt = `${buildDayPrompt(inputs)}=== Tools ===
+You may call up to ${toolCallBudget} tools before deciding:
+- getPriceHistory: herb prices of every day so far
+- getMarketHistory: offers, sales and price ranges of potions on past days
+- getRecipeMargins: herb cost of each potion today vs. its last selling price
+- dryRunPlan: check a plan against your inventory and see the errors it would cause
+
+When you are done, call submitPlan with your plan. Only the submitted plan counts.
+`;
+
+  const toolbox = createAgentToolbox(inputs, toolCallBudget);
+  // Steps finished so far, so a failed decision still reports what it used
+  const finishedSteps: {
+    usage: LanguageModelUsage;
+    providerMetadata?: Record<string, Record<string, unknown>>;
+  }[] = [];
+  const startTime = Date.now();
+  console.log(userPrompt);
+
+  try {
+    const { steps, totalUsage, reasoningText } = await generateText({
+      model: modelId,
+      system: systemPrompt,
+      prompt: userPrompt,
+      tools: {
+        getPriceHistory: tool({
+          description: "Herb prices of every day so far, today last",
+          inputSchema: z.object({
+            herbId: z.enum(content.herbIds).optional(),
+          }),
+          execute: async (input) => toolbox.getPriceHistory(input),
+        }),
+        getMarketHistory: tool({
+          description: "What was offered and sold of each potion on past days",
+          inputSchema: z.object({
+            potionId: z.enum(content.potionIds).optional(),
+          }),
+          execute: async (input) => toolbox.getMarketHistory(input),
+        }),
+        getRecipeMargins: tool({
+          description:
+            "Today's herb cost of one potion of each recipe and its margin at the last selling price",
+          inputSchema: z.object({}),
+          execute: async () => toolbox.getRecipeMargins({}),
+        }),
+        dryRunPlan: tool({
+          description:
+            "Validate a plan against your inventory without submitting it",
+          inputSchema: planSchema,
+          execute: async (plan) => toolbox.dryRunPlan(plan),
+        }),
+        submitPlan: tool({
+          description: "Submit your final plan for today",
+          inputSchema: planSchema,
+          execute: async (plan) => {
+            toolbox.submitPlan(plan);
+            return "submitted";
+          },
+        }),
+      },
+      stopWhen: [
+        ({ steps }) => !!steps.at(-1)?.toolCalls.some(isPlanSubmission),
+        stepCountIs(toolCallBudget + 2),
+      ],
+      abortSignal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+      onStepFinish: (step) => {
+        finishedSteps.push(step);
+      },
+    });
+
+    const durationMs = Date.now() - startTime;
+    const inputTokens = totalUsage?.inputTokens || 0;
+    const outputTokens = totalUsage?.outputTokens || 0;
+    const totalTokens = totalUsage?.totalTokens || 0;
+    const reasoningTokens = totalUsage?.reasoningTokens
+      ? totalUsage.reasoningTokens
+      : totalTokens - inputTokens - outputTokens;
+    const usage = {
+      inputTokens,
+      outputTokens,
+      reasoningTokens,
+      totalTokens,
+      durationMs,
+      costUsd: getBilledAmount(steps),
+    };
+
+    console.log(
+      `[Agent] ${modelId} day ${inputs.meta.currentDay}: ${durationMs}ms, ${
+        steps.length
+      } steps, ${toolbox.transcript.length} tool calls`
+    );
+
+    const submitted = steps
+      .flatMap((step) => step.toolCalls)
+      .find(isPlanSubmission);
+    if (!submitted) {
+      return {
+        outputs: EMPTY_OUTPUTS,
+        success: false,
+        error: "no plan: the model never called submitPlan",
+        usage,
+        toolTranscript: toolbox.transcript,
+      };
+    }
+
+    const plan = planSchema.safeParse(submitted.input);
+    if (!plan.success) {
+      return {
+        outputs: EMPTY_OUTPUTS,
+        success: false,
+        error: `invalid plan: ${plan.error.issues[0]?.message}`,
+        usage,
+        toolTranscript: toolbox.transcript,
+      };
+    }
+
+    return {
+      outputs: sanitizeAIResponse(plan.data, content),
+      success: true,
+      reasoning: reasoningText || undefined,
+      usage,
+      toolTranscript: toolbox.transcript,
+    };
+  } catch (error: unknown) {
+    const durationMs = Date.now() - startTime;
+    const err = error as { name?: string; message?: string };
+    console.error(`[Agent] ✗ ${modelId} FAILED (${durationMs}ms)`);
+
+    const usage = sumUsage(finishedSteps.map((step) => step.usage));
+    const timedOut = isTimeoutError(error);
+    return {
+      outputs: EMPTY_OUTPUTS,
+      success: false,
+      error: timedOut
+        ? `timeout: no decision within ${timeoutMs}ms`
+        : `${err.name || "error"}: ${(err.message || "Unknown error").slice(
+            0,
+            100
+          )}`,
+      timedOut,
+      usage: {
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        reasoningTokens: usage.reasoningTokens ?? 0,
+        totalTokens: usage.totalTokens ?? 0,
+        durationMs,
+        costUsd: getBilledAmount(finishedSteps),
+      },
+      toolTranscript: toolbox.transcript,
+    };
+  }
+}
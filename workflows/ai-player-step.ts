@@ -1,17 +1,37 @@
+import { dryRunPlan } from "@/lib/agent-tools";
+import { Content, getContent } from "@/lib/content-packs";
+import { repairJson } from "@/lib/failure-policy";
+import { isTimeoutError } from "@/lib/spend-limits";
+import { formatNotes } from "@/lib/notebook";
+import { formatItemQuantities } from "@/lib/spoilage";
+import { formatStandingOrders } from "@/lib/standing-orders";
 import {
+  createPlayerOutputsSchema,
   HerbId,
   PlayerInputs,
   PlayerOutputs,
-  playerOutputsSchema,
+  LoanRequest,
+  PlanRevision,
   PotionId,
+  StandingOrderRequest,
+  ToolCallRecord,
+  TradeOrder,
 } from "@/lib/types";
-import { generateObject } from "ai";
+import {
+  generateObject,
+  GenerateObjectResult,
+  LanguageModelUsage,
+} from "ai";
 import { UsageData } from "./name-step";
 import {
   buildSystemPrompt,
   formatActionHistory,
+  formatDemandHistory,
+  formatHerbSupply,
   formatHistoricalHerbPrices,
   formatInventory,
+  formatMarketEvents,
+  formatTradeOffers,
   formatYesterdayMarket,
 } from "./prompts";
 
@@ -21,9 +41,21 @@ export type PlayerStepResult = {
   error?: string;
   usage?: UsageData;
   reasoning?: string; // AI's reasoning/thinking process if available
+  toolTranscript?: ToolCallRecord[]; // Tool calls of "tools" mode players
+  planRevisions?: PlanRevision[]; // Plans sent back by the revise loop
+  repairedError?: string; // Error of a malformed response that was repaired
+  timedOut?: boolean; // Aborted at the call timeout
+};
+
+// Optional behaviour of a player's decision
+export type PlayerStepOptions = {
+  maxRevisions?: number; // Revise rounds for plans the dry run rejects
+  repairJson?: boolean; // Salvage malformed JSON (failure policy)
+  timeoutMs?: number; // Abort the whole decision after this long
+  toolCallBudget?: number; // Tool calls in "tools" mode
 };
 
-const EMPTY_OUTPUTS: PlayerOutputs = {
+export const EMPTY_OUTPUTS: PlayerOutputs = {
   buyHerbs: [],
   makePotions: [],
   potionOffers: [],
@@ -33,7 +65,8 @@ export async function aiPlayerStep(
   inputs: PlayerInputs,
   modelId: string,
   isDisqualified: boolean,
-  strategyPrompt?: string
+  strategyPrompt?: string,
+  { maxRevisions = 0, repairJson: repair = false, timeoutMs }: PlayerStepOptions = {}
 ): Promise<PlayerStepResult> {
   "use step";
 
@@ -42,41 +75,17 @@ export async function aiPlayerStep(
     return { outputs: EMPTY_OUTPUTS, success: true };
   }
 
-  // Build system prompt with optional strategy
-  const systemPrompt = buildSystemPrompt(strategyPrompt);
-
-  // Build action history section
-  const historySection = formatActionHistory(inputs.actionHistory, 3);
-
-  const userPrompt = `Day ${inputs.meta.currentDay}/${
-    inputs.meta.totalDays
-  } | ${inputs.meta.playCount} players competing
-${
-  inputs.meta.currentDay === inputs.meta.totalDays
-    ? "\n⚠ FINAL DAY - sell everything! Unsold inventory has no value after the game ends.\n"
-    : ""
-}
-=== YOUR INVENTORY ===
-What you currently own. Use this to decide what to buy, craft, and sell.
-${formatInventory(inputs.inventory)}
-
-=== HERB PRICES ===
-Price history for each herb. Format: past prices → today's price. Use this to spot good deals.
-${formatHistoricalHerbPrices(inputs.actionHistory, inputs.dailyPrices)}
+  // Herbs, potions and recipes of this game
+  const content = getContent(inputs.rules.contentPack);
 
-=== YOUR PAST DECISIONS ===
-Your actions from previous days and their results. Learn from what worked and what didn't.
-${historySection || "Day 1 - no history yet"}
-
-=== YESTERDAY'S MARKET ===
-Trading activity for ALL potions yesterday. Shows total offered by all players, how many sold, and price range of sales.
-${formatYesterdayMarket(inputs.historicMarkets)}
+  // Build system prompt for this game's market, with optional strategy
+  const systemPrompt = buildSystemPrompt(strategyPrompt, inputs.rules);
 
-=== Return JSON Format ===
+  const userPrompt = `${buildDayPrompt(inputs)}=== Return JSON Format ===
 Return JSON with three arrays. ONLY include items you actually want - omit items with qty 0:
-- buyHerbs: [{herbId: "H01", qty: 5}] - only herbs you're buying
-- makePotions: [{potionId: "P01", qty: 2}] - only potions you're crafting
-- potionOffers: [{potionId: "P01", price: 50, qty: 2}] - only potions you're selling
+- buyHerbs: [{herbId: "${content.herbIds[0]}", qty: 5}] - only herbs you're buying
+- makePotions: [{potionId: "${content.potionIds[0]}", qty: 2}] - only potions you're crafting
+- potionOffers: [{potionId: "${content.potionIds[0]}", price: 50, qty: 2}] - only potions you're selling
 
 Use EMPTY ARRAYS [] if you have nothing for that action.
 
@@ -84,21 +93,64 @@ Respond only with JSON.
 `;
 
   const startTime = Date.now();
+  const abortSignal = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
   console.log(userPrompt);
 
+  // Calls that returned, so a failure later on still counts what they used
+  const responses: GenerateObjectResult<PlayerOutputs>[] = [];
+  // Latest plan that came back, and the ones the revise loop sent back
+  let sanitized: PlayerOutputs | undefined;
+  const planRevisions: PlanRevision[] = [];
+
   try {
-    const { object, usage, reasoning, providerMetadata } = await generateObject(
-      {
+    const schema = createPlayerOutputsSchema(content.herbIds, content.potionIds);
+    const first = await generateObject({
+      model: modelId,
+      schema,
+      system: systemPrompt,
+      prompt: userPrompt,
+      mode: "json",
+      abortSignal,
+    });
+    responses.push(first);
+    sanitized = sanitizeAIResponse(first.object, content);
+
+    // Revise loop: give the model its dry-run errors and let it fix the plan.
+    // Trades depend on the other player, so the dry run can't judge those plans
+    while (planRevisions.length < maxRevisions && !sanitized.trades?.length) {
+      const { errors } = dryRunPlan(inputs, sanitized);
+      if (errors.length === 0) break;
+      planRevisions.push({ outputs: sanitized, errors });
+      console.log(
+        `[Step] ${modelId} day ${inputs.meta.currentDay}: revising plan ${JSON.stringify(
+          sanitized
+        )} (${errors.join(" ")})`
+      );
+
+      const revision = await generateObject({
         model: modelId,
-        schema: playerOutputsSchema,
+        schema,
         system: systemPrompt,
-        prompt: userPrompt,
+        messages: [
+          { role: "user", content: userPrompt },
+          { role: "assistant", content: JSON.stringify(sanitized) },
+          { role: "user", content: buildRevisionPrompt(errors) },
+        ],
         mode: "json",
-      }
-    );
+        abortSignal,
+      });
+      responses.push(revision);
+      sanitized = sanitizeAIResponse(revision.object, content);
+      console.log(`[Step] Revised plan: ${JSON.stringify(sanitized)}`);
+    }
+
+    const usage = sumUsage(responses.map((response) => response.usage));
+    const reasoning = responses
+      .map((response) => response.reasoning)
+      .filter(Boolean)
+      .join("\n\n---\n\n");
 
     const durationMs = Date.now() - startTime;
-    const sanitized = sanitizeAIResponse(object);
 
     // AI SDK LanguageModelV2Usage has inputTokens/outputTokens
     const inputTokens = usage?.inputTokens || 0;
@@ -108,13 +160,8 @@ Respond only with JSON.
       ? usage.reasoningTokens
       : totalTokens - inputTokens - outputTokens;
 
-    // Get actual billed cost from gateway if available (comes as string, needs parsing)
-    const billedAmountString = providerMetadata?.gateway?.cost as
-      | string
-      | undefined;
-    const billedAmount = billedAmountString
-      ? parseFloat(billedAmountString)
-      : undefined;
+    // Get actual billed cost from gateway if available
+    const billedAmount = getBilledAmount(responses);
 
     if (billedAmount !== undefined) {
       console.log(`[Step] Billed amount: $${billedAmount.toFixed(6)}`);
@@ -140,6 +187,7 @@ Respond only with JSON.
       outputs: sanitized,
       success: true,
       reasoning: reasoning || undefined,
+      planRevisions: planRevisions.length > 0 ? planRevisions : undefined,
       usage: {
         inputTokens,
         outputTokens,
@@ -159,11 +207,7 @@ Respond only with JSON.
       text?: string;
       finishReason?: string;
       cause?: Error;
-      usage?: {
-        inputTokens?: number;
-        outputTokens?: number;
-        totalTokens?: number;
-      };
+      usage?: LanguageModelUsage;
     };
 
     console.error(`[Step] ✗ ${modelId} FAILED (${durationMs}ms)`);
@@ -178,63 +222,206 @@ Respond only with JSON.
       0,
       100
     )}`;
+    // The failed call's tokens plus every call before it; only calls that
+    // returned carry a billed cost
+    const usage = sumUsage([
+      ...responses.map((response) => response.usage),
+      ...(err.usage ? [err.usage] : []),
+    ]);
+    const failureUsage = {
+      inputTokens: usage.inputTokens || 0,
+      outputTokens: usage.outputTokens || 0,
+      reasoningTokens: usage.reasoningTokens || 0,
+      totalTokens: usage.totalTokens || 0,
+      durationMs,
+      costUsd: getBilledAmount(responses),
+    };
+
+    // Repair pass: salvage a plan from the raw text that failed to parse
+    const repaired = repair && err.text ? repairJson(err.text) : undefined;
+    const parsed = createPlayerOutputsSchema(
+      content.herbIds,
+      content.potionIds
+    ).safeParse(repaired);
+    if (parsed.success) {
+      console.log(`[Step] Repaired malformed response after: ${errorResult}`);
+      return {
+        outputs: sanitizeAIResponse(parsed.data, content),
+        success: true,
+        repairedError: errorResult,
+        planRevisions: planRevisions.length > 0 ? planRevisions : undefined,
+        usage: failureUsage,
+      };
+    }
+
+    // A revision that failed leaves the last plan that came back standing
+    if (sanitized) {
+      console.log(`[Step] Keeping the last plan after: ${errorResult}`);
+      return {
+        outputs: sanitized,
+        success: true,
+        planRevisions,
+        usage: failureUsage,
+      };
+    }
+
     console.log(`[Step] Returning failure result with error: ${errorResult}`);
 
+    const timedOut = isTimeoutError(error);
     return {
       outputs: EMPTY_OUTPUTS,
       success: false,
-      error: errorResult,
-      usage: {
-        inputTokens: err.usage?.inputTokens || 0,
-        outputTokens: err.usage?.outputTokens || 0,
-        reasoningTokens: 0,
-        totalTokens: err.usage?.totalTokens || 0,
-        durationMs,
-      },
+      error: timedOut ? `timeout: no decision within ${timeoutMs}ms` : errorResult,
+      usage: failureUsage,
+      timedOut,
     };
   }
 }
 
+// Follow-up prompt of the revise loop
+export function buildRevisionPrompt(errors: string[]): string {
+  return `Checked against your inventory and today's prices, that plan causes these errors:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Return a corrected plan in the same JSON format. Respond only with JSON.
+`;
+}
+
+// Token usage of several model calls added up
+export function sumUsage(usages: LanguageModelUsage[]): LanguageModelUsage {
+  const add = (key: keyof LanguageModelUsage) =>
+    usages.some((usage) => usage[key] !== undefined)
+      ? usages.reduce((sum, usage) => sum + (usage[key] ?? 0), 0)
+      : undefined;
+  return {
+    inputTokens: add("inputTokens"),
+    outputTokens: add("outputTokens"),
+    totalTokens: add("totalTokens"),
+    reasoningTokens: add("reasoningTokens"),
+    cachedInputTokens: add("cachedInputTokens"),
+  };
+}
+
+// Gateway cost of several model calls together (each comes as a string)
+export function getBilledAmount(
+  responses: { providerMetadata?: Record<string, Record<string, unknown>> }[]
+): number | undefined {
+  const costs = responses
+    .map(
+      (response) =>
+        response.providerMetadata?.gateway?.cost as string | undefined
+    )
+    .filter((cost): cost is string => cost !== undefined);
+  return costs.length > 0
+    ? costs.reduce((sum, cost) => sum + parseFloat(cost), 0)
+    : undefined;
+}
+
+// Everything a player is told about the day, ahead of how to answer
+export function buildDayPrompt(inputs: PlayerInputs): string {
+  // Build action history section
+  const historySection = formatActionHistory(inputs.actionHistory, 3);
+
+  return `Day ${inputs.meta.currentDay}/${
+    inputs.meta.totalDays
+  } | ${inputs.meta.playCount} players competing
+${
+  inputs.meta.currentDay === inputs.meta.totalDays
+    ? inputs.rules.finalScoring === "net-worth"
+      ? "\n⚠ FINAL DAY - leftover stock only counts at liquidation prices, well below market.\n"
+      : "\n⚠ FINAL DAY - sell everything! Unsold inventory has no value after the game ends.\n"
+    : ""
+}
+=== YOUR INVENTORY ===
+What you currently own. Use this to decide what to buy, craft, and sell.
+${formatInventory(inputs.inventory)}${
+  inputs.expiringTonight && formatItemQuantities(inputs.expiringTonight)
+    ? `\n⚠ Spoils tonight unless used or sold: ${formatItemQuantities(
+        inputs.expiringTonight
+      )}`
+    : ""
+}
+
+=== HERB PRICES ===
+Price history for each herb. Format: past prices → today's price. Use this to spot good deals.
+${formatHistoricalHerbPrices(inputs.actionHistory, inputs.dailyPrices)}
+${
+  inputs.dailySupplies
+    ? `
+=== HERB SUPPLY ===
+Units of each herb for sale today, shared by ALL players.
+${formatHerbSupply(inputs.dailySupplies, inputs.rules?.herbPriceImpact)}
+`
+    : ""
+}${
+  inputs.activeEvents
+    ? `
+=== MARKET EVENTS ===
+Random events change herb prices and potion demand while they last. Today's prices and demand already include them.
+${formatMarketEvents(inputs.activeEvents, inputs.upcomingEvents)}
+`
+    : ""
+}${
+  inputs.tradePartners
+    ? `
+=== TRADING ===
+Private trades with other players are settled before herbs are bought.
+${formatTradeOffers(inputs.tradePartners, inputs.tradeOffersToYou ?? [])}
+`
+    : ""
+}${
+  inputs.openOrders
+    ? `
+=== STANDING ORDERS ===
+Your open orders (ids for cancelOrders). Potions of sell orders are not in your inventory.
+${formatStandingOrders(inputs.openOrders)}
+`
+    : ""
+}${
+  inputs.notes !== undefined
+    ? `
+=== YOUR NOTEBOOK ===
+What you wrote for yourself on earlier days. Write new notes to replace it.
+${formatNotes(inputs.notes)}
+`
+    : ""
+}
+=== YOUR PAST DECISIONS ===
+Your actions from previous days and their results. Learn from what worked and what didn't.
+${historySection || "Day 1 - no history yet"}
+
+=== YESTERDAY'S MARKET ===
+Trading activity for ALL potions yesterday. Shows total offered by all players, how many sold, and price range of sales.
+${formatYesterdayMarket(inputs.historicMarkets)}
+${
+  inputs.rules?.dynamicDemand
+    ? `
+=== DEMAND HISTORY ===
+Buyers per potion on each previous day (oldest first). Demand reacts to how each potion was supplied.
+${formatDemandHistory(inputs.historicDemands)}
+`
+    : ""
+}
+`;
+}
+
 // Pre-validate AI response to catch obvious mistakes
-function sanitizeAIResponse(response: {
-  buyHerbs: { herbId: string; qty: number }[];
-  makePotions: { potionId: string; qty: number }[];
-  potionOffers: { potionId: string; price: number; qty: number }[];
-}): PlayerOutputs {
-  const validHerbIds = new Set([
-    "H01",
-    "H02",
-    "H03",
-    "H04",
-    "H05",
-    "H06",
-    "H07",
-    "H08",
-    "H09",
-    "H10",
-    "H11",
-    "H12",
-  ]);
-  const validPotionIds = new Set([
-    "P01",
-    "P02",
-    "P03",
-    "P04",
-    "P05",
-    "P06",
-    "P07",
-    "P08",
-    "P09",
-    "P10",
-    "P11",
-    "P12",
-    "P13",
-    "P14",
-    "P15",
-    "P16",
-    "P17",
-    "P18",
-  ]);
+export function sanitizeAIResponse(
+  response: {
+    buyHerbs: { herbId: string; qty: number }[];
+    makePotions: { potionId: string; qty: number }[];
+    potionOffers: { potionId: string; price: number; qty: number }[];
+    trades?: TradeOrder[];
+    loan?: LoanRequest;
+    standingOrders?: StandingOrderRequest[];
+    cancelOrders?: string[];
+    sellHerbs?: { herbId: string; qty: number }[];
+    notes?: string;
+  },
+  content: Content
+): PlayerOutputs {
+  const validHerbIds = new Set(content.herbIds);
+  const validPotionIds = new Set(content.potionIds);
 
   const buyHerbs = (response.buyHerbs || [])
     .filter((h) => validHerbIds.has(h.herbId) && h.qty > 0)
@@ -258,5 +445,58 @@ function sanitizeAIResponse(response: {
       qty: Math.max(0, Math.floor(p.qty)),
     }));
 
-  return { buyHerbs, makePotions, potionOffers };
+  const trades = response.trades
+    ?.filter(
+      (t) =>
+        (validHerbIds.has(t.itemId) || validPotionIds.has(t.itemId)) &&
+        t.qty > 0
+    )
+    .map((t) => ({
+      side: t.side,
+      playerIdx: Math.floor(t.playerIdx),
+      itemId: t.itemId,
+      qty: Math.floor(t.qty),
+      price: Math.max(0, Math.floor(t.price)),
+    }));
+
+  const loan = response.loan && {
+    borrow: Math.max(0, Math.floor(response.loan.borrow ?? 0)),
+    repay: Math.max(0, Math.floor(response.loan.repay ?? 0)),
+  };
+
+  const sellHerbs = response.sellHerbs
+    ?.filter((h) => validHerbIds.has(h.herbId) && h.qty > 0)
+    .map((h) => ({
+      herbId: h.herbId as HerbId,
+      qty: Math.floor(h.qty),
+    }));
+
+  const standingOrders = response.standingOrders
+    ?.filter((o) =>
+      o.type === "buy-herb"
+        ? validHerbIds.has(o.herbId)
+        : validPotionIds.has(o.potionId)
+    )
+    .map((o) => ({
+      ...o,
+      qty: Math.floor(o.qty),
+      days: Math.floor(o.days),
+    }))
+    .filter((o) => o.qty > 0 && o.days > 0);
+
+  return {
+    buyHerbs,
+    makePotions,
+    potionOffers,
+    ...(trades && trades.length > 0 && { trades }),
+    ...(loan && (loan.borrow > 0 || loan.repay > 0) && { loan }),
+    ...(standingOrders &&
+      standingOrders.length > 0 && { standingOrders }),
+    ...(sellHerbs && sellHerbs.length > 0 && { sellHerbs }),
+    ...(typeof response.notes === "string" && { notes: response.notes }),
+    ...(response.cancelOrders &&
+      response.cancelOrders.length > 0 && {
+        cancelOrders: response.cancelOrders,
+      }),
+  };
 }
@@ -1,18 +1,34 @@
+import { getBot, getPlayerAgentType } from "@/lib/agents";
+import { getContent } from "@/lib/content-packs";
 import {
   getPlayerInputs,
   initializeGameState,
   processGameDay,
   setupGame,
 } from "@/lib/game-engine";
+import {
+  getBackoffMs,
+  getStrikeOutcome,
+  HOLD_OUTPUTS,
+  NO_FAILURE_POLICY,
+} from "@/lib/failure-policy";
+import { saveGameResult } from "@/lib/game-results";
 import { AI_MODELS } from "@/lib/models";
+import { getBudgetBreach } from "@/lib/spend-limits";
 import {
+  BudgetStop,
+  FailurePolicy,
   GameConfig,
   GameState,
   Player,
+  PlayerFailure,
+  PlayerInputs,
   PlayerOutputs,
   PlayerUsageStats,
+  SpendLimits,
 } from "@/lib/types";
-import { createHook, getWritable } from "workflow";
+import { createHook, getWorkflowMetadata, getWritable, sleep } from "workflow";
+import { aiAgentStep } from "./ai-agent-step";
 import { aiPlayerStep, PlayerStepResult } from "./ai-player-step";
 import { chooseAlchemistName, NameResult, UsageData } from "./name-step";
 
@@ -61,7 +77,8 @@ function getCost(modelId: string, usage: UsageData | undefined): number {
 function addUsage(
   stats: PlayerUsageStats,
   usage: UsageData | undefined,
-  costUsd: number
+  costUsd: number,
+  failed = false
 ): PlayerUsageStats {
   if (!usage) return stats;
   return {
@@ -72,7 +89,92 @@ function addUsage(
     costUsd: stats.costUsd + costUsd,
     totalTimeMs: stats.totalTimeMs + usage.durationMs,
     callCount: stats.callCount + 1,
+    failedCalls: (stats.failedCalls ?? 0) + (failed ? 1 : 0),
+  };
+}
+
+/**
+ * Ask an LLM player for the day's plan under the failure policy: retries
+ * with backoff, then one try of the fallback model. A timed-out decision is
+ * not retried when timeouts hold, and no retry starts once the attempts so
+ * far used up the budget (`stats` is everyone's spend before today). Returns
+ * every attempt (for usage) and the failures recovered along the way.
+ */
+async function runLlmPlayer(
+  player: Player,
+  inputs: PlayerInputs,
+  policy: FailurePolicy,
+  limits: SpendLimits | undefined,
+  stats: PlayerUsageStats[],
+  day: number,
+  playerIdx: number
+): Promise<{
+  result: PlayerStepResult;
+  attempts: { model: string; result: PlayerStepResult }[];
+  failures: PlayerFailure[];
+}> {
+  const attempts: { model: string; result: PlayerStepResult }[] = [];
+  const failures: PlayerFailure[] = [];
+  const failure = (
+    model: string,
+    error: string | undefined,
+    recovery: PlayerFailure["recovery"]
+  ) =>
+    failures.push({
+      day,
+      playerIdx,
+      model,
+      error: error || "Unknown error",
+      recovery,
+    });
+
+  const options = {
+    maxRevisions: player.maxRevisions,
+    repairJson: policy.repairJson,
+    timeoutMs: limits?.callTimeoutMs,
+    toolCallBudget: player.toolCallBudget,
+  };
+  const ask = async (model: string) => {
+    const result =
+      player.llmMode === "tools"
+        ? await aiAgentStep(inputs, model, false, player.strategyPrompt, options)
+        : await aiPlayerStep(inputs, model, false, player.strategyPrompt, options);
+    attempts.push({ model, result });
+    if (result.repairedError) failure(model, result.repairedError, "repaired");
+    return result;
+  };
+
+  const holdsOnTimeout = (result: PlayerStepResult) =>
+    !!result.timedOut && limits?.onTimeout === "hold";
+
+  // Whether today's attempts spent the player's (or the game's) budget
+  const overBudget = () => {
+    if (!limits) return false;
+    const spent = attempts.reduce(
+      (sum, { model, result }) => sum + getCost(model, result.usage),
+      0
+    );
+    const withToday = stats.map((s, idx) =>
+      idx === playerIdx ? { ...s, costUsd: s.costUsd + spent } : s
+    );
+    return getBudgetBreach(withToday, playerIdx, limits) !== undefined;
   };
+
+  let result = await ask(player.model);
+  if (holdsOnTimeout(result)) return { result, attempts, failures };
+  for (let retry = 0; !result.success && retry < policy.retries; retry++) {
+    if (overBudget()) return { result, attempts, failures };
+    failure(player.model, result.error, "retry");
+    const backoffMs = getBackoffMs(policy, retry);
+    if (backoffMs > 0) await sleep(backoffMs);
+    result = await ask(player.model);
+    if (holdsOnTimeout(result)) return { result, attempts, failures };
+  }
+  if (!result.success && policy.fallbackModel && !overBudget()) {
+    failure(player.model, result.error, "fallback");
+    result = await ask(policy.fallbackModel);
+  }
+  return { result, attempts, failures };
 }
 
 export async function gameWorkflow(config: GameConfig) {
@@ -92,21 +194,77 @@ export async function gameWorkflow(config: GameConfig) {
     })
   );
 
-  // Step 1: Each AI chooses their alchemist name (human players keep their name)
+  // Step 1: Each AI chooses their alchemist name (human and bot players keep their name)
   console.log(
     `[Game] Choosing names for ${config.runtime.players.length} players...`
   );
 
-  // Track disqualified players
+  // Track disqualified players, failed calls and strikes (failed days)
   const disqualified: { playerIdx: number; reason: string }[] = [];
+  const failures: PlayerFailure[] = [];
+  const policy = config.runtime.failurePolicy ?? NO_FAILURE_POLICY;
+  const strikes = config.runtime.players.map(() => 0);
+
+  // A call that failed for good is a strike: hold, or disqualify when out of
+  // strikes. Players already disqualified (e.g. over budget) take no strike.
+  const strike = (
+    playerIdx: number,
+    day: number,
+    model: string,
+    reason: string
+  ) => {
+    if (disqualified.some((d) => d.playerIdx === playerIdx)) {
+      return "disqualified";
+    }
+    strikes[playerIdx]++;
+    const recovery = getStrikeOutcome(policy, strikes[playerIdx]);
+    failures.push({ day, playerIdx, model, error: reason, recovery });
+    if (recovery === "disqualified") {
+      console.log(`[Game] ⚠ Disqualifying player ${playerIdx}: ${reason}`);
+      disqualified.push({ playerIdx, reason });
+    } else {
+      console.log(
+        `[Game] ⚠ Player ${playerIdx} holds (strike ${strikes[playerIdx]}/${policy.maxStrikes}): ${reason}`
+      );
+    }
+    return recovery;
+  };
+
+  // Spend limits: checked after every priced call, stopping players for the
+  // rest of the game once their (or the game's) budget is spent
+  const limits = config.runtime.spendLimits;
+  const budgetStops: BudgetStop[] = [];
+  const checkBudgets = (day: number) => {
+    if (!limits) return;
+    config.runtime.players.forEach((player, playerIdx) => {
+      if (getPlayerAgentType(player) !== "llm") return;
+      const stopped =
+        budgetStops.some((stop) => stop.playerIdx === playerIdx) ||
+        disqualified.some((d) => d.playerIdx === playerIdx);
+      if (stopped) return;
+      const reason = getBudgetBreach(playerUsageStats, playerIdx, limits);
+      if (!reason) return;
+      console.log(
+        `[Game] ⚠ Player ${playerIdx} over budget (${limits.overBudget}): ${reason}`
+      );
+      budgetStops.push({ day, playerIdx, reason, outcome: limits.overBudget });
+      if (limits.overBudget === "disqualified") {
+        disqualified.push({ playerIdx, reason });
+      }
+    });
+  };
 
   // Only request names from AI players
   const nameResults = await Promise.all(
     config.runtime.players.map(async (player) => {
-      if (player.isHuman) {
-        // Human player keeps their configured name (or default)
+      const agentType = getPlayerAgentType(player);
+      if (agentType !== "llm") {
+        // Human and bot players keep their configured name (or default)
         return {
-          name: player.name || "You",
+          name:
+            player.name ||
+            (agentType === "bot" ? getBot(player.botId)?.name : "You") ||
+            "Bot",
           success: true,
           usage: {
             inputTokens: 0,
@@ -125,19 +283,22 @@ export async function gameWorkflow(config: GameConfig) {
     const result = nameResults[idx];
 
     // Only accumulate usage for AI players
-    if (!player.isHuman) {
+    if (getPlayerAgentType(player) === "llm") {
       const cost = getCost(player.model, result.usage);
       playerUsageStats[idx] = addUsage(
         playerUsageStats[idx],
         result.usage,
-        cost
+        cost,
+        !result.success
       );
+      checkBudgets(0);
 
       if (!result.success) {
-        disqualified.push({
-          playerIdx: idx,
-          reason: result.error || "Name generation failed",
-        });
+        const reason = result.error || "Name generation failed";
+        // A player who holds on without a chosen name keeps a plain one
+        if (strike(idx, 0, player.model, reason) === "hold") {
+          return { ...player, name: player.name || `Alchemist ${idx + 1}` };
+        }
       }
     }
     return { ...player, name: result.name };
@@ -154,13 +315,18 @@ export async function gameWorkflow(config: GameConfig) {
   };
 
   const game = setupGame(updatedConfig.generation);
-  let gameState = initializeGameState(updatedConfig.runtime);
+  let gameState = initializeGameState(
+    updatedConfig.runtime,
+    updatedConfig.generation.contentPack
+  );
 
   // Include player names, disqualification status, and usage stats in initial state
   gameState = {
     ...gameState,
     playerNames: namedPlayers.map((p) => p.name),
     disqualifiedPlayers: disqualified,
+    playerFailures: [...failures],
+    budgetStops: [...budgetStops],
     playerUsageStats: [...playerUsageStats],
   };
   console.log(
@@ -176,6 +342,7 @@ export async function gameWorkflow(config: GameConfig) {
   for (let day = 1; day <= updatedConfig.generation.days; day++) {
     console.log(`Starting day ${day} of ${updatedConfig.generation.days}`);
     const disqualifiedIdxs = new Set(disqualified.map((d) => d.playerIdx));
+    const overBudgetIdxs = new Set(budgetStops.map((stop) => stop.playerIdx));
 
     // Prepare inputs for all players
     const playerInputs = updatedConfig.runtime.players.map((_, idx) =>
@@ -184,7 +351,8 @@ export async function gameWorkflow(config: GameConfig) {
 
     // Check if there's a human player that needs input
     const humanPlayerIdx = updatedConfig.runtime.players.findIndex(
-      (p, idx) => p.isHuman && !disqualifiedIdxs.has(idx)
+      (p, idx) =>
+        getPlayerAgentType(p) === "human" && !disqualifiedIdxs.has(idx)
     );
 
     // Start AI players IMMEDIATELY (in parallel with human input)
@@ -196,11 +364,14 @@ export async function gameWorkflow(config: GameConfig) {
       idx: number;
       outputs: PlayerOutputs;
       result: PlayerStepResult | null;
+      attempts?: { model: string; result: PlayerStepResult }[];
+      failures?: PlayerFailure[];
     }>[] = updatedConfig.runtime.players.map(async (player, idx) => {
       const isDisqualified = disqualifiedIdxs.has(idx);
+      const agentType = getPlayerAgentType(player);
 
       // Human player - will be handled separately
-      if (player.isHuman) {
+      if (agentType === "human") {
         // Return placeholder - will be replaced with actual human output
         return { idx, outputs: null as unknown as PlayerOutputs, result: null };
       }
@@ -218,14 +389,41 @@ export async function gameWorkflow(config: GameConfig) {
         };
       }
 
+      // Over-budget player - holds without calling the model
+      if (overBudgetIdxs.has(idx)) {
+        return { idx, outputs: HOLD_OUTPUTS, result: null };
+      }
+
+      // Bot player - deterministic and pure, so it runs inline without a step
+      if (agentType === "bot") {
+        const bot = getBot(player.botId);
+        return {
+          idx,
+          outputs: bot
+            ? bot.decide(playerInputs[idx])
+            : { buyHerbs: [], makePotions: [], potionOffers: [] },
+          result: null,
+        };
+      }
+
       // AI player - run in parallel with others AND with human input
-      const result = await aiPlayerStep(
+      const { result, attempts, failures } = await runLlmPlayer(
+        player,
         playerInputs[idx],
-        player.model,
-        false,
-        player.strategyPrompt
+        policy,
+        limits,
+        playerUsageStats,
+        day,
+        idx
       );
-      return { idx, outputs: result.outputs, result };
+      return {
+        idx,
+        // A day that failed for good holds (or ends in disqualification)
+        outputs: result.success ? result.outputs : HOLD_OUTPUTS,
+        result,
+        attempts,
+        failures,
+      };
     });
 
     // If there's a human player, wait for their input
@@ -242,13 +440,20 @@ export async function gameWorkflow(config: GameConfig) {
       humanStartTime = await getTimestamp();
 
       // Create hook FIRST before streaming (so it exists when client tries to resume)
-      const hook = createHook<PlayerOutputs>({ token: hookToken });
+      // The pack's ids ride along so the submit route can validate against them
+      const { herbIds, potionIds } = getContent(playerInput.rules.contentPack);
+      const hook = createHook<PlayerOutputs>({
+        token: hookToken,
+        metadata: { herbIds, potionIds },
+      });
 
       // Stream state with waiting info so UI can show input form
       const waitingState: GameState = {
         ...gameState,
         currentDay: day,
         disqualifiedPlayers: disqualified,
+        playerFailures: [...failures],
+        budgetStops: [...budgetStops],
         playerUsageStats: [...playerUsageStats],
         waitingForHuman: {
           playerIdx: humanPlayerIdx,
@@ -271,6 +476,8 @@ export async function gameWorkflow(config: GameConfig) {
         ...gameState,
         currentDay: day,
         disqualifiedPlayers: disqualified,
+        playerFailures: [...failures],
+        budgetStops: [...budgetStops],
         playerUsageStats: [...playerUsageStats],
         waitingForHuman: {
           ...waitingState.waitingForHuman!,
@@ -319,21 +526,30 @@ export async function gameWorkflow(config: GameConfig) {
     // Process results and collect outputs in order
     const playerOutputs: PlayerOutputs[] = [];
     const playerReasonings: (string | undefined)[] = [];
-    for (const { idx, outputs, result } of results.sort(
-      (a, b) => a.idx - b.idx
-    )) {
+    const playerToolTranscripts: PlayerStepResult["toolTranscript"][] = [];
+    const playerPlanRevisions: PlayerStepResult["planRevisions"][] = [];
+    for (const {
+      idx,
+      outputs,
+      result,
+      attempts,
+      failures: recovered,
+    } of results.sort((a, b) => a.idx - b.idx)) {
       const player = updatedConfig.runtime.players[idx];
 
       // Handle AI result (usage tracking, disqualification)
       if (result) {
-        if (result.usage) {
-          const cost = getCost(player.model, result.usage);
+        // Every attempt counts, priced at the model that made it
+        for (const attempt of attempts ?? []) {
           playerUsageStats[idx] = addUsage(
             playerUsageStats[idx],
-            result.usage,
-            cost
+            attempt.result.usage,
+            getCost(attempt.model, attempt.result.usage),
+            !attempt.result.success || !!attempt.result.repairedError
           );
+          checkBudgets(day);
         }
+        failures.push(...(recovered ?? []));
 
         console.log(
           `[Game] Player ${idx} (${player.model.split("/").pop()}): success=${
@@ -343,15 +559,26 @@ export async function gameWorkflow(config: GameConfig) {
           }ms`
         );
 
-        if (!result.success) {
-          const reason = result.error || "Unknown error";
-          console.log(`[Game] ⚠ Disqualifying player ${idx}: ${reason}`);
-          disqualified.push({ playerIdx: idx, reason });
+        if (result.timedOut && limits?.onTimeout === "hold") {
+          // Timeouts that hold are no strike: the player sits the day out
+          failures.push({
+            day,
+            playerIdx: idx,
+            model: player.model,
+            error: result.error || "timeout",
+            recovery: "hold",
+          });
+        } else if (!result.success) {
+          strike(idx, day, player.model, result.error || "Unknown error");
         }
 
         playerReasonings.push(result.reasoning);
+        playerToolTranscripts.push(result.toolTranscript);
+        playerPlanRevisions.push(result.planRevisions);
       } else {
         playerReasonings.push(undefined);
+        playerToolTranscripts.push(undefined);
+        playerPlanRevisions.push(undefined);
       }
 
       playerOutputs.push(outputs);
@@ -361,13 +588,17 @@ export async function gameWorkflow(config: GameConfig) {
       playerOutputs,
       gameState,
       game,
-      playerReasonings
+      playerReasonings,
+      playerToolTranscripts,
+      playerPlanRevisions
     );
 
     // Update game state with latest disqualification and usage stats (clear waiting state)
     gameState = {
       ...gameState,
       disqualifiedPlayers: disqualified,
+      playerFailures: [...failures],
+      budgetStops: [...budgetStops],
       playerUsageStats: [...playerUsageStats],
       waitingForHuman: undefined,
     };
@@ -386,10 +617,15 @@ export async function gameWorkflow(config: GameConfig) {
     console.log(
       `[Game]   Time: ${stats.totalTimeMs}ms (${
         stats.callCount
-      } calls, avg ${Math.round(stats.totalTimeMs / stats.callCount)}ms)`
+      } calls, avg ${Math.round(
+        stats.totalTimeMs / Math.max(1, stats.callCount)
+      )}ms)`
     );
   });
 
+  // Persist the result before closing so it is readable once clients see completion
+  await persistGameResult(config, gameState);
+
   // Close the stream to signal completion to clients
   await closeStream(writable);
 
@@ -402,6 +638,23 @@ async function closeStream(writable: WritableStream) {
   await writer.close();
 }
 
+// Store the final state by runId. A storage outage must not fail a finished
+// game, so errors are logged rather than thrown.
+export async function persistGameResult(config: GameConfig, finalState: GameState) {
+  "use step";
+  const { workflowRunId } = getWorkflowMetadata();
+  try {
+    await saveGameResult({
+      runId: workflowRunId,
+      config,
+      finalState,
+      completedAt: Date.now(),
+    });
+  } catch (error) {
+    console.error(`[Game] Failed to persist result for ${workflowRunId}:`, error);
+  }
+}
+
 async function streamContentToClient(
   writable: WritableStream,
   gameState: GameState
@@ -1,64 +1,214 @@
+import { Content, formatRecipe, getContent } from "@/lib/content-packs";
+import { describeCredit } from "@/lib/credit";
+import { describeDemandCurve } from "@/lib/demand-curves";
+import { describeDynamicDemand } from "@/lib/dynamic-demand";
+import { describeFees, formatFees } from "@/lib/fees";
+import { describeMarketEvent } from "@/lib/market-events";
+import { describeNotebook } from "@/lib/notebook";
+import { describeFinalScoring, describeHerbSellBack } from "@/lib/scoring";
+import { describeSpoilage, formatItemQuantities } from "@/lib/spoilage";
+import { describeStandingOrders } from "@/lib/standing-orders";
+import { describeTimeSeriesModel } from "@/lib/time-series";
+import { describePlayerTrading, formatTrades } from "@/lib/trading";
 import {
+  DEFAULT_MARKET_MECHANISM,
+  MARKET_MECHANISMS,
+} from "@/lib/market-mechanisms";
+import {
+  GameRules,
   HerbId,
+  MarketEvent,
   PlayerDayHistory,
   PlayerInventory,
-  POTION_NAMES,
-  POTION_TIER_LOOKUP,
   PotionId,
   PotionMarketData,
-  RECIPES,
+  TradeOrder,
 } from "@/lib/types";
 
-const BASE_SYSTEM_PROMPT = `You are an AI playing "The Alchemist", a potion trading game. Goal: end with the most gold.
+const DEFAULT_RULES: GameRules = { marketMechanism: DEFAULT_MARKET_MECHANISM };
+
+// Ids for the JSON examples, taken from the game's content pack
+function exampleIds(rules: GameRules): { herbId: HerbId; potionId: PotionId } {
+  const { herbIds, potionIds } = getContent(rules.contentPack);
+  return { herbId: herbIds[0], potionId: potionIds[0] };
+}
+
+// Whether any recipe differs from the classic "1 + 1 herb → 1 potion"
+function hasVariableRecipes(content: Content): boolean {
+  return Object.values(content.recipes).some(
+    (recipe) =>
+      recipe.ingredients.length !== 2 ||
+      recipe.ingredients.some(({ qty }) => qty !== 1) ||
+      recipe.yield !== 1 ||
+      recipe.failureChance > 0
+  );
+}
+
+function formatRecipes(content: Content): string {
+  const list = content.pack.potions
+    .map(
+      ({ id, tier }) =>
+        `${id} (T${tier.charAt(1)}): ${formatRecipe(content.recipes[id])}`
+    )
+    .join("\n");
+  if (!hasVariableRecipes(content)) {
+    return `## RECIPES (Potion = Herb1 + Herb2)\n${list}`;
+  }
+  return `## RECIPES
+Each makePotions qty is one craft: it uses the listed herbs ("2×H01" = 2 units) and makes 1 potion, or the stated number. A failed craft still uses its herbs but makes nothing. The price cap counts the base herb cost of one potion (a craft's herbs divided by its yield).
+${list}`;
+}
+
+const buildBaseSystemPrompt = (rules: GameRules) => `You are an AI playing "The Alchemist", a potion trading game. Goal: end with the most gold.
 
 ## GAME FLOW (each day)
 1. BUY HERBS - spend gold on herbs at today's prices
-2. CRAFT POTIONS - combine 2 herbs into 1 potion (consumes herbs)
+2. CRAFT POTIONS - ${
+  hasVariableRecipes(getContent(rules.contentPack))
+    ? "combine herbs into potions by recipe"
+    : "combine 2 herbs into 1 potion"
+} (consumes herbs)
 3. SELL POTIONS - list potions at your price
 
 Buy, craft and sell happen on the same day in that order.
 
-Market: All player offers are sorted by price (lowest first). Demand buys from cheapest offers until demand is exhausted. Unsold potions return to your inventory.
+Market (${MARKET_MECHANISMS[rules.marketMechanism].name}): ${
+  MARKET_MECHANISMS[rules.marketMechanism].description
+} Unsold potions return to your inventory.
 
+## DEMAND
+${describeDemandCurve(rules.demandCurve)}${
+  rules.dynamicDemand ? `\n${describeDynamicDemand(rules.dynamicDemand)}` : ""
+}
+${
+  rules.spoilage
+    ? `
+## SPOILAGE & STORAGE
+${describeSpoilage(rules.spoilage)}
+`
+    : ""
+}${
+  rules.herbPriceModel || rules.potionDemandModel
+    ? `
+## MARKET TRENDS
+${[
+  rules.herbPriceModel &&
+    describeTimeSeriesModel(rules.herbPriceModel, "Herb prices"),
+  rules.potionDemandModel &&
+    describeTimeSeriesModel(rules.potionDemandModel, "Potion demands"),
+]
+  .filter(Boolean)
+  .join("\n")}
+Use the price history to anticipate where prices are heading.
+`
+    : ""
+}${
+  rules.playerTrading
+    ? `
+## PLAYER TRADING
+${describePlayerTrading()}
+Add optional trade orders to your JSON: trades: [{side: "sell", playerIdx: 1, itemId: "${
+        exampleIds(rules).herbId
+      }", qty: 3, price: 12}] - side is "sell" or "buy", playerIdx is the other player, price is gold per unit.
+`
+    : ""
+}${
+  rules.credit
+    ? `
+## CREDIT
+${describeCredit(rules.credit)}
+Add an optional loan to your JSON: loan: {borrow: 200, repay: 0} - gold to borrow this morning and to repay this evening.
+`
+    : ""
+}${
+  rules.standingOrders
+    ? `
+## STANDING ORDERS
+${describeStandingOrders()}
+Add optional orders to your JSON: standingOrders: [{type: "buy-herb", herbId: "${
+        exampleIds(rules).herbId
+      }", maxPrice: 45, qty: 10, days: 5}, {type: "sell-potion", potionId: "${
+        exampleIds(rules).potionId
+      }", price: 80, qty: 3, days: 3}] - days counts today. Cancel open orders by id: cancelOrders: ["o3-0-1"].
+`
+    : ""
+}${
+  rules.herbSellBack
+    ? `
+## SELLING HERBS BACK
+${describeHerbSellBack(rules.herbSellBack)}
+Add optional sales to your JSON: sellHerbs: [{herbId: "${
+        exampleIds(rules).herbId
+      }", qty: 3}].
+`
+    : ""
+}${
+  rules.fees
+    ? `
+## MARKET FEES
+${describeFees(rules.fees)}
+Only list potions you expect to sell.
+`
+    : ""
+}${
+  rules.notebook
+    ? `
+## NOTEBOOK
+${describeNotebook(rules.notebook)}
+Add optional notes to your JSON to plan ahead: notes: "Buying ${
+        exampleIds(rules).herbId
+      } while cheap, selling ${exampleIds(rules).potionId} on day 4".
+`
+    : ""
+}${
+  rules.finalScoring === "net-worth"
+    ? `
+## SCORING
+${describeFinalScoring(rules.finalScoring)}
+`
+    : ""
+}
 ## PRICE CAP
 The maximum price buyers will pay is 5x the BASE herb cost (not today's fluctuating price).
 If you list a potion higher than this cap, it will automatically be sold at the capped price.
 Example: If herbs cost 10g base each, max potion price = (10+10) × 5 = 100g
 
-## RECIPES (Potion = Herb1 + Herb2)
-${Object.entries(RECIPES)
-  .map(([potionId, herbs]) => {
-    const tier = POTION_TIER_LOOKUP[potionId as PotionId];
-    return `${potionId} (T${tier.charAt(1)}): ${herbs[0]} + ${herbs[1]}`;
-  })
-  .join("\n")}
+${formatRecipes(getContent(rules.contentPack))}
 
 ## RULES
 1. Cannot spend more gold than you have
-2. Cannot craft without BOTH herbs in inventory
+2. Cannot craft without ${
+  hasVariableRecipes(getContent(rules.contentPack))
+    ? "ALL of a recipe's herbs"
+    : "BOTH herbs"
+} in inventory
 3. Cannot sell potions you don't have
 4. Actions execute in order: buy → craft → sell
 5. Prices above 5x base herb cost are capped (you still sell, but at capped price)
 
 ## OUTPUT FORMAT
 Return JSON with three arrays. ONLY include items you actually want - omit items with qty 0:
-- buyHerbs: [{herbId: "H01", qty: 5}] - only herbs you're buying
-- makePotions: [{potionId: "P01", qty: 2}] - only potions you're crafting
-- potionOffers: [{potionId: "P01", price: 50, qty: 2}] - only potions you're selling
+- buyHerbs: [{herbId: "${exampleIds(rules).herbId}", qty: 5}] - only herbs you're buying
+- makePotions: [{potionId: "${exampleIds(rules).potionId}", qty: 2}] - only potions you're crafting
+- potionOffers: [{potionId: "${exampleIds(rules).potionId}", price: 50, qty: 2}] - only potions you're selling
 
 Use EMPTY ARRAYS [] if you have nothing for that action.
 `;
 
 const MAX_STRATEGY_LENGTH = 2500;
 
-// Build system prompt with optional strategy
-export function buildSystemPrompt(strategyPrompt?: string): string {
+// Build system prompt for this game's rules, with optional strategy
+export function buildSystemPrompt(
+  strategyPrompt?: string,
+  rules: GameRules = DEFAULT_RULES
+): string {
+  const basePrompt = buildBaseSystemPrompt(rules);
   if (!strategyPrompt) {
-    return BASE_SYSTEM_PROMPT;
+    return basePrompt;
   }
   // Enforce max length as safety measure
   const truncatedStrategy = strategyPrompt.slice(0, MAX_STRATEGY_LENGTH);
-  return `${BASE_SYSTEM_PROMPT}
+  return `${basePrompt}
 ## YOUR STRATEGY
 Follow this trading strategy:
 ${truncatedStrategy}
@@ -66,7 +216,7 @@ ${truncatedStrategy}
 }
 
 // Default export for backwards compatibility
-export const PLAYER_SYSTEM_PROMPT = BASE_SYSTEM_PROMPT;
+export const PLAYER_SYSTEM_PROMPT = buildBaseSystemPrompt(DEFAULT_RULES);
 
 export function formatInventory(inventory: PlayerInventory): string {
   const herbs = Object.entries(inventory.herbs)
@@ -79,9 +229,9 @@ export function formatInventory(inventory: PlayerInventory): string {
     .map(([id, qty]) => `${id}:${qty}`)
     .join(", ");
 
-  return `Gold: ${inventory.gold}g | Herbs: ${herbs || "none"} | Potions: ${
-    potions || "none"
-  }`;
+  return `Gold: ${inventory.gold}g${
+    inventory.debt ? ` | Debt: ${inventory.debt}g` : ""
+  } | Herbs: ${herbs || "none"} | Potions: ${potions || "none"}`;
 }
 
 // Format herb prices as a simple list
@@ -111,10 +261,38 @@ function formatDayActions(day: PlayerDayHistory): string {
     lines.push(`  BOUGHT: ${herbsStr} (spent ${totalCost}g)`);
   }
 
+  // Herbs sold back
+  if (day.herbSales && day.herbSales.length > 0) {
+    const revenue = day.herbSales.reduce((s, h) => s + h.revenue, 0);
+    const herbsStr = day.herbSales
+      .map((h) => `${h.herbId}:${h.qty}`)
+      .join(", ");
+    lines.push(`  SOLD BACK: ${herbsStr} (earned ${revenue}g)`);
+  }
+
+  // Loans
+  if (day.loan && (day.loan.borrowed || day.loan.repaid || day.loan.interest)) {
+    lines.push(
+      `  LOAN: borrowed ${day.loan.borrowed}g, repaid ${day.loan.repaid}g, interest ${day.loan.interest}g`
+    );
+  }
+
+  // Private trades
+  if (day.trades && day.trades.length > 0) {
+    lines.push(`  TRADED: ${formatTrades(day.trades)}`);
+  }
+
   // Potions crafted
   if (day.potionsMade.length > 0) {
     const potionsStr = day.potionsMade
-      .map((p) => `${p.potionId}:${p.qty}`)
+      .map(
+        (p) =>
+          `${p.potionId}:${p.qty}${
+            p.crafts !== undefined
+              ? ` (${p.crafts} crafts${p.failed ? `, ${p.failed} failed` : ""})`
+              : ""
+          }`
+      )
       .join(", ");
     lines.push(`  CRAFTED: ${potionsStr}`);
   }
@@ -130,6 +308,21 @@ function formatDayActions(day: PlayerDayHistory): string {
     lines.push(`  SOLD: ${salesStr}`);
   }
 
+  // Market fees
+  const fees = formatFees(day.sales, day.stallRent);
+  if (fees) {
+    lines.push(`  FEES: ${fees}`);
+  }
+
+  // Overnight losses
+  const spoiled = day.spoiled ? formatItemQuantities(day.spoiled) : "";
+  if (spoiled) {
+    lines.push(`  SPOILED: ${spoiled}`);
+  }
+  if (day.storageFee) {
+    lines.push(`  STORAGE FEES: ${day.storageFee}g`);
+  }
+
   // Errors
   if (day.errors.length > 0) {
     lines.push(`  ERRORS: ${day.errors.join("; ")}`);
@@ -138,6 +331,75 @@ function formatDayActions(day: PlayerDayHistory): string {
   return lines.join("\n");
 }
 
+// Format today's limited herb supply (shared by all players)
+export function formatHerbSupply(
+  supplies: Record<HerbId, number>,
+  priceImpact?: number
+): string {
+  const lines = [
+    Object.entries(supplies)
+      .map(([herbId, qty]) => `${herbId}: ${qty}`)
+      .join(", "),
+    "If all players together order more than the supply, it is split evenly between the buyers. Orders only claim what you can pay for.",
+  ];
+  if (priceImpact) {
+    lines.push(
+      `Prices rise with volume: when buyers take a herb's whole supply, everyone pays ${Math.round(
+        priceImpact * 100
+      )}% more than the listed price (proportionally less for smaller volumes).`
+    );
+  }
+  return lines.join("\n");
+}
+
+// Format today's market events and, if forecast, tomorrow's new ones
+export function formatMarketEvents(
+  active: MarketEvent[],
+  upcoming?: MarketEvent[]
+): string {
+  const lines =
+    active.length > 0
+      ? active.map((event) => `- ${describeMarketEvent(event)}`)
+      : ["No events today."];
+  if (upcoming) {
+    lines.push(
+      upcoming.length > 0
+        ? `Forecast for tomorrow:\n${upcoming
+            .map((event) => `- ${describeMarketEvent(event)}`)
+            .join("\n")}`
+        : "Forecast for tomorrow: no new events."
+    );
+  }
+  return lines.join("\n");
+}
+
+// Format trade partners and the orders they sent this player yesterday
+export function formatTradeOffers(
+  partners: { playerIdx: number; name: string }[],
+  offersToYou: TradeOrder[]
+): string {
+  const lines = [
+    `Players: ${partners
+      .map(({ playerIdx, name }) => `#${playerIdx} ${name}`)
+      .join(", ")}`,
+  ];
+  if (offersToYou.length === 0) {
+    lines.push("No open trade orders are addressed to you.");
+  } else {
+    lines.push(
+      "Addressed to you yesterday, open until today's trades (post the opposite order to trade):"
+    );
+    for (const { side, playerIdx, itemId, qty, price } of offersToYou) {
+      lines.push(
+        side === "sell"
+          ? `- #${playerIdx} offered to sell you ${qty} ${itemId} at ${price}g each`
+          : `- #${playerIdx} offered to buy ${qty} ${itemId} from you at ${price}g each`
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
 // Format action history - your past decisions and their outcomes
 export function formatActionHistory(
   history: PlayerDayHistory[],
@@ -191,7 +453,7 @@ export function formatYesterdayMarket(
   if (!lastDay) return "No market data";
 
   // Show ALL potions, sorted by ID
-  const potionIds = Object.keys(POTION_NAMES).sort() as PotionId[];
+  const potionIds = Object.keys(lastDay).sort() as PotionId[];
 
   const lines = potionIds.map((potionId) => {
     const data = lastDay[potionId];
@@ -215,6 +477,27 @@ export function formatYesterdayMarket(
   return lines.join("\n");
 }
 
+// Format realized demand per potion across previous days (dynamic demand)
+export function formatDemandHistory(
+  historicDemands: Record<PotionId, number>[]
+): string {
+  if (historicDemands.length === 0) return "No demand data yet (Day 1)";
+
+  const potionIds = Object.keys(
+    historicDemands[historicDemands.length - 1]
+  ).sort() as PotionId[];
+
+  // Format: P01: 8, 10, 12
+  return potionIds
+    .map(
+      (potionId) =>
+        `${potionId}: ${historicDemands
+          .map((demands) => demands[potionId] ?? 0)
+          .join(", ")}`
+    )
+    .join("\n");
+}
+
 // Format historical herb prices from action history
 export function formatHistoricalHerbPrices(
   actionHistory: PlayerDayHistory[],